@@ -1,9 +1,45 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { Upload, Music, AudioLines, Sun, Moon, Sparkles } from 'lucide-react';
-import WaveformEditor from './components/WaveformEditor';
+import WaveformEditor, { BatchCommand, BatchResult } from './components/WaveformEditor';
+import FileBin, { BinEntry, BatchStatus } from './components/FileBin';
+import ReelPanel from './components/ReelPanel';
+import { ReelClip } from './types';
+import { SilenceDetectionOptions } from './utils/silenceUtils';
+import { downloadBlob, encodeAudio, getBaseName, isAudioFile } from './utils/audioUtils';
+import { EXPORT_EXTENSIONS, ExportFormatOptions } from './utils/exportFormats';
+import { ClipSpacing, conformBuffer, joinClips } from './utils/reelUtils';
+import { buildCueListCsv } from './utils/manifestUtils';
+
+/** A batch command working through the open files one at a time */
+interface BatchRun {
+  command: BatchCommand;
+  /** File being processed, null once the queue is empty */
+  current: string | null;
+  queue: string[];
+}
+
+const isSameFile = (a: File, b: File) => a.name === b.name && a.size === b.size && a.lastModified === b.lastModified;
+
+/** Moves the batch past `id` when it is the file being processed, and drops it from the queue */
+const advanceBatch = (batch: BatchRun | null, id: string): BatchRun | null => {
+  if (!batch) return batch;
+  const queue = batch.queue.filter(q => q !== id);
+  if (batch.current !== id) return { ...batch, queue };
+  return queue.length > 0 ? { ...batch, current: queue[0], queue: queue.slice(1) } : null;
+};
 
 const App: React.FC = () => {
-  const [file, setFile] = useState<File | null>(null);
+  // Every open file keeps a mounted editor, so switching back needs no re-decode
+  const [entries, setEntries] = useState<BinEntry[]>([]);
+  const [activeId, setActiveId] = useState<string | null>(null);
+  const [batch, setBatch] = useState<BatchRun | null>(null);
+  const [batchResults, setBatchResults] = useState<Record<string, BatchStatus>>({});
+  const [isDragging, setIsDragging] = useState(false);
+  // Clips collected from any open file for one joined export
+  const [reel, setReel] = useState<ReelClip[]>([]);
+  const [showReel, setShowReel] = useState(false);
+  const [isExportingReel, setIsExportingReel] = useState(false);
+  const nextIdRef = useRef(1);
   // Default to Light Mode (false)
   const [isDarkMode, setIsDarkMode] = useState(false);
   // Option to enable/disable transcription
@@ -22,18 +58,147 @@ const App: React.FC = () => {
     setIsDarkMode(!isDarkMode);
   };
 
+  /** Opens files in new tabs; a file that is already open is just brought to front */
+  const addFiles = (files: File[]) => {
+    const audio = files.filter(isAudioFile);
+    if (audio.length === 0) {
+      window.alert('未找到可导入的音频文件');
+      return;
+    }
+    const added: BinEntry[] = [];
+    let focus: string | null = null;
+    audio.forEach(file => {
+      const existing = [...entries, ...added].find(e => isSameFile(e.file, file));
+      if (existing) {
+        focus = existing.id;
+        return;
+      }
+      const entry = { id: `file-${nextIdRef.current++}`, file };
+      added.push(entry);
+      focus = entry.id;
+    });
+    setEntries([...entries, ...added]);
+    setActiveId(added[0]?.id ?? focus);
+  };
+
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files && e.target.files.length > 0) {
-      setFile(e.target.files[0]);
+    const files: File[] = e.target.files ? [...e.target.files] : [];
+    e.target.value = '';
+    if (files.length > 0) addFiles(files);
+  };
+
+  const closeFile = (id: string) => {
+    const index = entries.findIndex(e => e.id === id);
+    const remaining = entries.filter(e => e.id !== id);
+    setEntries(remaining);
+    if (activeId === id) {
+      setActiveId(remaining[Math.min(index, remaining.length - 1)]?.id ?? null);
     }
+    setBatch(b => advanceBatch(b, id));
+    setBatchResults(({ [id]: _, ...rest }) => rest);
   };
 
-  const handleCloseEditor = () => {
-    setFile(null);
+  const runSilenceSplit = (options: SilenceDetectionOptions) => {
+    if (entries.length === 0) return;
+    const ids = entries.map(e => e.id);
+    setBatchResults({});
+    setBatch({
+      command: { id: nextIdRef.current++, type: 'silenceSplit', options },
+      current: ids[0],
+      queue: ids.slice(1),
+    });
+  };
+
+  // Called from editors after async work, so only functional updates here
+  const handleBatchResult = (id: string, result: BatchResult) => {
+    setBatchResults(r => ({
+      ...r,
+      [id]: result.error ? { state: 'error', error: result.error } : { state: 'done', count: result.count },
+    }));
+    setBatch(b => (b && b.command.id === result.commandId ? advanceBatch(b, id) : b));
+  };
+
+  const getBatchStatus = (id: string): BatchStatus | undefined => {
+    if (batch?.current === id) return { state: 'running' };
+    if (batch?.queue.includes(id)) return { state: 'queued' };
+    return batchResults[id];
+  };
+
+  const addToReel = (clips: ReelClip[]) => {
+    setReel(r => [...r, ...clips]);
+    setShowReel(true);
+  };
+
+  /** Joins the checked clips in list order, matching the first clip's rate and channels */
+  const exportReel = async (spacing: ClipSpacing, format: ExportFormatOptions, withCues: boolean) => {
+    const clips = reel.filter(c => c.included);
+    if (clips.length === 0 || isExportingReel) return;
+
+    setIsExportingReel(true);
+    try {
+      const { sampleRate } = clips[0].buffer;
+      const channels = Math.max(...clips.map(c => c.buffer.numberOfChannels));
+      const buffers = await Promise.all(clips.map(c => conformBuffer(c.buffer, sampleRate, channels)));
+      const { buffer, starts } = joinClips(buffers, spacing);
+
+      const baseName = `${getBaseName(clips[0].source)}_joined`;
+      downloadBlob(await encodeAudio(buffer, format), `${baseName}${EXPORT_EXTENSIONS[format.format]}`);
+      if (withCues) {
+        const cues = clips.map((c, i) => ({
+          label: c.label,
+          source: c.source,
+          sourceStart: c.start,
+          sourceEnd: c.end,
+          start: starts[i],
+          end: starts[i] + buffers[i].duration,
+        }));
+        downloadBlob(new Blob([buildCueListCsv(cues)], { type: 'text/csv' }), `${baseName}_cues.csv`);
+      }
+    } catch (err: any) {
+      console.error("Joined export failed", err);
+      window.alert(`合并导出失败: ${err?.message || err}`);
+    } finally {
+      setIsExportingReel(false);
+    }
+  };
+
+  const hasDraggedFiles = (e: React.DragEvent) => Array.from(e.dataTransfer.types).includes('Files');
+
+  const handleDragOver = (e: React.DragEvent) => {
+    if (!hasDraggedFiles(e)) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'copy';
+    setIsDragging(true);
+  };
+
+  const handleDragLeave = (e: React.DragEvent) => {
+    // Leaving for a child element still counts as being over the window
+    if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setIsDragging(false);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    if (!hasDraggedFiles(e)) return;
+    e.preventDefault();
+    setIsDragging(false);
+    addFiles(Array.from(e.dataTransfer.files));
   };
 
   return (
-    <div className="h-full flex flex-col bg-gray-50 dark:bg-gray-950 text-gray-900 dark:text-gray-100 font-sans transition-colors duration-300">
+    <div
+      className="relative h-full flex flex-col bg-gray-50 dark:bg-gray-950 text-gray-900 dark:text-gray-100 font-sans transition-colors duration-300"
+      onDragOver={handleDragOver}
+      onDragLeave={handleDragLeave}
+      onDrop={handleDrop}
+    >
+      {isDragging && (
+        <div className="absolute inset-0 z-50 m-3 flex items-center justify-center rounded-2xl border-2 border-dashed border-indigo-400 bg-indigo-50/80 dark:bg-indigo-950/70 pointer-events-none">
+          <div className="flex flex-col items-center text-indigo-600 dark:text-indigo-300">
+            <Upload size={40} className="mb-3" />
+            <p className="text-lg font-semibold">松开以导入音频文件</p>
+          </div>
+        </div>
+      )}
+
       {/* Header */}
       <header className="flex items-center justify-between px-6 py-4 bg-white dark:bg-gray-900 border-b border-gray-200 dark:border-gray-800 transition-colors duration-300">
         <div className="flex items-center space-x-3">
@@ -56,7 +221,7 @@ const App: React.FC = () => {
 
       {/* Main Content */}
       <main className="flex-1 p-4 md:p-6 overflow-hidden">
-        {!file ? (
+        {entries.length === 0 ? (
           <div className="h-full flex flex-col items-center justify-center p-8 animate-fade-in">
             <div className="max-w-xl w-full text-center space-y-8">
               <div className="relative group">
@@ -68,7 +233,7 @@ const App: React.FC = () => {
                   
                   <h2 className="text-3xl font-bold text-gray-900 dark:text-white">导入音频文件</h2>
                   <p className="text-gray-600 dark:text-gray-400 max-w-sm mx-auto">
-                    选择本地音频文件 (MP3, WAV, AAC) 开始编辑。
+                    选择或拖入本地音频文件 (MP3, WAV, AAC) 开始编辑，可一次导入多个。
                     所有处理均在您的浏览器本地进行，安全高效。
                   </p>
 
@@ -84,6 +249,7 @@ const App: React.FC = () => {
                       id="audio-upload" 
                       type="file" 
                       accept="audio/*" 
+                      multiple
                       className="hidden"
                       onChange={handleFileChange}
                     />
@@ -111,12 +277,46 @@ const App: React.FC = () => {
             </div>
           </div>
         ) : (
-          <WaveformEditor 
-            file={file} 
-            onClose={handleCloseEditor} 
-            isDarkMode={isDarkMode} 
-            enableTranscription={enableTranscription}
-          />
+          <div className="relative h-full flex flex-col">
+            <FileBin
+              entries={entries}
+              activeId={activeId}
+              onSelect={setActiveId}
+              onClose={closeFile}
+              onAdd={addFiles}
+              statuses={Object.fromEntries(entries.map(e => [e.id, getBatchStatus(e.id)]).filter(([, s]) => s))}
+              isBatchRunning={batch !== null}
+              onRunSilenceSplit={runSilenceSplit}
+              onCancelBatch={() => setBatch(null)}
+              reelCount={reel.length}
+              onToggleReel={() => setShowReel(!showReel)}
+            />
+            {showReel && (
+              <ReelPanel
+                clips={reel}
+                onChange={setReel}
+                isExporting={isExportingReel}
+                onExport={exportReel}
+                onClose={() => setShowReel(false)}
+              />
+            )}
+            <div className="flex-1 min-h-0">
+              {entries.map(({ id, file }) => (
+                <div key={id} className={id === activeId ? 'h-full' : 'hidden'}>
+                  <WaveformEditor
+                    file={file}
+                    onClose={() => closeFile(id)}
+                    isDarkMode={isDarkMode}
+                    enableTranscription={enableTranscription}
+                    isActive={id === activeId}
+                    batchCommand={batch?.current === id ? batch.command : null}
+                    onBatchResult={(result) => handleBatchResult(id, result)}
+                    onAddToReel={addToReel}
+                  />
+                </div>
+              ))}
+            </div>
+          </div>
         )}
       </main>
     </div>
@@ -0,0 +1,77 @@
+import React, { useState } from 'react';
+import { Eraser, VolumeX, Crop, TimerReset, FileDown } from 'lucide-react';
+import { EditOperation } from '../types';
+
+interface EditToolbarProps {
+  disabled: boolean;
+  hasSelection: boolean;
+  edits: EditOperation[];
+  onDelete: () => void;
+  onSilence: () => void;
+  onCrop: () => void;
+  onInsertSilence: (duration: number) => void;
+  onExportFull: () => void;
+}
+
+const buttonClass = "flex items-center justify-center gap-1.5 px-2 py-2 text-xs font-medium bg-gray-50 dark:bg-gray-800 hover:bg-gray-100 dark:hover:bg-gray-700 text-gray-700 dark:text-gray-300 border border-gray-200 dark:border-gray-700 rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed";
+
+const EditToolbar: React.FC<EditToolbarProps> = ({
+  disabled, hasSelection, edits, onDelete, onSilence, onCrop, onInsertSilence, onExportFull
+}) => {
+  const [silenceSeconds, setSilenceSeconds] = useState(1);
+  const regionDisabled = disabled || !hasSelection;
+
+  return (
+    <div className="w-full max-w-[240px] space-y-2">
+      <div className="flex items-center justify-between">
+        <p className="text-xs font-semibold text-gray-700 dark:text-gray-300">音频编辑</p>
+        <span className="text-[10px] text-gray-500 dark:text-gray-400">
+          {edits.length > 0 ? `已应用 ${edits.length} 项编辑` : '原始音频'}
+        </span>
+      </div>
+
+      <div className="grid grid-cols-3 gap-2">
+        <button onClick={onDelete} disabled={regionDisabled} className={buttonClass} title="删除选中片段，后续音频前移">
+          <Eraser size={14} />
+          <span>删除</span>
+        </button>
+        <button onClick={onSilence} disabled={regionDisabled} className={buttonClass} title="将选中片段替换为静音">
+          <VolumeX size={14} />
+          <span>静音</span>
+        </button>
+        <button onClick={onCrop} disabled={regionDisabled} className={buttonClass} title="仅保留选中片段">
+          <Crop size={14} />
+          <span>裁剪</span>
+        </button>
+      </div>
+
+      <div className="flex items-center gap-2">
+        <input
+          type="number"
+          min={0.01}
+          step={0.1}
+          value={silenceSeconds}
+          onChange={(e) => setSilenceSeconds(Number(e.target.value))}
+          className="w-16 px-2 py-1.5 text-xs rounded-md bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 text-gray-700 dark:text-gray-200 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+          title="静音时长 (秒)"
+        />
+        <button
+          onClick={() => silenceSeconds > 0 && onInsertSilence(silenceSeconds)}
+          disabled={disabled || !(silenceSeconds > 0)}
+          className={`${buttonClass} flex-1`}
+          title="在当前指针位置插入静音"
+        >
+          <TimerReset size={14} />
+          <span>插入静音</span>
+        </button>
+      </div>
+
+      <button onClick={onExportFull} disabled={disabled} className={`${buttonClass} w-full`} title="导出编辑后的完整音频">
+        <FileDown size={14} />
+        <span>导出完整音频</span>
+      </button>
+    </div>
+  );
+};
+
+export default EditToolbar;
@@ -0,0 +1,193 @@
+import React from 'react';
+import { Loader2, Settings2 } from 'lucide-react';
+import { WavSampleFormat, WAV_FORMAT_LABELS } from '../utils/audioUtils';
+import {
+  ExportFormat, ExportFormatOptions, Mp3BitrateMode, EXPORT_FORMAT_LABELS, MP3_BITRATES, MP3_MODE_LABELS, OPUS_BITRATES,
+} from '../utils/exportFormats';
+import { NormalizeMode, NormalizeOptions, NORMALIZE_MODE_LABELS } from '../utils/loudnessUtils';
+
+interface ExportSettingsProps {
+  options: ExportFormatOptions;
+  onChange: (options: ExportFormatOptions) => void;
+  /** Gain applied to every exported clip before encoding */
+  normalize: NormalizeOptions;
+  onNormalizeChange: (options: NormalizeOptions) => void;
+  /** Encoding progress (0-1) while an export runs */
+  progress?: number | null;
+}
+
+const inputClass = "w-16 px-2 py-1 rounded-md bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 text-gray-700 dark:text-gray-200 focus:outline-none focus:ring-2 focus:ring-indigo-500";
+const selectClass = "px-2 py-1 rounded-md bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 text-gray-700 dark:text-gray-200 focus:outline-none focus:ring-2 focus:ring-indigo-500";
+
+const ExportSettings: React.FC<ExportSettingsProps> = ({ options, onChange, normalize, onNormalizeChange, progress }) => {
+  const { wav, mp3, opus, flac } = options;
+  const wavFormat = wav.format || 'pcm16';
+  // Dither only matters when quantizing below the 24-bit float mantissa
+  const canDither = wavFormat === 'pcm8' || wavFormat === 'pcm16' || wavFormat === 'pcm24';
+
+  return (
+    <div className="flex flex-wrap items-center gap-x-3 gap-y-2 px-4 py-2 border-b border-gray-200 dark:border-gray-800 text-xs text-gray-600 dark:text-gray-400 transition-colors duration-300">
+      <Settings2 size={14} className="shrink-0" />
+      <label className="flex items-center gap-2">
+        <span>导出格式</span>
+        <select
+          value={options.format}
+          onChange={(e) => onChange({ ...options, format: e.target.value as ExportFormat })}
+          className={selectClass}
+        >
+          {(Object.keys(EXPORT_FORMAT_LABELS) as ExportFormat[]).map(f => (
+            <option key={f} value={f}>{EXPORT_FORMAT_LABELS[f]}</option>
+          ))}
+        </select>
+      </label>
+      {options.format === 'wav' && (
+        <>
+          <select
+            value={wavFormat}
+            onChange={(e) => onChange({ ...options, wav: { ...wav, format: e.target.value as WavSampleFormat } })}
+            className={selectClass}
+            title="采样格式"
+          >
+            {(Object.keys(WAV_FORMAT_LABELS) as WavSampleFormat[]).map(f => (
+              <option key={f} value={f}>{WAV_FORMAT_LABELS[f]}</option>
+            ))}
+          </select>
+          <label className={`flex items-center gap-1.5 select-none ${canDither ? 'cursor-pointer' : 'opacity-50'}`}>
+            <input
+              type="checkbox"
+              checked={canDither && !!wav.dither}
+              disabled={!canDither}
+              onChange={(e) => onChange({ ...options, wav: { ...wav, dither: e.target.checked } })}
+              className="w-3.5 h-3.5 text-indigo-600 rounded focus:ring-indigo-500"
+            />
+            <span>TPDF 抖动</span>
+          </label>
+        </>
+      )}
+      {options.format === 'mp3' && (
+        <>
+          <select
+            value={mp3.mode}
+            onChange={(e) => onChange({ ...options, mp3: { ...mp3, mode: e.target.value as Mp3BitrateMode } })}
+            className={selectClass}
+          >
+            {(Object.keys(MP3_MODE_LABELS) as Mp3BitrateMode[]).map(mode => (
+              <option key={mode} value={mode}>{MP3_MODE_LABELS[mode]}</option>
+            ))}
+          </select>
+          {mp3.mode === 'cbr' ? (
+            <select
+              value={mp3.bitrate}
+              onChange={(e) => onChange({ ...options, mp3: { ...mp3, bitrate: Number(e.target.value) } })}
+              className={selectClass}
+              title="码率"
+            >
+              {MP3_BITRATES.map(rate => <option key={rate} value={rate}>{rate} kbps</option>)}
+            </select>
+          ) : (
+            <select
+              value={mp3.vbrQuality}
+              onChange={(e) => onChange({ ...options, mp3: { ...mp3, vbrQuality: Number(e.target.value) } })}
+              className={selectClass}
+              title="质量，V0 最好，V9 文件最小"
+            >
+              {Array.from({ length: 10 }, (_, q) => <option key={q} value={q}>V{q}</option>)}
+            </select>
+          )}
+        </>
+      )}
+      {options.format === 'opus' && (
+        <select
+          value={opus.bitrate}
+          onChange={(e) => onChange({ ...options, opus: { bitrate: Number(e.target.value) } })}
+          className={selectClass}
+          title="码率，导出时重采样为 48 kHz"
+        >
+          {OPUS_BITRATES.map(rate => <option key={rate} value={rate}>{rate} kbps</option>)}
+        </select>
+      )}
+      {options.format === 'flac' && (
+        <>
+          <label className="flex items-center gap-1.5" title="压缩级别，0 最快，8 文件最小">
+            <span>压缩</span>
+            <select
+              value={flac.compression}
+              onChange={(e) => onChange({ ...options, flac: { ...flac, compression: Number(e.target.value) } })}
+              className={selectClass}
+            >
+              {Array.from({ length: 9 }, (_, level) => <option key={level} value={level}>{level}</option>)}
+            </select>
+          </label>
+          <select
+            value={flac.bitDepth}
+            onChange={(e) => onChange({ ...options, flac: { ...flac, bitDepth: Number(e.target.value) as 16 | 24 } })}
+            className={selectClass}
+            title="位深"
+          >
+            <option value={16}>16-bit</option>
+            <option value={24}>24-bit</option>
+          </select>
+        </>
+      )}
+      <label className="flex items-center gap-2">
+        <span>标准化</span>
+        <select
+          value={normalize.mode}
+          onChange={(e) => onNormalizeChange({ ...normalize, mode: e.target.value as NormalizeMode })}
+          className={selectClass}
+        >
+          {(Object.keys(NORMALIZE_MODE_LABELS) as NormalizeMode[]).map(mode => (
+            <option key={mode} value={mode}>{NORMALIZE_MODE_LABELS[mode]}</option>
+          ))}
+        </select>
+      </label>
+      {normalize.mode === 'loudness' && (
+        <>
+          <label className="flex items-center gap-1.5" title="目标综合响度">
+            <input
+              type="number"
+              max={0}
+              step={0.5}
+              value={normalize.targetLufs}
+              onChange={(e) => onNormalizeChange({ ...normalize, targetLufs: Math.min(0, Number(e.target.value)) })}
+              className={inputClass}
+            />
+            <span>LUFS</span>
+          </label>
+          <label className="flex items-center gap-1.5" title="真峰值上限，增益不会超过此值">
+            <input
+              type="number"
+              max={0}
+              step={0.1}
+              value={normalize.truePeakLimit}
+              onChange={(e) => onNormalizeChange({ ...normalize, truePeakLimit: Math.min(0, Number(e.target.value)) })}
+              className={inputClass}
+            />
+            <span>dBTP</span>
+          </label>
+        </>
+      )}
+      {normalize.mode === 'peak' && (
+        <label className="flex items-center gap-1.5" title="目标采样峰值">
+          <input
+            type="number"
+            max={0}
+            step={0.1}
+            value={normalize.targetPeak}
+            onChange={(e) => onNormalizeChange({ ...normalize, targetPeak: Math.min(0, Number(e.target.value)) })}
+            className={inputClass}
+          />
+          <span>dBFS</span>
+        </label>
+      )}
+      {progress != null && (
+        <span className="flex items-center gap-1.5 ml-auto text-indigo-600 dark:text-indigo-400">
+          <Loader2 size={12} className="animate-spin" />
+          编码中 {Math.round(progress * 100)}%
+        </span>
+      )}
+    </div>
+  );
+};
+
+export default ExportSettings;
@@ -0,0 +1,167 @@
+import React, { useState } from 'react';
+import { Music, X, Plus, Layers, CircleAlert, Merge } from 'lucide-react';
+import { DEFAULT_SILENCE_OPTIONS, SilenceDetectionOptions } from '../utils/silenceUtils';
+
+/** A file open in the session; `id` stays stable while files are added and closed */
+export interface BinEntry {
+  id: string;
+  file: File;
+}
+
+export interface BatchStatus {
+  state: 'queued' | 'running' | 'done' | 'error';
+  /** Regions created */
+  count?: number;
+  error?: string;
+}
+
+interface FileBinProps {
+  entries: BinEntry[];
+  activeId: string | null;
+  onSelect: (id: string) => void;
+  onClose: (id: string) => void;
+  onAdd: (files: File[]) => void;
+  /** Progress of the current or last batch run, per entry id */
+  statuses: Record<string, BatchStatus>;
+  isBatchRunning: boolean;
+  onRunSilenceSplit: (options: SilenceDetectionOptions) => void;
+  onCancelBatch: () => void;
+  /** Clips waiting in the joined export list */
+  reelCount: number;
+  onToggleReel: () => void;
+}
+
+const inputClass = "w-16 px-2 py-1 text-xs rounded-md bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 text-gray-700 dark:text-gray-200 focus:outline-none focus:ring-2 focus:ring-indigo-500";
+const toolButtonClass = "flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium text-gray-600 dark:text-gray-300 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 hover:bg-gray-50 dark:hover:bg-gray-700 rounded-md transition-colors cursor-pointer shrink-0";
+
+const StatusBadge: React.FC<{ status?: BatchStatus }> = ({ status }) => {
+  if (!status) return null;
+  switch (status.state) {
+    case 'queued':
+      return <span className="w-1.5 h-1.5 rounded-full bg-gray-400 shrink-0" title="等待处理"></span>;
+    case 'running':
+      return <span className="w-1.5 h-1.5 rounded-full bg-indigo-500 animate-pulse shrink-0" title="处理中"></span>;
+    case 'done':
+      return <span className="text-[10px] text-emerald-600 dark:text-emerald-400 shrink-0">{status.count} 段</span>;
+    case 'error':
+      return (
+        <span title={status.error} className="shrink-0">
+          <CircleAlert size={12} className="text-red-500" />
+        </span>
+      );
+  }
+};
+
+/**
+ * Tabs for the open files, plus adding more files and batch operations across all of them
+ */
+const FileBin: React.FC<FileBinProps> = ({
+  entries, activeId, onSelect, onClose, onAdd, statuses, isBatchRunning, onRunSilenceSplit, onCancelBatch,
+  reelCount, onToggleReel
+}) => {
+  const [showBatch, setShowBatch] = useState(false);
+  const [silenceOptions, setSilenceOptions] = useState<SilenceDetectionOptions>(DEFAULT_SILENCE_OPTIONS);
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files: File[] = e.target.files ? [...e.target.files] : [];
+    e.target.value = '';
+    if (files.length > 0) onAdd(files);
+  };
+
+  const numberField = (label: string, key: keyof SilenceDetectionOptions, unit: string, step: number) => (
+    <label className="flex items-center justify-between gap-2">
+      <span>{label}</span>
+      <span className="flex items-center gap-1">
+        <input
+          type="number"
+          step={step}
+          value={silenceOptions[key]}
+          onChange={(e) => setSilenceOptions({ ...silenceOptions, [key]: Number(e.target.value) || 0 })}
+          className={inputClass}
+        />
+        <span className="w-6">{unit}</span>
+      </span>
+    </label>
+  );
+
+  return (
+    <div className="relative flex items-center gap-2 mb-3">
+      <div className="flex-1 min-w-0 flex items-center gap-1 overflow-x-auto">
+        {entries.map(({ id, file }) => (
+          <div
+            key={id}
+            onClick={() => onSelect(id)}
+            className={`group flex items-center gap-2 pl-3 pr-1 py-1.5 rounded-md border text-xs cursor-pointer shrink-0 transition-colors ${
+              id === activeId
+                ? 'bg-white dark:bg-gray-900 border-indigo-300 dark:border-indigo-500/60 text-gray-900 dark:text-white shadow-sm'
+                : 'bg-gray-100 dark:bg-gray-800/60 border-transparent text-gray-500 dark:text-gray-400 hover:text-gray-800 dark:hover:text-gray-200'
+            }`}
+            title={file.name}
+          >
+            <Music size={12} className="shrink-0" />
+            <span className="truncate max-w-[180px]">{file.name}</span>
+            <StatusBadge status={statuses[id]} />
+            <button
+              onClick={(e) => { e.stopPropagation(); onClose(id); }}
+              className="p-0.5 rounded text-gray-400 hover:text-gray-900 dark:hover:text-white hover:bg-gray-200 dark:hover:bg-gray-700"
+              title="关闭文件"
+            >
+              <X size={12} />
+            </button>
+          </div>
+        ))}
+      </div>
+
+      <label className={toolButtonClass} title="打开更多音频文件 (也可直接拖入窗口)">
+        <Plus size={14} />
+        <span>添加文件</span>
+        <input type="file" accept="audio/*" multiple className="hidden" onChange={handleFileChange} />
+      </label>
+      <button onClick={() => setShowBatch(!showBatch)} className={toolButtonClass} title="对所有已打开的文件执行操作">
+        <Layers size={14} />
+        <span>批量处理</span>
+      </button>
+      <button onClick={onToggleReel} className={toolButtonClass} title="把多个文件中的片段按自定顺序合并为一个文件">
+        <Merge size={14} />
+        <span>合并列表{reelCount > 0 ? ` (${reelCount})` : ''}</span>
+      </button>
+
+      {showBatch && (
+        <div className="absolute right-0 top-full mt-1 z-40 w-64 p-3 space-y-2 bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded-lg shadow-2xl text-xs text-gray-600 dark:text-gray-400">
+          <div className="flex items-center justify-between">
+            <span className="font-semibold text-gray-700 dark:text-gray-300">批量静音分割 ({entries.length} 个文件)</span>
+            <button onClick={() => setShowBatch(false)} className="p-1 text-gray-500 hover:text-gray-900 dark:hover:text-white rounded" title="关闭">
+              <X size={12} />
+            </button>
+          </div>
+          {numberField('静音阈值', 'thresholdDb', 'dB', 1)}
+          {numberField('最短静音', 'minSilence', 's', 0.05)}
+          {numberField('边缘留白', 'padding', 's', 0.05)}
+          <p className="text-[10px] text-gray-400 dark:text-gray-500">直接为每个文件创建片段，可在各文件中撤销。</p>
+          {isBatchRunning ? (
+            <button
+              onClick={onCancelBatch}
+              className="w-full px-3 py-1.5 font-medium text-gray-600 dark:text-gray-300 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 hover:bg-gray-50 dark:hover:bg-gray-700 rounded-md transition-colors"
+            >
+              停止剩余文件
+            </button>
+          ) : (
+            <button
+              onClick={() => onRunSilenceSplit({
+                thresholdDb: Math.min(0, silenceOptions.thresholdDb),
+                minSilence: Math.max(0.01, silenceOptions.minSilence),
+                padding: Math.max(0, silenceOptions.padding),
+              })}
+              disabled={entries.length === 0}
+              className="w-full px-3 py-1.5 font-medium text-white bg-indigo-600 hover:bg-indigo-500 rounded-md transition-colors disabled:opacity-50"
+            >
+              开始分割全部文件
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default FileBin;
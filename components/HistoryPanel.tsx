@@ -0,0 +1,78 @@
+import React, { useEffect, useRef } from 'react';
+import { Undo2, Redo2, X } from 'lucide-react';
+import { HistoryEntry } from '../utils/historyUtils';
+
+interface HistoryPanelProps {
+  entries: HistoryEntry<unknown>[];
+  index: number;
+  onJump: (index: number) => void;
+  onUndo: () => void;
+  onRedo: () => void;
+  onClose: () => void;
+}
+
+const formatClock = (timestamp: number) =>
+  new Date(timestamp).toLocaleTimeString('zh-CN', { hour12: false });
+
+const HistoryPanel: React.FC<HistoryPanelProps> = ({ entries, index, onJump, onUndo, onRedo, onClose }) => {
+  const activeRef = useRef<HTMLButtonElement>(null);
+
+  // Keep the current step in view as the history grows
+  useEffect(() => {
+    activeRef.current?.scrollIntoView({ block: 'nearest' });
+  }, [index, entries.length]);
+
+  return (
+    <div className="absolute right-4 top-16 z-30 w-72 bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded-lg shadow-2xl flex flex-col max-h-96 transition-colors duration-300">
+      <div className="flex items-center justify-between px-3 py-2 border-b border-gray-200 dark:border-gray-800">
+        <span className="text-xs font-semibold text-gray-700 dark:text-gray-300">操作历史</span>
+        <div className="flex items-center space-x-1">
+          <button
+            onClick={onUndo}
+            disabled={index === 0}
+            className="p-1.5 text-gray-500 hover:text-gray-900 dark:text-gray-400 dark:hover:text-white rounded disabled:opacity-40"
+            title="撤销 (Ctrl+Z)"
+          >
+            <Undo2 size={14} />
+          </button>
+          <button
+            onClick={onRedo}
+            disabled={index >= entries.length - 1}
+            className="p-1.5 text-gray-500 hover:text-gray-900 dark:text-gray-400 dark:hover:text-white rounded disabled:opacity-40"
+            title="重做 (Ctrl+Shift+Z)"
+          >
+            <Redo2 size={14} />
+          </button>
+          <button
+            onClick={onClose}
+            className="p-1.5 text-gray-500 hover:text-gray-900 dark:text-gray-400 dark:hover:text-white rounded"
+            title="关闭"
+          >
+            <X size={14} />
+          </button>
+        </div>
+      </div>
+      <div className="flex-1 overflow-y-auto py-1">
+        {entries.map((entry, i) => (
+          <button
+            key={`${entry.timestamp}-${i}`}
+            ref={i === index ? activeRef : undefined}
+            onClick={() => onJump(i)}
+            className={`w-full flex items-center justify-between px-3 py-1.5 text-left text-xs transition-colors ${
+              i === index
+                ? 'bg-indigo-50 dark:bg-indigo-900/30 text-indigo-700 dark:text-indigo-300 font-medium'
+                : i > index
+                  ? 'text-gray-400 dark:text-gray-600 hover:bg-gray-50 dark:hover:bg-gray-800'
+                  : 'text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-800'
+            }`}
+          >
+            <span className="truncate">{entry.label}</span>
+            <span className="font-mono text-[10px] text-gray-400 dark:text-gray-500 ml-2 shrink-0">{formatClock(entry.timestamp)}</span>
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default HistoryPanel;
@@ -0,0 +1,37 @@
+import React from 'react';
+import { Gauge } from 'lucide-react';
+import { LoudnessStats, formatLevel } from '../utils/loudnessUtils';
+
+interface LoudnessBarProps {
+  /** Whole-file measurement, null until analysed (or after the audio changed) */
+  stats: LoudnessStats | null;
+  isAnalyzing: boolean;
+  disabled: boolean;
+  onAnalyze: () => void;
+}
+
+const LoudnessBar: React.FC<LoudnessBarProps> = ({ stats, isAnalyzing, disabled, onAnalyze }) => {
+  return (
+    <div className="flex items-center gap-3 px-4 py-2 border-b border-gray-200 dark:border-gray-800 text-xs text-gray-600 dark:text-gray-400 transition-colors duration-300">
+      <Gauge size={14} className="shrink-0" />
+      <span>整体响度</span>
+      {stats ? (
+        <span className="font-mono text-gray-800 dark:text-gray-200">
+          {formatLevel(stats.integrated)} LUFS · LRA {formatLevel(stats.range)} LU · {formatLevel(stats.truePeak)} dBTP
+        </span>
+      ) : (
+        <span className="text-gray-400 dark:text-gray-500">未分析</span>
+      )}
+      <button
+        onClick={onAnalyze}
+        disabled={disabled || isAnalyzing}
+        className="ml-auto px-2 py-1 font-medium text-indigo-600 dark:text-indigo-300 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 hover:bg-indigo-50 dark:hover:bg-indigo-900/30 rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        title="测量整体与各片段的综合响度、响度范围和真峰值 (EBU R128)"
+      >
+        {isAnalyzing ? '分析中...' : '响度分析'}
+      </button>
+    </div>
+  );
+};
+
+export default LoudnessBar;
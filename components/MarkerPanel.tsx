@@ -0,0 +1,74 @@
+import React, { useRef, useState } from 'react';
+import { Download, Upload, X } from 'lucide-react';
+import { MarkerFormat, MARKER_EXTENSIONS, MARKER_FORMAT_LABELS } from '../utils/markerUtils';
+
+interface MarkerPanelProps {
+  regionCount: number;
+  onExport: (format: MarkerFormat) => void;
+  /** Any supported format; it is detected from the file */
+  onImport: (file: File) => void;
+  onClose: () => void;
+}
+
+const fieldClass = "px-2 py-1 rounded-md bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 text-gray-700 dark:text-gray-200 focus:outline-none focus:ring-2 focus:ring-indigo-500";
+
+const MarkerPanel: React.FC<MarkerPanelProps> = ({ regionCount, onExport, onImport, onClose }) => {
+  const [format, setFormat] = useState<MarkerFormat>('audacity');
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) onImport(file);
+  };
+
+  return (
+    <div className="absolute right-4 top-16 z-30 w-72 bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded-lg shadow-2xl flex flex-col transition-colors duration-300">
+      <div className="flex items-center justify-between px-3 py-2 border-b border-gray-200 dark:border-gray-800">
+        <span className="text-xs font-semibold text-gray-700 dark:text-gray-300">标记导入 / 导出</span>
+        <button
+          onClick={onClose}
+          className="p-1.5 text-gray-500 hover:text-gray-900 dark:text-gray-400 dark:hover:text-white rounded"
+          title="关闭"
+        >
+          <X size={14} />
+        </button>
+      </div>
+      <div className="p-3 space-y-2 text-xs text-gray-600 dark:text-gray-400">
+        <label className="flex items-center justify-between gap-2">
+          <span>格式</span>
+          <select value={format} onChange={(e) => setFormat(e.target.value as MarkerFormat)} className={`${fieldClass} w-44`}>
+            {(Object.keys(MARKER_FORMAT_LABELS) as MarkerFormat[]).map(f => (
+              <option key={f} value={f}>{MARKER_FORMAT_LABELS[f]} ({MARKER_EXTENSIONS[f]})</option>
+            ))}
+          </select>
+        </label>
+        <button
+          onClick={() => onExport(format)}
+          disabled={regionCount === 0}
+          className="w-full flex items-center justify-center gap-1.5 px-3 py-2 font-medium text-white bg-indigo-600 hover:bg-indigo-500 rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <Download size={14} />
+          <span>导出 {regionCount} 个片段</span>
+        </button>
+        <button
+          onClick={() => inputRef.current?.click()}
+          className="w-full flex items-center justify-center gap-1.5 px-3 py-2 font-medium text-gray-700 dark:text-gray-200 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 hover:bg-gray-50 dark:hover:bg-gray-700 rounded-md transition-colors"
+          title="导入后添加为新的片段，格式按文件自动识别"
+        >
+          <Upload size={14} />
+          <span>导入标记文件</span>
+        </button>
+        <input
+          ref={inputRef}
+          type="file"
+          accept={Object.values(MARKER_EXTENSIONS).join(',')}
+          className="hidden"
+          onChange={handleFileChange}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default MarkerPanel;
@@ -0,0 +1,157 @@
+import React, { useState } from 'react';
+import { X, ArrowUp, ArrowDown, Trash2, Download, Merge } from 'lucide-react';
+import { ReelClip } from '../types';
+import { formatTime, WavSampleFormat, WAV_FORMAT_LABELS } from '../utils/audioUtils';
+import { CompressedFormat, DEFAULT_EXPORT_FORMAT, ExportFormat, ExportFormatOptions, describeExportFormat } from '../utils/exportFormats';
+import { ClipSpacing, ClipSpacingMode, CLIP_SPACING_LABELS, DEFAULT_CLIP_SPACING } from '../utils/reelUtils';
+
+interface ReelPanelProps {
+  clips: ReelClip[];
+  onChange: (clips: ReelClip[]) => void;
+  isExporting: boolean;
+  onExport: (spacing: ClipSpacing, format: ExportFormatOptions, withCues: boolean) => void;
+  onClose: () => void;
+}
+
+const fieldClass = "px-2 py-1 rounded-md bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 text-gray-700 dark:text-gray-200 focus:outline-none focus:ring-2 focus:ring-indigo-500";
+const iconButtonClass = "p-1 text-gray-500 hover:text-gray-900 dark:text-gray-400 dark:hover:text-white hover:bg-gray-100 dark:hover:bg-gray-700 rounded disabled:opacity-30 disabled:pointer-events-none";
+
+/**
+ * Clips queued for a joined export: pick, reorder, then choose what goes between them
+ */
+const ReelPanel: React.FC<ReelPanelProps> = ({ clips, onChange, isExporting, onExport, onClose }) => {
+  const [spacing, setSpacing] = useState<ClipSpacing>(DEFAULT_CLIP_SPACING);
+  // Compressed formats use their default settings here
+  const [format, setFormat] = useState<ExportFormatOptions>(DEFAULT_EXPORT_FORMAT);
+  const [withCues, setWithCues] = useState(true);
+
+  const included = clips.filter(c => c.included);
+  // Estimate only: crossfades are shortened for clips shorter than the overlap
+  const totalLength = included.reduce((sum, c) => sum + c.buffer.duration, 0) +
+    Math.max(0, included.length - 1) * (spacing.mode === 'gap' ? spacing.seconds : -spacing.seconds);
+
+  const move = (index: number, delta: number) => {
+    const next = [...clips];
+    const [clip] = next.splice(index, 1);
+    next.splice(index + delta, 0, clip);
+    onChange(next);
+  };
+
+  return (
+    <div className="absolute right-4 top-16 z-40 w-96 max-h-[70vh] bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded-lg shadow-2xl flex flex-col text-xs text-gray-600 dark:text-gray-400 transition-colors duration-300">
+      <div className="flex items-center justify-between px-3 py-2 border-b border-gray-200 dark:border-gray-800">
+        <span className="font-semibold text-gray-700 dark:text-gray-300">合并导出 ({included.length}/{clips.length} 个片段)</span>
+        <button onClick={onClose} className="p-1.5 text-gray-500 hover:text-gray-900 dark:text-gray-400 dark:hover:text-white rounded" title="关闭">
+          <X size={14} />
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-2 space-y-1">
+        {clips.length === 0 ? (
+          <p className="p-4 text-center text-gray-400 dark:text-gray-500">
+            在片段列表中点击“加入合并”，可从多个文件挑选片段
+          </p>
+        ) : clips.map((clip, index) => (
+          <div
+            key={clip.id}
+            className={`flex items-center gap-2 p-2 rounded-md border border-gray-200 dark:border-gray-700 ${clip.included ? '' : 'opacity-50'}`}
+          >
+            <input
+              type="checkbox"
+              checked={clip.included}
+              onChange={(e) => onChange(clips.map(c => (c.id === clip.id ? { ...c, included: e.target.checked } : c)))}
+              className="w-3.5 h-3.5 text-indigo-600 rounded focus:ring-indigo-500"
+              title="包含在导出中"
+            />
+            <div className="flex-1 min-w-0">
+              <p className="text-gray-800 dark:text-gray-200 truncate">{index + 1}. {clip.label}</p>
+              <p className="text-[10px] text-gray-400 dark:text-gray-500 truncate" title={clip.source}>
+                {clip.source} · {formatTime(clip.start)} – {formatTime(clip.end)}
+              </p>
+            </div>
+            <button onClick={() => move(index, -1)} disabled={index === 0} className={iconButtonClass} title="上移">
+              <ArrowUp size={12} />
+            </button>
+            <button onClick={() => move(index, 1)} disabled={index === clips.length - 1} className={iconButtonClass} title="下移">
+              <ArrowDown size={12} />
+            </button>
+            <button onClick={() => onChange(clips.filter(c => c.id !== clip.id))} className={iconButtonClass} title="移出列表">
+              <Trash2 size={12} />
+            </button>
+          </div>
+        ))}
+      </div>
+
+      <div className="p-3 space-y-2 border-t border-gray-200 dark:border-gray-800">
+        <div className="flex items-center gap-2">
+          <select
+            value={spacing.mode}
+            onChange={(e) => setSpacing({ ...spacing, mode: e.target.value as ClipSpacingMode })}
+            className={fieldClass}
+          >
+            {(Object.keys(CLIP_SPACING_LABELS) as ClipSpacingMode[]).map(mode => (
+              <option key={mode} value={mode}>{CLIP_SPACING_LABELS[mode]}</option>
+            ))}
+          </select>
+          <input
+            type="number"
+            min={0}
+            step={0.05}
+            value={spacing.seconds}
+            onChange={(e) => setSpacing({ ...spacing, seconds: Math.max(0, Number(e.target.value) || 0) })}
+            className={`${fieldClass} w-16`}
+          />
+          <span>s</span>
+          <select
+            value={format.format === 'wav' ? `wav:${format.wav.format}` : format.format}
+            onChange={(e) => {
+              const [next, sampleFormat] = e.target.value.split(':');
+              setFormat({
+                ...format,
+                format: next as ExportFormat,
+                wav: sampleFormat ? { ...format.wav, format: sampleFormat as WavSampleFormat } : format.wav,
+              });
+            }}
+            className={`${fieldClass} ml-auto`}
+          >
+            {(Object.keys(WAV_FORMAT_LABELS) as WavSampleFormat[]).map(f => (
+              <option key={f} value={`wav:${f}`}>WAV {WAV_FORMAT_LABELS[f]}</option>
+            ))}
+            {(['mp3', 'opus', 'flac'] as CompressedFormat[]).map(f => (
+              <option key={f} value={f}>{describeExportFormat({ ...format, format: f })}</option>
+            ))}
+          </select>
+        </div>
+        <label className="flex items-center gap-1.5 cursor-pointer select-none">
+          <input
+            type="checkbox"
+            checked={withCues}
+            onChange={(e) => setWithCues(e.target.checked)}
+            className="w-3.5 h-3.5 text-indigo-600 rounded focus:ring-indigo-500"
+          />
+          <span>同时导出 cue 列表 (CSV，记录每个片段在成品中的位置)</span>
+        </label>
+        <div className="flex items-center gap-2">
+          <span className="flex-1">总长约 {formatTime(Math.max(0, totalLength))}</span>
+          <button
+            onClick={() => onChange([])}
+            disabled={clips.length === 0 || isExporting}
+            className="px-3 py-1.5 font-medium text-gray-600 dark:text-gray-300 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 hover:bg-gray-50 dark:hover:bg-gray-700 rounded-md transition-colors disabled:opacity-50"
+          >
+            清空
+          </button>
+          <button
+            onClick={() => onExport(spacing, format, withCues)}
+            disabled={included.length === 0 || isExporting}
+            className="flex items-center gap-1.5 px-3 py-1.5 font-medium text-white bg-indigo-600 hover:bg-indigo-500 rounded-md transition-colors disabled:opacity-50"
+          >
+            {isExporting ? <Merge size={14} className="animate-pulse" /> : <Download size={14} />}
+            <span>{isExporting ? '合并中...' : '导出'}</span>
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ReelPanel;
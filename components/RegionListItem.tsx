@@ -0,0 +1,244 @@
+import React, { useEffect, useState } from 'react';
+import { Play, Download, Trash2, Spline, ListPlus } from 'lucide-react';
+import { RegionData, FadeCurve } from '../types';
+import { TimecodeOptions } from '../utils/audioUtils';
+import { colorToHex } from '../utils/colorUtils';
+import { FADE_CURVE_LABELS } from '../utils/fadeUtils';
+import { LoudnessStats, formatLevel } from '../utils/loudnessUtils';
+import TimecodeInput from './TimecodeInput';
+
+interface RegionListItemProps {
+  region: RegionData;
+  index: number;
+  isActive: boolean;
+  timecode: TimecodeOptions;
+  /** Nudge step in seconds */
+  nudgeStep: number;
+  /** Length of the audio, the upper bound for the end time */
+  maxTime: number;
+  /** Measurement of the region's current bounds, if it has been analysed */
+  loudness?: LoudnessStats;
+  /** The export format, e.g. "MP3 192k", as describeExportFormat puts it */
+  exportFormat: string;
+  onSelect: () => void;
+  onPlay: () => void;
+  onExport: () => void;
+  /** Queues the clip for the joined export */
+  onAddToReel: () => void;
+  onRemove: () => void;
+  onRename: (label: string) => void;
+  /** Called while the picker moves; `commit` is true once the choice is final */
+  onColorChange: (hex: string, commit: boolean) => void;
+  onNoteChange: (note: string) => void;
+  onBoundsChange: (start: number, end: number) => void;
+  onFadeChange: (patch: Pick<RegionData, 'fadeIn' | 'fadeOut' | 'fadeCurve'>) => void;
+}
+
+const RegionListItem: React.FC<RegionListItemProps> = ({
+  region, index, isActive, timecode, nudgeStep, maxTime, loudness, exportFormat,
+  onSelect, onPlay, onExport, onAddToReel, onRemove, onRename, onColorChange, onNoteChange, onBoundsChange, onFadeChange
+}) => {
+  // Keep at least one sample between start and end
+  const minLength = 1 / timecode.sampleRate;
+
+  const [labelDraft, setLabelDraft] = useState(region.label || '');
+  const [noteDraft, setNoteDraft] = useState(region.note || '');
+  const hasFades = !!(region.fadeIn || region.fadeOut);
+  const [showFades, setShowFades] = useState(hasFades);
+
+  // Follow external changes (undo, project restore) when not being edited
+  useEffect(() => setLabelDraft(region.label || ''), [region.label]);
+  useEffect(() => setNoteDraft(region.note || ''), [region.note]);
+
+  const commitLabel = () => {
+    const label = labelDraft.trim();
+    if (!label) {
+      setLabelDraft(region.label || '');
+    } else if (label !== region.label) {
+      onRename(label);
+    }
+  };
+
+  const commitNote = () => {
+    const note = noteDraft.trim();
+    if (note !== (region.note || '')) onNoteChange(note);
+  };
+
+  const blurOnEnter = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') e.currentTarget.blur();
+  };
+
+  const commitFade = (field: 'fadeIn' | 'fadeOut', text: string) => {
+    const seconds = Math.max(0, Number(text) || 0);
+    if (seconds !== (region[field] || 0)) onFadeChange({ [field]: seconds || undefined });
+  };
+
+  const fadeInputClass = "w-14 px-1 py-0.5 text-xs font-mono text-center text-gray-700 dark:text-gray-300 bg-gray-50 dark:bg-gray-900 border border-gray-200 dark:border-gray-700 focus:border-indigo-400 rounded focus:outline-none";
+
+  return (
+    <div
+      className={`group flex items-center justify-between p-3 rounded-lg border transition-all ${
+        isActive
+          ? 'bg-indigo-50 dark:bg-indigo-900/20 border-indigo-200 dark:border-indigo-500/50'
+          : 'bg-white dark:bg-gray-800 border-gray-200 dark:border-gray-700 hover:border-gray-300 dark:hover:border-gray-600'
+      }`}
+      onClick={onSelect}
+    >
+      <div className="flex items-center space-x-4 min-w-0 flex-1">
+        <label
+          className="relative flex items-center justify-center w-8 h-8 shrink-0 rounded-full text-gray-700 dark:text-gray-100 text-sm font-bold font-mono cursor-pointer border border-gray-200 dark:border-gray-600"
+          style={{ backgroundColor: region.color }}
+          title="更改颜色"
+          onClick={(e) => e.stopPropagation()}
+        >
+          {index + 1}
+          <input
+            type="color"
+            value={colorToHex(region.color)}
+            onChange={(e) => onColorChange(e.target.value, false)}
+            onBlur={(e) => onColorChange(e.target.value, true)}
+            className="absolute inset-0 opacity-0 cursor-pointer"
+          />
+        </label>
+        <div className="min-w-0 flex-1">
+          <input
+            value={labelDraft}
+            onChange={(e) => setLabelDraft(e.target.value)}
+            onBlur={commitLabel}
+            onKeyDown={blurOnEnter}
+            onClick={(e) => e.stopPropagation()}
+            className="w-full max-w-xs text-sm font-medium text-gray-900 dark:text-gray-200 bg-transparent border border-transparent hover:border-gray-200 dark:hover:border-gray-700 focus:border-indigo-400 rounded px-1 -mx-1 focus:outline-none"
+            title="点击重命名"
+          />
+          <div className="flex flex-wrap items-center gap-x-3 gap-y-1 mt-1">
+            <TimecodeInput
+              label="起"
+              value={region.start}
+              min={0}
+              max={region.end - minLength}
+              options={timecode}
+              step={nudgeStep}
+              onCommit={(start) => onBoundsChange(start, region.end)}
+            />
+            <TimecodeInput
+              label="止"
+              value={region.end}
+              min={region.start + minLength}
+              max={maxTime}
+              options={timecode}
+              step={nudgeStep}
+              onCommit={(end) => onBoundsChange(region.start, end)}
+            />
+            <TimecodeInput
+              label="长"
+              value={region.end - region.start}
+              min={minLength}
+              max={maxTime - region.start}
+              options={timecode}
+              step={nudgeStep}
+              onCommit={(length) => onBoundsChange(region.start, region.start + length)}
+            />
+          </div>
+          {loudness && (
+            <p className="mt-1 text-[10px] font-mono text-gray-400 dark:text-gray-500" title="综合响度 · 响度范围 · 真峰值">
+              {formatLevel(loudness.integrated)} LUFS · LRA {formatLevel(loudness.range)} LU · {formatLevel(loudness.truePeak)} dBTP
+            </p>
+          )}
+          {(showFades || hasFades) && (
+            <div className="flex flex-wrap items-center gap-x-3 gap-y-1 mt-1 text-[10px] text-gray-400 dark:text-gray-500" onClick={(e) => e.stopPropagation()}>
+              <label className="flex items-center gap-1">
+                淡入
+                <input
+                  key={`in-${region.fadeIn || 0}`}
+                  type="number"
+                  min={0}
+                  step={0.05}
+                  defaultValue={region.fadeIn || 0}
+                  onBlur={(e) => commitFade('fadeIn', e.target.value)}
+                  onKeyDown={blurOnEnter}
+                  className={fadeInputClass}
+                />
+                s
+              </label>
+              <label className="flex items-center gap-1">
+                淡出
+                <input
+                  key={`out-${region.fadeOut || 0}`}
+                  type="number"
+                  min={0}
+                  step={0.05}
+                  defaultValue={region.fadeOut || 0}
+                  onBlur={(e) => commitFade('fadeOut', e.target.value)}
+                  onKeyDown={blurOnEnter}
+                  className={fadeInputClass}
+                />
+                s
+              </label>
+              <select
+                value={region.fadeCurve || 'linear'}
+                onChange={(e) => onFadeChange({ fadeCurve: e.target.value as FadeCurve })}
+                className="px-1 py-0.5 text-xs rounded bg-gray-50 dark:bg-gray-900 border border-gray-200 dark:border-gray-700 text-gray-700 dark:text-gray-300 focus:outline-none"
+                title="淡变曲线"
+              >
+                {(Object.keys(FADE_CURVE_LABELS) as FadeCurve[]).map(curve => (
+                  <option key={curve} value={curve}>{FADE_CURVE_LABELS[curve]}</option>
+                ))}
+              </select>
+            </div>
+          )}
+          <input
+            value={noteDraft}
+            onChange={(e) => setNoteDraft(e.target.value)}
+            onBlur={commitNote}
+            onKeyDown={blurOnEnter}
+            onClick={(e) => e.stopPropagation()}
+            placeholder="添加备注..."
+            className="w-full mt-1 text-xs text-gray-600 dark:text-gray-400 placeholder-gray-400 dark:placeholder-gray-600 bg-transparent border border-transparent hover:border-gray-200 dark:hover:border-gray-700 focus:border-indigo-400 rounded px-1 -mx-1 focus:outline-none"
+          />
+        </div>
+      </div>
+
+      <div className="flex items-center space-x-2 shrink-0 opacity-100 sm:opacity-0 sm:group-hover:opacity-100 transition-opacity">
+        <button
+          onClick={(e) => { e.stopPropagation(); setShowFades(!showFades); }}
+          className={`p-2 rounded-md hover:bg-gray-100 dark:hover:bg-gray-700 ${
+            hasFades ? 'text-amber-500' : 'text-gray-500 hover:text-gray-900 dark:text-gray-400 dark:hover:text-white'
+          }`}
+          title="淡入淡出"
+        >
+          <Spline size={16} />
+        </button>
+        <button
+          onClick={(e) => { e.stopPropagation(); onPlay(); }}
+          className="p-2 text-gray-500 hover:text-gray-900 dark:text-gray-400 dark:hover:text-white hover:bg-gray-100 dark:hover:bg-gray-700 rounded-md"
+          title="预览播放"
+        >
+          <Play size={16} />
+        </button>
+        <button
+          onClick={(e) => { e.stopPropagation(); onExport(); }}
+          className="p-2 text-indigo-500 hover:text-indigo-600 dark:text-indigo-400 dark:hover:text-indigo-300 hover:bg-indigo-50 dark:hover:bg-indigo-900/30 rounded-md"
+          title={`导出 ${exportFormat}`}
+        >
+          <Download size={16} />
+        </button>
+        <button
+          onClick={(e) => { e.stopPropagation(); onAddToReel(); }}
+          className="p-2 text-gray-500 hover:text-gray-900 dark:text-gray-400 dark:hover:text-white hover:bg-gray-100 dark:hover:bg-gray-700 rounded-md"
+          title="加入合并导出列表"
+        >
+          <ListPlus size={16} />
+        </button>
+        <button
+          onClick={(e) => { e.stopPropagation(); onRemove(); }}
+          className="p-2 text-red-500 hover:text-red-600 dark:text-red-400 dark:hover:text-red-300 hover:bg-red-50 dark:hover:bg-red-900/30 rounded-md"
+          title="删除"
+        >
+          <Trash2 size={16} />
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default RegionListItem;
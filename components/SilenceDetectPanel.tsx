@@ -0,0 +1,108 @@
+import React from 'react';
+import { AudioLines, Check, X } from 'lucide-react';
+import { SilenceDetectionOptions } from '../utils/silenceUtils';
+
+interface SilenceDetectPanelProps {
+  options: SilenceDetectionOptions;
+  onChange: (options: SilenceDetectionOptions) => void;
+  disabled: boolean;
+  /** Long recordings are analysed on their peak envelope, which only approximates the RMS threshold */
+  approximate: boolean;
+  /** Analysis progress from 0 to 1, null when idle */
+  progress: number | null;
+  /** Number of proposed regions awaiting confirmation, null when there is no preview */
+  proposalCount: number | null;
+  onDetect: () => void;
+  onAccept: () => void;
+  onCancel: () => void;
+}
+
+const buttonClass = "flex items-center justify-center gap-1.5 px-2 py-2 text-xs font-medium bg-gray-50 dark:bg-gray-800 hover:bg-gray-100 dark:hover:bg-gray-700 text-gray-700 dark:text-gray-300 border border-gray-200 dark:border-gray-700 rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed";
+const inputClass = "w-16 px-2 py-1 text-xs rounded-md bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 text-gray-700 dark:text-gray-200 focus:outline-none focus:ring-2 focus:ring-indigo-500";
+
+const SilenceDetectPanel: React.FC<SilenceDetectPanelProps> = ({
+  options, onChange, disabled, approximate, progress, proposalCount, onDetect, onAccept, onCancel
+}) => {
+  const isDetecting = progress !== null;
+
+  return (
+    <div className="w-full max-w-[240px] space-y-2">
+      <p className="text-xs font-semibold text-gray-700 dark:text-gray-300">静音检测分割</p>
+
+      <div className="space-y-1.5 text-xs text-gray-600 dark:text-gray-400">
+        <label className="flex items-center justify-between gap-2">
+          <span>静音阈值</span>
+          <span className="flex items-center gap-1">
+            <input
+              type="number"
+              max={0}
+              step={1}
+              value={options.thresholdDb}
+              onChange={(e) => onChange({ ...options, thresholdDb: Math.min(0, Number(e.target.value)) })}
+              className={inputClass}
+            />
+            <span className="w-8">dBFS</span>
+          </span>
+        </label>
+        <label className="flex items-center justify-between gap-2">
+          <span>最短静音</span>
+          <span className="flex items-center gap-1">
+            <input
+              type="number"
+              min={0.01}
+              step={0.1}
+              value={options.minSilence}
+              onChange={(e) => onChange({ ...options, minSilence: Math.max(0.01, Number(e.target.value) || 0) })}
+              className={inputClass}
+            />
+            <span className="w-8">s</span>
+          </span>
+        </label>
+        <label className="flex items-center justify-between gap-2">
+          <span>边缘留白</span>
+          <span className="flex items-center gap-1">
+            <input
+              type="number"
+              min={0}
+              step={0.05}
+              value={options.padding}
+              onChange={(e) => onChange({ ...options, padding: Math.max(0, Number(e.target.value) || 0) })}
+              className={inputClass}
+            />
+            <span className="w-8">s</span>
+          </span>
+        </label>
+        {approximate && (
+          <p className="text-[10px] text-amber-600 dark:text-amber-400">
+            长录音模式按波形峰值包络检测，阈值比实际 RMS 电平偏高，结果仅供参考
+          </p>
+        )}
+      </div>
+
+      {proposalCount === null ? (
+        <button onClick={onDetect} disabled={disabled || isDetecting} className={`${buttonClass} w-full`} title="分析音频，按静音位置建议分割片段">
+          <AudioLines size={14} />
+          <span>{isDetecting ? `分析中 ${Math.round(progress * 100)}%` : '检测静音'}</span>
+        </button>
+      ) : (
+        <div className="space-y-2">
+          <p className="text-[10px] text-gray-500 dark:text-gray-400">
+            {proposalCount > 0 ? `已在波形上预览 ${proposalCount} 个建议片段` : '未找到有声片段，请调整阈值'}
+          </p>
+          <div className="grid grid-cols-2 gap-2">
+            <button onClick={onAccept} disabled={proposalCount === 0} className={buttonClass} title="将建议片段添加到剪辑列表">
+              <Check size={14} />
+              <span>接受</span>
+            </button>
+            <button onClick={onCancel} className={buttonClass}>
+              <X size={14} />
+              <span>取消</span>
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SilenceDetectPanel;
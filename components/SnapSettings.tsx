@@ -0,0 +1,39 @@
+import React from 'react';
+import { Magnet } from 'lucide-react';
+import { SnapMode, SnapSettings as SnapSettingsValue, SNAP_MODE_LABELS } from '../utils/snapUtils';
+
+interface SnapSettingsProps {
+  value: SnapSettingsValue;
+  onChange: (value: SnapSettingsValue) => void;
+}
+
+const SnapSettings: React.FC<SnapSettingsProps> = ({ value, onChange }) => {
+  return (
+    <div className="w-full max-w-[240px] flex items-center gap-2 text-xs text-gray-600 dark:text-gray-400">
+      <Magnet size={14} className={value.mode === 'off' ? 'shrink-0' : 'shrink-0 text-amber-500'} />
+      <select
+        value={value.mode}
+        onChange={(e) => onChange({ ...value, mode: e.target.value as SnapMode })}
+        className="flex-1 px-2 py-1 rounded-md bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 text-gray-700 dark:text-gray-200 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+        title="创建或调整片段时边界吸附到"
+      >
+        {(Object.keys(SNAP_MODE_LABELS) as SnapMode[]).map(mode => (
+          <option key={mode} value={mode}>吸附: {SNAP_MODE_LABELS[mode]}</option>
+        ))}
+      </select>
+      <input
+        type="number"
+        min={1}
+        max={500}
+        value={value.windowMs}
+        disabled={value.mode === 'off'}
+        onChange={(e) => onChange({ ...value, windowMs: Math.max(0, Number(e.target.value)) })}
+        className="w-14 px-2 py-1 rounded-md bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 text-gray-700 dark:text-gray-200 focus:outline-none focus:ring-2 focus:ring-indigo-500 disabled:opacity-50"
+        title="搜索范围 (毫秒)"
+      />
+      <span>ms</span>
+    </div>
+  );
+};
+
+export default SnapSettings;
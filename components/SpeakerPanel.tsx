@@ -0,0 +1,88 @@
+import React, { useState } from 'react';
+import { Users, Pencil, Scissors, Funnel } from 'lucide-react';
+
+interface SpeakerPanelProps {
+  speakers: string[];
+  colors: Record<string, string>;
+  /** Line count per speaker */
+  counts: Record<string, number>;
+  /** Speaker whose lines are the only ones shown, or null for everyone */
+  filter: string | null;
+  onFilterChange: (speaker: string | null) => void;
+  onRename: (from: string, to: string) => void;
+  /** Creates regions covering everything the speaker says */
+  onCreateRegions: (speaker: string) => void;
+}
+
+const inputClass = "px-2 py-0.5 rounded-md bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 text-gray-700 dark:text-gray-200 focus:outline-none focus:ring-2 focus:ring-indigo-500";
+const iconButtonClass = "p-1 text-gray-500 hover:text-gray-900 dark:text-gray-400 dark:hover:text-white hover:bg-gray-100 dark:hover:bg-gray-700 rounded";
+
+const SpeakerRow: React.FC<{ speaker: string; panel: SpeakerPanelProps }> = ({ speaker, panel }) => {
+  const [draft, setDraft] = useState<string | null>(null);
+  const isFiltered = panel.filter === speaker;
+
+  const commit = () => {
+    if (draft !== null) panel.onRename(speaker, draft);
+    setDraft(null);
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      <span className="w-2.5 h-2.5 rounded-full shrink-0" style={{ backgroundColor: panel.colors[speaker] }}></span>
+      {draft !== null ? (
+        <input
+          autoFocus
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onBlur={commit}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') commit();
+            if (e.key === 'Escape') setDraft(null);
+          }}
+          className={`${inputClass} flex-1 min-w-0`}
+        />
+      ) : (
+        <button
+          onClick={() => panel.onFilterChange(isFiltered ? null : speaker)}
+          className={`flex-1 min-w-0 text-left truncate ${isFiltered ? 'font-semibold text-indigo-600 dark:text-indigo-300' : 'text-gray-700 dark:text-gray-300 hover:text-gray-900 dark:hover:text-white'}`}
+          title={isFiltered ? '显示全部说话人' : '只显示该说话人'}
+        >
+          {speaker} <span className="text-gray-400 dark:text-gray-500 font-normal">({panel.counts[speaker] || 0} 句)</span>
+        </button>
+      )}
+      {isFiltered && <Funnel size={12} className="shrink-0 text-indigo-500" />}
+      <button onClick={() => setDraft(speaker)} className={iconButtonClass} title="重命名 (改为已有名称可合并说话人)">
+        <Pencil size={12} />
+      </button>
+      <button onClick={() => panel.onCreateRegions(speaker)} className={iconButtonClass} title="为该说话人的全部发言创建片段">
+        <Scissors size={12} />
+      </button>
+    </div>
+  );
+};
+
+/**
+ * Speakers found by diarization, with renaming, a filter and region creation
+ */
+const SpeakerPanel: React.FC<SpeakerPanelProps> = (props) => {
+  if (props.speakers.length === 0) return null;
+
+  return (
+    <div className="px-4 py-2 border-b border-gray-200 dark:border-gray-800 text-xs text-gray-600 dark:text-gray-400 space-y-1.5 transition-colors duration-300">
+      <div className="flex items-center gap-2">
+        <Users size={14} className="shrink-0" />
+        <span className="flex-1">说话人</span>
+        {props.filter !== null && (
+          <button onClick={() => props.onFilterChange(null)} className="text-indigo-600 dark:text-indigo-300 hover:underline">
+            显示全部
+          </button>
+        )}
+      </div>
+      {props.speakers.map(speaker => (
+        <SpeakerRow key={speaker} speaker={speaker} panel={props} />
+      ))}
+    </div>
+  );
+};
+
+export default SpeakerPanel;
@@ -0,0 +1,199 @@
+import React, { useEffect, useRef } from 'react';
+import { X } from 'lucide-react';
+import {
+  COLOR_MAP_LABELS, FFT_SIZES, SPECTRUM_MIN_DB, SpectrogramColorMap, SpectrogramSettings, SpectrumWindow, WINDOW_LABELS
+} from '../utils/spectrumUtils';
+
+/** A static spectrum: dB per bin, as returned by averageSpectrum */
+export interface RegionSpectrum {
+  data: Float32Array;
+  sampleRate: number;
+  /** What was analysed, e.g. the region label */
+  label: string;
+}
+
+interface SpectrumPanelProps {
+  settings: SpectrogramSettings;
+  onChange: (settings: SpectrogramSettings) => void;
+  /** Why the spectrogram lane can't be shown, if it can't */
+  laneUnavailable: string | null;
+  /** Taps playback; shown instead of the region spectrum while playing */
+  analyser: AnalyserNode | null;
+  isPlaying: boolean;
+  regionSpectrum: RegionSpectrum | null;
+  isDarkMode: boolean;
+  onClose: () => void;
+}
+
+const fieldClass = "px-2 py-1 rounded-md bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 text-gray-700 dark:text-gray-200 focus:outline-none focus:ring-2 focus:ring-indigo-500";
+
+// Lowest frequency on the analyser's logarithmic axis
+const MIN_FREQUENCY = 20;
+const FREQUENCY_TICKS = [50, 100, 200, 500, 1000, 2000, 5000, 10000, 20000];
+
+const formatFrequency = (hz: number) => (hz >= 1000 ? `${hz / 1000}k` : String(hz));
+
+/** Draws dB per bin against a logarithmic frequency axis, with a -20 dB grid */
+function drawSpectrum(canvas: HTMLCanvasElement, data: Float32Array, sampleRate: number, dark: boolean) {
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return;
+  const dpr = window.devicePixelRatio || 1;
+  const width = canvas.clientWidth;
+  const height = canvas.clientHeight;
+  if (canvas.width !== width * dpr || canvas.height !== height * dpr) {
+    canvas.width = width * dpr;
+    canvas.height = height * dpr;
+  }
+  ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+  ctx.clearRect(0, 0, width, height);
+
+  const nyquist = sampleRate / 2;
+  const xOf = (hz: number) => (Math.log(hz / MIN_FREQUENCY) / Math.log(nyquist / MIN_FREQUENCY)) * width;
+  const yOf = (db: number) => (Math.min(0, Math.max(SPECTRUM_MIN_DB, db)) / SPECTRUM_MIN_DB) * height;
+
+  ctx.font = '9px sans-serif';
+  ctx.lineWidth = 1;
+  ctx.strokeStyle = dark ? 'rgba(255, 255, 255, 0.08)' : 'rgba(0, 0, 0, 0.08)';
+  ctx.fillStyle = dark ? '#6b7280' : '#9ca3af';
+  for (let db = -20; db > SPECTRUM_MIN_DB; db -= 20) {
+    const y = Math.round(yOf(db)) + 0.5;
+    ctx.beginPath();
+    ctx.moveTo(0, y);
+    ctx.lineTo(width, y);
+    ctx.stroke();
+    ctx.fillText(`${db}`, 2, y - 2);
+  }
+  FREQUENCY_TICKS.filter(hz => hz < nyquist).forEach(hz => {
+    const x = Math.round(xOf(hz)) + 0.5;
+    ctx.beginPath();
+    ctx.moveTo(x, 0);
+    ctx.lineTo(x, height);
+    ctx.stroke();
+    ctx.fillText(formatFrequency(hz), x + 2, height - 2);
+  });
+
+  // Each pixel column shows the loudest bin it covers, so narrow peaks survive at high frequencies
+  const binHz = nyquist / data.length;
+  ctx.beginPath();
+  ctx.moveTo(0, height);
+  for (let x = 0; x < width; x++) {
+    const from = Math.floor((MIN_FREQUENCY * Math.pow(nyquist / MIN_FREQUENCY, x / width)) / binHz);
+    const to = Math.max(from + 1, Math.floor((MIN_FREQUENCY * Math.pow(nyquist / MIN_FREQUENCY, (x + 1) / width)) / binHz));
+    let peak = -Infinity;
+    for (let k = from; k < Math.min(to, data.length); k++) peak = Math.max(peak, data[k]);
+    ctx.lineTo(x, yOf(peak));
+  }
+  ctx.lineTo(width, height);
+  ctx.closePath();
+  ctx.fillStyle = dark ? 'rgba(129, 140, 248, 0.35)' : 'rgba(79, 70, 229, 0.25)';
+  ctx.fill();
+  ctx.strokeStyle = dark ? '#a5b4fc' : '#4f46e5';
+  ctx.stroke();
+}
+
+const SpectrumPanel: React.FC<SpectrumPanelProps> = ({
+  settings, onChange, laneUnavailable, analyser, isPlaying, regionSpectrum, isDarkMode, onClose
+}) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const isLive = isPlaying && !!analyser;
+
+  useEffect(() => {
+    if (analyser) analyser.fftSize = settings.fftSize;
+  }, [analyser, settings.fftSize]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    if (!isLive) {
+      if (regionSpectrum) {
+        drawSpectrum(canvas, regionSpectrum.data, regionSpectrum.sampleRate, isDarkMode);
+      } else {
+        canvas.getContext('2d')?.clearRect(0, 0, canvas.width, canvas.height);
+      }
+      return;
+    }
+
+    const data = new Float32Array(analyser!.frequencyBinCount);
+    let frame = 0;
+    const tick = () => {
+      analyser!.getFloatFrequencyData(data);
+      drawSpectrum(canvas, data, analyser!.context.sampleRate, isDarkMode);
+      frame = requestAnimationFrame(tick);
+    };
+    tick();
+    return () => cancelAnimationFrame(frame);
+  }, [isLive, analyser, regionSpectrum, isDarkMode, settings.fftSize]);
+
+  const caption = isLive
+    ? '实时播放'
+    : regionSpectrum ? `平均频谱 · ${regionSpectrum.label}` : '选择一个片段，或开始播放查看实时频谱';
+
+  return (
+    <div className="absolute right-4 top-16 z-30 w-80 bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded-lg shadow-2xl flex flex-col transition-colors duration-300">
+      <div className="flex items-center justify-between px-3 py-2 border-b border-gray-200 dark:border-gray-800">
+        <span className="text-xs font-semibold text-gray-700 dark:text-gray-300">频谱图 / 频谱分析</span>
+        <button
+          onClick={onClose}
+          className="p-1.5 text-gray-500 hover:text-gray-900 dark:text-gray-400 dark:hover:text-white rounded"
+          title="关闭"
+        >
+          <X size={14} />
+        </button>
+      </div>
+      <div className="p-3 space-y-2 text-xs text-gray-600 dark:text-gray-400">
+        <label className={`flex items-center gap-1.5 select-none ${laneUnavailable ? 'opacity-50' : 'cursor-pointer'}`}>
+          <input
+            type="checkbox"
+            checked={settings.visible && !laneUnavailable}
+            disabled={!!laneUnavailable}
+            onChange={(e) => onChange({ ...settings, visible: e.target.checked })}
+            className="w-3.5 h-3.5 text-indigo-600 rounded focus:ring-indigo-500"
+          />
+          <span>在波形下方显示频谱图</span>
+        </label>
+        {laneUnavailable && <p className="text-[11px] text-amber-600 dark:text-amber-400">{laneUnavailable}</p>}
+        <label className="flex items-center justify-between gap-2">
+          <span>FFT 大小</span>
+          <select
+            value={settings.fftSize}
+            onChange={(e) => onChange({ ...settings, fftSize: Number(e.target.value) })}
+            className={`${fieldClass} w-36`}
+          >
+            {FFT_SIZES.map(size => <option key={size} value={size}>{size}</option>)}
+          </select>
+        </label>
+        <label className="flex items-center justify-between gap-2">
+          <span>窗函数</span>
+          <select
+            value={settings.window}
+            onChange={(e) => onChange({ ...settings, window: e.target.value as SpectrumWindow })}
+            className={`${fieldClass} w-36`}
+          >
+            {(Object.keys(WINDOW_LABELS) as SpectrumWindow[]).map(w => (
+              <option key={w} value={w}>{WINDOW_LABELS[w]}</option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center justify-between gap-2">
+          <span>配色</span>
+          <select
+            value={settings.colorMap}
+            onChange={(e) => onChange({ ...settings, colorMap: e.target.value as SpectrogramColorMap })}
+            className={`${fieldClass} w-36`}
+          >
+            {(Object.keys(COLOR_MAP_LABELS) as SpectrogramColorMap[]).map(c => (
+              <option key={c} value={c}>{COLOR_MAP_LABELS[c]}</option>
+            ))}
+          </select>
+        </label>
+        <div className="pt-2 border-t border-gray-200 dark:border-gray-800 space-y-1">
+          <div className="truncate" title={caption}>{caption}</div>
+          <canvas ref={canvasRef} className="w-full h-36 rounded bg-gray-50 dark:bg-gray-800/60" />
+          <p className="text-[11px] text-gray-400 dark:text-gray-500">纵轴 dBFS，横轴为对数频率 (Hz)</p>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SpectrumPanel;
@@ -0,0 +1,104 @@
+import React, { useState } from 'react';
+import { Download, X } from 'lucide-react';
+import { RegionData, TranscriptSegment } from '../types';
+import { prepareSegments, SubtitleFormat, SUBTITLE_FORMAT_LABELS } from '../utils/subtitleUtils';
+
+interface SubtitleExportPanelProps {
+  regions: RegionData[];
+  /** Region preselected as the export scope */
+  activeRegionId: string | null;
+  segments: TranscriptSegment[];
+  /** `regionId` null exports the whole transcript */
+  onExport: (format: SubtitleFormat, offset: number, regionId: string | null, speakers: boolean) => void;
+  onClose: () => void;
+}
+
+const fieldClass = "px-2 py-1 rounded-md bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 text-gray-700 dark:text-gray-200 focus:outline-none focus:ring-2 focus:ring-indigo-500";
+
+const SubtitleExportPanel: React.FC<SubtitleExportPanelProps> = ({ regions, activeRegionId, segments, onExport, onClose }) => {
+  const [format, setFormat] = useState<SubtitleFormat>('srt');
+  const [offset, setOffset] = useState(0);
+  const [speakers, setSpeakers] = useState(true);
+  const hasSpeakers = segments.some(s => s.speaker);
+  // LRC lines have no place for a speaker
+  const canLabelSpeakers = hasSpeakers && format !== 'lrc';
+  const [regionId, setRegionId] = useState<string | null>(
+    regions.some(r => r.id === activeRegionId) ? activeRegionId : null
+  );
+  const range = regions.find(r => r.id === regionId);
+  const segmentCount = prepareSegments(segments, { offset, range }).length;
+
+  return (
+    <div className="absolute right-4 top-16 z-30 w-72 bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded-lg shadow-2xl flex flex-col transition-colors duration-300">
+      <div className="flex items-center justify-between px-3 py-2 border-b border-gray-200 dark:border-gray-800">
+        <span className="text-xs font-semibold text-gray-700 dark:text-gray-300">导出字幕</span>
+        <button
+          onClick={onClose}
+          className="p-1.5 text-gray-500 hover:text-gray-900 dark:text-gray-400 dark:hover:text-white rounded"
+          title="关闭"
+        >
+          <X size={14} />
+        </button>
+      </div>
+      <div className="p-3 space-y-2 text-xs text-gray-600 dark:text-gray-400">
+        <label className="flex items-center justify-between gap-2">
+          <span>格式</span>
+          <select value={format} onChange={(e) => setFormat(e.target.value as SubtitleFormat)} className={`${fieldClass} w-40`}>
+            {(Object.keys(SUBTITLE_FORMAT_LABELS) as SubtitleFormat[]).map(f => (
+              <option key={f} value={f}>{SUBTITLE_FORMAT_LABELS[f]} (.{f})</option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center justify-between gap-2">
+          <span>范围</span>
+          <select
+            value={regionId || ''}
+            onChange={(e) => setRegionId(e.target.value || null)}
+            className={`${fieldClass} w-40`}
+            title="选择片段时仅导出其中的字幕，时间从片段起点开始计算"
+          >
+            <option value="">完整音频</option>
+            {regions.map((r, i) => (
+              <option key={r.id} value={r.id}>{r.label || `片段 ${i + 1}`}</option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center justify-between gap-2">
+          <span>时间偏移</span>
+          <span className="flex items-center gap-1">
+            <input
+              type="number"
+              step={0.1}
+              value={offset}
+              onChange={(e) => setOffset(Number(e.target.value) || 0)}
+              className={`${fieldClass} w-20`}
+            />
+            <span>s</span>
+          </span>
+        </label>
+        {hasSpeakers && (
+          <label className={`flex items-center gap-1.5 select-none ${canLabelSpeakers ? 'cursor-pointer' : 'opacity-50'}`}>
+            <input
+              type="checkbox"
+              checked={canLabelSpeakers && speakers}
+              disabled={!canLabelSpeakers}
+              onChange={(e) => setSpeakers(e.target.checked)}
+              className="w-3.5 h-3.5 text-indigo-600 rounded focus:ring-indigo-500"
+            />
+            <span>标注说话人</span>
+          </label>
+        )}
+        <button
+          onClick={() => onExport(format, offset, regionId, canLabelSpeakers && speakers)}
+          disabled={segmentCount === 0}
+          className="w-full flex items-center justify-center gap-1.5 px-3 py-2 font-medium text-white bg-indigo-600 hover:bg-indigo-500 rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <Download size={14} />
+          <span>导出 {segmentCount} 条字幕</span>
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default SubtitleExportPanel;
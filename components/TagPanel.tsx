@@ -0,0 +1,117 @@
+import React, { useRef } from 'react';
+import { ImagePlus, Trash2, X } from 'lucide-react';
+import { AudioTags } from '../types';
+import { bytesToBase64, ClipTagSettings, TagField, TAG_FIELD_LABELS, TEMPLATE_PLACEHOLDERS } from '../utils/tagUtils';
+
+interface TagPanelProps {
+  /** Tags of the source file as edited; full-length exports use them as they are */
+  tags: AudioTags;
+  onChange: (tags: AudioTags) => void;
+  clipSettings: ClipTagSettings;
+  onClipSettingsChange: (settings: ClipTagSettings) => void;
+  onClose: () => void;
+}
+
+const fieldClass = "px-2 py-1 rounded-md bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 text-gray-700 dark:text-gray-200 focus:outline-none focus:ring-2 focus:ring-indigo-500";
+
+const TagPanel: React.FC<TagPanelProps> = ({ tags, onChange, clipSettings, onClipSettingsChange, onClose }) => {
+  const coverInputRef = useRef<HTMLInputElement>(null);
+
+  const setField = (field: TagField, value: string) => onChange({ ...tags, [field]: value || undefined });
+
+  const handleCoverChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const image = e.target.files?.[0];
+    e.target.value = '';
+    if (!image) return;
+    const data = bytesToBase64(new Uint8Array(await image.arrayBuffer()));
+    onChange({ ...tags, cover: { mimeType: image.type || 'image/jpeg', data } });
+  };
+
+  return (
+    <div className="absolute right-4 top-16 z-30 w-80 max-h-[70vh] bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded-lg shadow-2xl flex flex-col transition-colors duration-300">
+      <div className="flex items-center justify-between px-3 py-2 border-b border-gray-200 dark:border-gray-800">
+        <span className="text-xs font-semibold text-gray-700 dark:text-gray-300">元数据标签</span>
+        <button
+          onClick={onClose}
+          className="p-1.5 text-gray-500 hover:text-gray-900 dark:text-gray-400 dark:hover:text-white rounded"
+          title="关闭"
+        >
+          <X size={14} />
+        </button>
+      </div>
+      <div className="p-3 space-y-2 overflow-y-auto text-xs text-gray-600 dark:text-gray-400">
+        <div className="flex items-center gap-3">
+          {tags.cover ? (
+            <img
+              src={`data:${tags.cover.mimeType};base64,${tags.cover.data}`}
+              alt="封面"
+              className="w-16 h-16 rounded-md object-cover border border-gray-200 dark:border-gray-700"
+            />
+          ) : (
+            <div className="w-16 h-16 rounded-md border border-dashed border-gray-300 dark:border-gray-700 flex items-center justify-center text-gray-400">
+              无封面
+            </div>
+          )}
+          <div className="flex flex-col gap-1.5">
+            <button
+              onClick={() => coverInputRef.current?.click()}
+              className="flex items-center gap-1.5 px-2 py-1 rounded-md border border-gray-200 dark:border-gray-700 hover:bg-gray-50 dark:hover:bg-gray-800 transition-colors"
+            >
+              <ImagePlus size={12} />
+              <span>{tags.cover ? '更换封面' : '添加封面'}</span>
+            </button>
+            {tags.cover && (
+              <button
+                onClick={() => onChange({ ...tags, cover: undefined })}
+                className="flex items-center gap-1.5 px-2 py-1 rounded-md text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/30 transition-colors"
+              >
+                <Trash2 size={12} />
+                <span>移除封面</span>
+              </button>
+            )}
+          </div>
+          <input ref={coverInputRef} type="file" accept="image/jpeg,image/png" className="hidden" onChange={handleCoverChange} />
+        </div>
+
+        {(Object.keys(TAG_FIELD_LABELS) as TagField[]).map(field => (
+          <label key={field} className="flex items-center justify-between gap-2">
+            <span className="shrink-0">{TAG_FIELD_LABELS[field]}</span>
+            <input
+              type="text"
+              value={tags[field] || ''}
+              onChange={(e) => setField(field, e.target.value)}
+              className={`${fieldClass} w-52`}
+            />
+          </label>
+        ))}
+
+        <div className="pt-2 mt-2 border-t border-gray-200 dark:border-gray-800 space-y-2">
+          <span className="block font-semibold text-gray-700 dark:text-gray-300">导出片段时</span>
+          <label className="flex items-center justify-between gap-2">
+            <span className="shrink-0">标题模板</span>
+            <input
+              type="text"
+              value={clipSettings.titleTemplate}
+              onChange={(e) => onClipSettingsChange({ ...clipSettings, titleTemplate: e.target.value })}
+              className={`${fieldClass} w-52 font-mono`}
+            />
+          </label>
+          <p className="text-[11px] leading-relaxed text-gray-400 dark:text-gray-500">
+            {Object.entries(TEMPLATE_PLACEHOLDERS).map(([key, label]) => `{${key}} ${label}`).join('，')}
+          </p>
+          <label className="flex items-center gap-1.5 cursor-pointer select-none">
+            <input
+              type="checkbox"
+              checked={clipSettings.autoTrack}
+              onChange={(e) => onClipSettingsChange({ ...clipSettings, autoTrack: e.target.checked })}
+              className="w-3.5 h-3.5 text-indigo-600 rounded focus:ring-indigo-500"
+            />
+            <span>按片段顺序自动编号音轨 (1/N, 2/N...)</span>
+          </label>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TagPanel;
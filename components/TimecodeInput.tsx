@@ -0,0 +1,88 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+import { formatTimecode, parseTimecode, snapToGrid, TimecodeOptions } from '../utils/audioUtils';
+
+interface TimecodeInputProps {
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  options: TimecodeOptions;
+  /** Nudge step in seconds; nudged values are snapped to this grid */
+  step: number;
+  onCommit: (seconds: number) => void;
+}
+
+const TimecodeInput: React.FC<TimecodeInputProps> = ({ label, value, min, max, options, step, onCommit }) => {
+  const formatted = formatTimecode(value, options);
+  const [draft, setDraft] = useState(formatted);
+  const [isEditing, setIsEditing] = useState(false);
+  // Escape blurs the field too; this keeps the blur from committing the draft
+  const cancelRef = useRef(false);
+
+  useEffect(() => {
+    if (!isEditing) setDraft(formatted);
+  }, [formatted, isEditing]);
+
+  const commit = (seconds: number) => {
+    const next = Math.max(min, Math.min(max, seconds));
+    if (Math.abs(next - value) > 1e-9) onCommit(next);
+  };
+
+  const commitDraft = () => {
+    setIsEditing(false);
+    if (cancelRef.current) {
+      cancelRef.current = false;
+      setDraft(formatted);
+      return;
+    }
+    const seconds = parseTimecode(draft, options);
+    if (seconds === null) {
+      setDraft(formatted);
+      return;
+    }
+    // Typed values stay where they were typed, down to the sample
+    commit(Math.round(seconds * options.sampleRate) / options.sampleRate);
+  };
+
+  const nudge = (direction: number, large: boolean) =>
+    commit(snapToGrid(value + direction * step * (large ? 10 : 1), step));
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') {
+      e.currentTarget.blur();
+    } else if (e.key === 'Escape') {
+      cancelRef.current = true;
+      e.currentTarget.blur();
+    } else if (e.key === 'ArrowUp' || e.key === 'ArrowDown') {
+      e.preventDefault();
+      setIsEditing(false);
+      nudge(e.key === 'ArrowUp' ? 1 : -1, e.shiftKey);
+    }
+  };
+
+  const nudgeButtonClass = "p-0.5 text-gray-400 hover:text-gray-900 dark:hover:text-white rounded disabled:opacity-30";
+
+  return (
+    <div className="flex items-center gap-0.5" onClick={(e) => e.stopPropagation()}>
+      <span className="text-[10px] text-gray-400 dark:text-gray-500 mr-0.5">{label}</span>
+      <button onClick={(e) => nudge(-1, e.shiftKey)} disabled={value <= min} className={nudgeButtonClass} title="后退 (Shift ×10)">
+        <ChevronLeft size={12} />
+      </button>
+      <input
+        value={draft}
+        onFocus={() => setIsEditing(true)}
+        onChange={(e) => setDraft(e.target.value)}
+        onBlur={commitDraft}
+        onKeyDown={handleKeyDown}
+        className="w-24 px-1 py-0.5 text-xs font-mono text-center text-gray-700 dark:text-gray-300 bg-gray-50 dark:bg-gray-900 border border-gray-200 dark:border-gray-700 focus:border-indigo-400 rounded focus:outline-none"
+        title="输入时间 (秒、MM:SS.mmm、HH:MM:SS:FF 或采样点)，↑/↓ 微调"
+      />
+      <button onClick={(e) => nudge(1, e.shiftKey)} disabled={value >= max} className={nudgeButtonClass} title="前进 (Shift ×10)">
+        <ChevronRight size={12} />
+      </button>
+    </div>
+  );
+};
+
+export default TimecodeInput;
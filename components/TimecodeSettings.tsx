@@ -0,0 +1,64 @@
+import React from 'react';
+import { Timer } from 'lucide-react';
+import {
+  TimecodeFormat, NudgeUnit, TIMECODE_FORMAT_LABELS, NUDGE_UNIT_LABELS, FRAME_RATES
+} from '../utils/audioUtils';
+
+export interface TimecodeSettingsValue {
+  format: TimecodeFormat;
+  frameRate: number;
+  nudgeUnit: NudgeUnit;
+}
+
+interface TimecodeSettingsProps {
+  value: TimecodeSettingsValue;
+  onChange: (value: TimecodeSettingsValue) => void;
+}
+
+const selectClass = "px-2 py-1 rounded-md bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 text-gray-700 dark:text-gray-200 focus:outline-none focus:ring-2 focus:ring-indigo-500";
+
+const TimecodeSettings: React.FC<TimecodeSettingsProps> = ({ value, onChange }) => {
+  return (
+    <div className="flex items-center gap-3 px-4 py-2 border-b border-gray-200 dark:border-gray-800 text-xs text-gray-600 dark:text-gray-400 transition-colors duration-300">
+      <Timer size={14} className="shrink-0" />
+      <label className="flex items-center gap-2">
+        <span>时间码</span>
+        <select
+          value={value.format}
+          onChange={(e) => onChange({ ...value, format: e.target.value as TimecodeFormat })}
+          className={selectClass}
+        >
+          {(Object.keys(TIMECODE_FORMAT_LABELS) as TimecodeFormat[]).map(f => (
+            <option key={f} value={f}>{TIMECODE_FORMAT_LABELS[f]}</option>
+          ))}
+        </select>
+      </label>
+      <label className="flex items-center gap-2">
+        <span>帧率</span>
+        <select
+          value={value.frameRate}
+          onChange={(e) => onChange({ ...value, frameRate: Number(e.target.value) })}
+          className={selectClass}
+        >
+          {FRAME_RATES.map(rate => (
+            <option key={rate} value={rate}>{rate} fps</option>
+          ))}
+        </select>
+      </label>
+      <label className="flex items-center gap-2">
+        <span>微调步长</span>
+        <select
+          value={value.nudgeUnit}
+          onChange={(e) => onChange({ ...value, nudgeUnit: e.target.value as NudgeUnit })}
+          className={selectClass}
+        >
+          {(Object.keys(NUDGE_UNIT_LABELS) as NudgeUnit[]).map(u => (
+            <option key={u} value={u}>{NUDGE_UNIT_LABELS[u]}</option>
+          ))}
+        </select>
+      </label>
+    </div>
+  );
+};
+
+export default TimecodeSettings;
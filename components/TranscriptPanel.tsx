@@ -0,0 +1,189 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Split, Merge, FileText } from 'lucide-react';
+import { TranscriptSegment } from '../types';
+import { formatTimecode, TimecodeOptions } from '../utils/audioUtils';
+import { findSegmentAt, MIN_SEGMENT_LENGTH } from '../utils/transcriptUtils';
+import TimecodeInput from './TimecodeInput';
+
+interface TranscriptPanelProps {
+  segments: TranscriptSegment[];
+  currentTime: number;
+  /** Selected lines, inclusive; a single line also gets editable boundaries */
+  selection: { from: number; to: number } | null;
+  timecode: TimecodeOptions;
+  nudgeStep: number;
+  maxTime: number;
+  /** Color per speaker label */
+  speakerColors: Record<string, string>;
+  /** Only this speaker's lines are listed when set */
+  speakerFilter: string | null;
+  /** `extend` grows the selection to the line instead of starting a new one */
+  onSelect: (index: number, extend: boolean) => void;
+  onTextChange: (index: number, text: string) => void;
+  onBoundsChange: (index: number, start: number, end: number) => void;
+  /** `text` is the line as currently typed, `caret` the character offset to split at */
+  onSplit: (index: number, text: string, caret: number) => void;
+  onMerge: (index: number) => void;
+}
+
+interface TranscriptLineProps {
+  segment: TranscriptSegment;
+  index: number;
+  isPlaying: boolean;
+  isSelected: boolean;
+  /** Sole selected line, whose start and end can be edited */
+  isEditingBounds: boolean;
+  isLast: boolean;
+  lineRef?: React.Ref<HTMLDivElement>;
+  panel: TranscriptPanelProps;
+}
+
+const TranscriptLine: React.FC<TranscriptLineProps> = ({ segment, index, isPlaying, isSelected, isEditingBounds, isLast, lineRef, panel }) => {
+  const [draft, setDraft] = useState(segment.text);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  // Remembered across blur so the split button still knows where the caret was
+  const caretRef = useRef(segment.text.length);
+
+  // Follow external changes (undo, re-transcription) when not being edited
+  useEffect(() => setDraft(segment.text), [segment.text]);
+
+  const commitText = () => {
+    const text = draft.trim();
+    if (!text) {
+      setDraft(segment.text);
+    } else if (text !== segment.text) {
+      panel.onTextChange(index, text);
+    }
+  };
+
+  const rememberCaret = () => {
+    caretRef.current = textareaRef.current?.selectionStart ?? draft.length;
+  };
+
+  return (
+    <div
+      ref={lineRef}
+      onClick={(e) => panel.onSelect(index, e.shiftKey)}
+      className={`group p-2 rounded-lg border transition-colors cursor-pointer ${
+        isSelected
+          ? 'bg-indigo-50 dark:bg-indigo-900/20 border-indigo-200 dark:border-indigo-500/50'
+          : isPlaying
+            ? 'bg-amber-50 dark:bg-amber-900/10 border-amber-200 dark:border-amber-500/30'
+            : 'bg-white dark:bg-gray-800 border-gray-200 dark:border-gray-700 hover:border-gray-300 dark:hover:border-gray-600'
+      }`}
+    >
+      <div className="flex items-center justify-between gap-2">
+        {isEditingBounds ? (
+          <div className="flex flex-wrap items-center gap-x-3 gap-y-1" onClick={(e) => e.stopPropagation()}>
+            <TimecodeInput
+              label="起"
+              value={segment.start}
+              min={0}
+              max={segment.end - MIN_SEGMENT_LENGTH}
+              options={panel.timecode}
+              step={panel.nudgeStep}
+              onCommit={(start) => panel.onBoundsChange(index, start, segment.end)}
+            />
+            <TimecodeInput
+              label="止"
+              value={segment.end}
+              min={segment.start + MIN_SEGMENT_LENGTH}
+              max={panel.maxTime}
+              options={panel.timecode}
+              step={panel.nudgeStep}
+              onCommit={(end) => panel.onBoundsChange(index, segment.start, end)}
+            />
+          </div>
+        ) : (
+          <div className="flex items-center gap-2 min-w-0">
+            {segment.speaker && (
+              <span className="flex items-center gap-1 text-[10px] font-medium text-gray-600 dark:text-gray-300 truncate">
+                <span className="w-2 h-2 rounded-full shrink-0" style={{ backgroundColor: panel.speakerColors[segment.speaker] }}></span>
+                {segment.speaker}
+              </span>
+            )}
+            <span className={`text-[10px] font-mono shrink-0 ${isPlaying ? 'text-amber-600 dark:text-amber-400' : 'text-gray-400 dark:text-gray-500'}`}>
+              {formatTimecode(segment.start, panel.timecode)} – {formatTimecode(segment.end, panel.timecode)}
+            </span>
+          </div>
+        )}
+        <div className="flex items-center shrink-0 opacity-100 sm:opacity-0 sm:group-hover:opacity-100 transition-opacity">
+          <button
+            onClick={(e) => { e.stopPropagation(); panel.onSplit(index, draft, caretRef.current); }}
+            className="p-1 text-gray-500 hover:text-gray-900 dark:text-gray-400 dark:hover:text-white hover:bg-gray-100 dark:hover:bg-gray-700 rounded"
+            title="在光标处拆分 (播放位置在本句内时以其为分割时间)"
+          >
+            <Split size={14} />
+          </button>
+          {!isLast && (
+            <button
+              onClick={(e) => { e.stopPropagation(); panel.onMerge(index); }}
+              className="p-1 text-gray-500 hover:text-gray-900 dark:text-gray-400 dark:hover:text-white hover:bg-gray-100 dark:hover:bg-gray-700 rounded"
+              title="与下一句合并"
+            >
+              <Merge size={14} />
+            </button>
+          )}
+        </div>
+      </div>
+      <textarea
+        ref={textareaRef}
+        value={draft}
+        rows={Math.max(1, Math.ceil(draft.length / 40))}
+        onChange={(e) => setDraft(e.target.value)}
+        onBlur={() => { rememberCaret(); commitText(); }}
+        onSelect={rememberCaret}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter' && !e.shiftKey) {
+            e.preventDefault();
+            e.currentTarget.blur();
+          }
+        }}
+        onClick={(e) => e.stopPropagation()}
+        className="w-full mt-1 text-sm text-gray-800 dark:text-gray-200 bg-transparent border border-transparent hover:border-gray-200 dark:hover:border-gray-700 focus:border-indigo-400 rounded px-1 -mx-1 resize-none focus:outline-none"
+      />
+    </div>
+  );
+};
+
+const TranscriptPanel: React.FC<TranscriptPanelProps> = (props) => {
+  const { segments, currentTime, selection, speakerFilter } = props;
+  const containerRef = useRef<HTMLDivElement>(null);
+  const playingRef = useRef<HTMLDivElement>(null);
+  const playingIndex = findSegmentAt(segments, currentTime);
+
+  // Follow playback, but never yank the list away from a line being edited
+  useEffect(() => {
+    if (containerRef.current?.contains(document.activeElement)) return;
+    playingRef.current?.scrollIntoView({ block: 'nearest' });
+  }, [playingIndex]);
+
+  if (segments.length === 0) {
+    return (
+      <div className="h-full flex flex-col items-center justify-center text-gray-400 dark:text-gray-600">
+        <FileText size={48} className="mb-4 opacity-20" />
+        <p className="text-gray-500 dark:text-gray-500">暂无字幕</p>
+      </div>
+    );
+  }
+
+  return (
+    <div ref={containerRef} className="space-y-2">
+      {segments.map((segment, index) => (speakerFilter !== null && segment.speaker !== speakerFilter) ? null : (
+        <TranscriptLine
+          key={`${index}-${segment.start}`}
+          segment={segment}
+          index={index}
+          isPlaying={index === playingIndex}
+          isSelected={!!selection && index >= selection.from && index <= selection.to}
+          isEditingBounds={!!selection && selection.from === index && selection.to === index}
+          isLast={index === segments.length - 1}
+          lineRef={index === playingIndex ? playingRef : undefined}
+          panel={props}
+        />
+      ))}
+    </div>
+  );
+};
+
+export default TranscriptPanel;
@@ -0,0 +1,123 @@
+import React, { useState } from 'react';
+import { Search, Plus, Scissors } from 'lucide-react';
+import { TranscriptSegment } from '../types';
+import { formatTimecode, TimecodeOptions } from '../utils/audioUtils';
+import { joinSegmentTexts, searchSegments, TranscriptMatch } from '../utils/transcriptUtils';
+
+interface TranscriptSearchProps {
+  segments: TranscriptSegment[];
+  timecode: TimecodeOptions;
+  /** Extra time kept around created regions, in seconds */
+  padding: number;
+  onPaddingChange: (seconds: number) => void;
+  /** Number of lines selected in the transcript list */
+  selectionCount: number;
+  onCreateFromSelection: () => void;
+  onJump: (index: number) => void;
+  /** Creates one region per match, spanning the segments it covers */
+  onCreateFromMatches: (matches: TranscriptMatch[]) => void;
+}
+
+const inputClass = "px-2 py-1 rounded-md bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 text-gray-700 dark:text-gray-200 focus:outline-none focus:ring-2 focus:ring-indigo-500";
+const actionClass = "flex items-center gap-1 px-2 py-1 font-medium text-indigo-600 dark:text-indigo-300 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 hover:bg-indigo-50 dark:hover:bg-indigo-900/30 rounded-md transition-colors";
+
+/** Wraps every occurrence of the query in a <mark>; whitespace runs compare as one space */
+const highlight = (text: string, query: string): React.ReactNode[] => {
+  const needle = query.trim().replace(/\s+/g, ' ').toLowerCase();
+  const parts: React.ReactNode[] = [];
+  const lower = text.toLowerCase();
+  let from = 0;
+  for (let at = lower.indexOf(needle); needle && at >= 0; at = lower.indexOf(needle, at + needle.length)) {
+    parts.push(text.slice(from, at));
+    parts.push(
+      <mark key={at} className="bg-amber-200 dark:bg-amber-500/40 text-inherit rounded-sm">
+        {text.slice(at, at + needle.length)}
+      </mark>
+    );
+    from = at + needle.length;
+  }
+  parts.push(text.slice(from));
+  return parts;
+};
+
+const TranscriptSearch: React.FC<TranscriptSearchProps> = ({
+  segments, timecode, padding, onPaddingChange, selectionCount, onCreateFromSelection, onJump, onCreateFromMatches
+}) => {
+  const [query, setQuery] = useState('');
+  const hits = searchSegments(segments, query);
+  /** The matched segments as one line, whitespace collapsed the way search compares it */
+  const hitText = ({ from, to }: TranscriptMatch) =>
+    joinSegmentTexts(segments.slice(from, to + 1).map(s => s.text.trim().replace(/\s+/g, ' ')));
+
+  return (
+    <div className="px-4 py-2 border-b border-gray-200 dark:border-gray-800 text-xs text-gray-600 dark:text-gray-400 space-y-2 transition-colors duration-300">
+      <div className="flex items-center gap-2">
+        <Search size={14} className="shrink-0" />
+        <input
+          type="search"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="搜索字幕中的词句..."
+          className={`${inputClass} flex-1 min-w-0`}
+        />
+        <label className="flex items-center gap-1.5 shrink-0" title="创建片段时在前后额外保留的时长">
+          <span>留白</span>
+          <input
+            type="number"
+            min={0}
+            step={0.05}
+            value={padding}
+            onChange={(e) => onPaddingChange(Math.max(0, Number(e.target.value) || 0))}
+            className={`${inputClass} w-16`}
+          />
+          <span>s</span>
+        </label>
+      </div>
+
+      {selectionCount > 0 && (
+        <div className="flex items-center justify-between gap-2">
+          <span>已选 {selectionCount} 句 <span className="text-gray-400 dark:text-gray-500">(Shift+点击扩展选择)</span></span>
+          <button onClick={onCreateFromSelection} className={actionClass}>
+            <Scissors size={12} />
+            <span>创建片段</span>
+          </button>
+        </div>
+      )}
+
+      {query.trim() && (
+        <div className="space-y-1">
+          <div className="flex items-center justify-between gap-2">
+            <span>找到 {hits.length} 处</span>
+            {hits.length > 0 && (
+              <button onClick={() => onCreateFromMatches(hits)} className={actionClass} title="为每处匹配创建一个片段">
+                <Scissors size={12} />
+                <span>全部创建片段</span>
+              </button>
+            )}
+          </div>
+          <div className="max-h-40 overflow-y-auto space-y-0.5">
+            {hits.map(hit => (
+              <div key={`${hit.from}-${hit.to}`} className="flex items-center gap-2 rounded hover:bg-gray-50 dark:hover:bg-gray-800">
+                <button onClick={() => onJump(hit.from)} className="flex-1 min-w-0 flex items-center gap-2 px-1 py-1 text-left" title="跳转到此处">
+                  <span className="font-mono text-[10px] text-gray-400 dark:text-gray-500 shrink-0">
+                    {formatTimecode(segments[hit.from].start, timecode)}
+                  </span>
+                  <span className="truncate text-gray-700 dark:text-gray-300">{highlight(hitText(hit), query)}</span>
+                </button>
+                <button
+                  onClick={() => onCreateFromMatches([hit])}
+                  className="p-1 text-indigo-500 hover:text-indigo-600 dark:text-indigo-400 dark:hover:text-indigo-300 rounded shrink-0"
+                  title={hit.to > hit.from ? `为这 ${hit.to - hit.from + 1} 句创建片段` : '为此句创建片段'}
+                >
+                  <Plus size={14} />
+                </button>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TranscriptSearch;
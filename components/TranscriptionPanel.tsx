@@ -0,0 +1,173 @@
+import React from 'react';
+import { Sparkles, RotateCcw, X, CircleAlert } from 'lucide-react';
+import {
+  TranscriptionSettings, TranscriptionProviderId, TranscriptionLanguage,
+  PROVIDER_LABELS, LANGUAGE_LABELS, WASM_MODELS
+} from '../services/transcription';
+
+interface TranscriptionPanelProps {
+  settings: TranscriptionSettings;
+  onChange: (settings: TranscriptionSettings) => void;
+  isTranscribing: boolean;
+  /** Progress message from the running provider */
+  status: string | null;
+  error: string | null;
+  hasTranscript: boolean;
+  onStart: () => void;
+  onCancel: () => void;
+  onClose: () => void;
+}
+
+const fieldClass = "w-full px-2 py-1 rounded-md bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 text-gray-700 dark:text-gray-200 focus:outline-none focus:ring-2 focus:ring-indigo-500";
+
+const Field: React.FC<{ label: string; children: React.ReactNode }> = ({ label, children }) => (
+  <label className="block space-y-1">
+    <span>{label}</span>
+    {children}
+  </label>
+);
+
+const TranscriptionPanel: React.FC<TranscriptionPanelProps> = ({
+  settings, onChange, isTranscribing, status, error, hasTranscript, onStart, onCancel, onClose
+}) => {
+  const { gemini, openai, wasm } = settings;
+
+  return (
+    <div className="absolute right-4 top-16 z-30 w-80 bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded-lg shadow-2xl flex flex-col transition-colors duration-300">
+      <div className="flex items-center justify-between px-3 py-2 border-b border-gray-200 dark:border-gray-800">
+        <span className="text-xs font-semibold text-gray-700 dark:text-gray-300">AI 字幕</span>
+        <button
+          onClick={onClose}
+          className="p-1.5 text-gray-500 hover:text-gray-900 dark:text-gray-400 dark:hover:text-white rounded"
+          title="关闭"
+        >
+          <X size={14} />
+        </button>
+      </div>
+
+      <fieldset disabled={isTranscribing} className="p-3 space-y-2 text-xs text-gray-600 dark:text-gray-400 disabled:opacity-60">
+        <Field label="识别引擎">
+          <select
+            value={settings.provider}
+            onChange={(e) => onChange({ ...settings, provider: e.target.value as TranscriptionProviderId })}
+            className={fieldClass}
+          >
+            {(Object.keys(PROVIDER_LABELS) as TranscriptionProviderId[]).map(id => (
+              <option key={id} value={id}>{PROVIDER_LABELS[id]}</option>
+            ))}
+          </select>
+        </Field>
+        <Field label="语言">
+          <select
+            value={settings.language}
+            onChange={(e) => onChange({ ...settings, language: e.target.value as TranscriptionLanguage })}
+            className={fieldClass}
+          >
+            {(Object.keys(LANGUAGE_LABELS) as TranscriptionLanguage[]).map(lang => (
+              <option key={lang} value={lang}>{LANGUAGE_LABELS[lang]}</option>
+            ))}
+          </select>
+        </Field>
+
+        {settings.provider === 'gemini' && (
+          <>
+            <Field label="API Key (留空则使用内置密钥)">
+              <input
+                type="password"
+                value={gemini.apiKey}
+                onChange={(e) => onChange({ ...settings, gemini: { ...gemini, apiKey: e.target.value } })}
+                className={fieldClass}
+                autoComplete="off"
+              />
+            </Field>
+            <p className="text-[11px] text-gray-400 dark:text-gray-500">API Key 仅保存在当前页面内存中，刷新或关闭页面后需重新输入</p>
+            <Field label="模型">
+              <input
+                value={gemini.model}
+                onChange={(e) => onChange({ ...settings, gemini: { ...gemini, model: e.target.value } })}
+                className={fieldClass}
+              />
+            </Field>
+          </>
+        )}
+
+        {settings.provider === 'openai' && (
+          <>
+            <Field label="服务地址 (至 /v1)">
+              <input
+                value={openai.endpoint}
+                onChange={(e) => onChange({ ...settings, openai: { ...openai, endpoint: e.target.value } })}
+                placeholder="http://localhost:8000/v1"
+                className={fieldClass}
+              />
+            </Field>
+            <Field label="API Key (可选)">
+              <input
+                type="password"
+                value={openai.apiKey}
+                onChange={(e) => onChange({ ...settings, openai: { ...openai, apiKey: e.target.value } })}
+                className={fieldClass}
+                autoComplete="off"
+              />
+            </Field>
+            <p className="text-[11px] text-gray-400 dark:text-gray-500">API Key 仅保存在当前页面内存中，刷新或关闭页面后需重新输入</p>
+            <Field label="模型">
+              <input
+                value={openai.model}
+                onChange={(e) => onChange({ ...settings, openai: { ...openai, model: e.target.value } })}
+                className={fieldClass}
+              />
+            </Field>
+          </>
+        )}
+
+        {settings.provider === 'wasm' && (
+          <Field label="模型 (首次使用需下载，之后可离线)">
+            <select
+              value={wasm.model}
+              onChange={(e) => onChange({ ...settings, wasm: { ...wasm, model: e.target.value } })}
+              className={fieldClass}
+            >
+              {Object.entries(WASM_MODELS).map(([id, label]) => (
+                <option key={id} value={id}>{label}</option>
+              ))}
+            </select>
+          </Field>
+        )}
+
+        <p className="text-[10px] text-gray-400 dark:text-gray-500">设置仅保存在本浏览器中。</p>
+      </fieldset>
+
+      <div className="px-3 pb-3 space-y-2 text-xs">
+        {error && !isTranscribing && (
+          <div className="flex items-start gap-2 p-2 rounded-md bg-red-50 dark:bg-red-900/20 text-red-600 dark:text-red-300 border border-red-200 dark:border-red-800">
+            <CircleAlert size={14} className="shrink-0 mt-0.5" />
+            <span className="break-all">{error}</span>
+          </div>
+        )}
+        {isTranscribing ? (
+          <div className="flex items-center gap-2">
+            <div className="w-2 h-2 rounded-full bg-indigo-500 animate-pulse shrink-0"></div>
+            <span className="flex-1 text-gray-600 dark:text-gray-300 truncate">{status || '正在生成字幕...'}</span>
+            <button
+              onClick={onCancel}
+              className="px-2 py-1 font-medium text-gray-600 dark:text-gray-300 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 hover:bg-gray-50 dark:hover:bg-gray-700 rounded-md transition-colors"
+            >
+              取消
+            </button>
+          </div>
+        ) : (
+          <button
+            onClick={onStart}
+            className="w-full flex items-center justify-center gap-1.5 px-3 py-2 font-medium text-white bg-indigo-600 hover:bg-indigo-500 rounded-md transition-colors"
+          >
+            {error ? <RotateCcw size={14} /> : <Sparkles size={14} />}
+            <span>{error ? '重试' : hasTranscript ? '重新生成字幕' : '生成字幕'}</span>
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TranscriptionPanel;
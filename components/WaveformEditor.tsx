@@ -1,31 +1,242 @@
 import React, { useEffect, useRef, useState, useCallback } from 'react';
 import WaveSurfer from 'wavesurfer.js';
-import RegionsPlugin, { Region } from 'wavesurfer.js/dist/plugins/regions.js';
+import RegionsPlugin, { Region, UpdateSide } from 'wavesurfer.js/dist/plugins/regions.js';
 import TimelinePlugin from 'wavesurfer.js/dist/plugins/timeline.js';
 import ZoomPlugin from 'wavesurfer.js/dist/plugins/zoom.js';
-import { Play, Pause, ZoomIn, ZoomOut, Scissors, Download, Trash2, Volume2, Eye, EyeOff, Sparkles } from 'lucide-react';
-import { formatTime, audioBufferToWav } from '../utils/audioUtils';
-import { RegionData } from '../types';
-import { GoogleGenAI, Type } from "@google/genai";
+import SpectrogramPlugin from 'wavesurfer.js/dist/plugins/spectrogram.js';
+import { Play, Pause, ZoomIn, ZoomOut, Scissors, Volume2, Eye, EyeOff, Sparkles, FileArchive, Undo2, Redo2, History, Save, FolderOpen, Merge, Captions, FileText, CircleAlert, Bookmark, Tags, AudioLines } from 'lucide-react';
+import { formatTime, audioBufferToWav, encodeAudio, sliceAudioBuffer, downloadBlob, getBaseName, sanitizeFileName, makeUniqueFileName, decodeAudioFile, getNudgeStep, TimecodeOptions } from '../utils/audioUtils';
+import { describeAudioFormat, probeAudio } from '../utils/audioProbe';
+import { AudioRangeSource, bufferRangeSource, canStreamAudio, createStreamRangeSource, getDecodedBytes, isLongRecording } from '../utils/audioStream';
+import { getWaveformPeaks } from '../utils/peaksGenerator';
+import { peaksAsBuffer, pickPeaksLevel, PeaksLevel, WaveformPeaks } from '../utils/peaksUtils';
+import { DEFAULT_EXPORT_FORMAT, EXPORT_EXTENSIONS, ExportFormatOptions, describeExportFormat } from '../utils/exportFormats';
+import { DEFAULT_REGION_COLOR, hexToRgba } from '../utils/colorUtils';
+import { snapBoundary, SnapSettings as SnapSettingsValue } from '../utils/snapUtils';
+import { DEFAULT_SILENCE_OPTIONS, SilenceDetectionOptions } from '../utils/silenceUtils';
+import { runSilenceDetection } from '../utils/silenceDetector';
+import { applyGain, getNormalizationGain, DEFAULT_NORMALIZE_OPTIONS, LoudnessStats, NormalizeOptions } from '../utils/loudnessUtils';
+import { analyzeLoudness } from '../utils/loudnessAnalyzer';
+import { setSegmentText, setSegmentBounds, splitSegment, mergeWithNext, getSegmentSpan, joinSegmentTexts, TranscriptMatch } from '../utils/transcriptUtils';
+import { getSpeakers, getSpeakerColors, renameSpeaker, getSpeakerRanges } from '../utils/speakerUtils';
+import { buildSubtitles, prepareSegments, SubtitleFormat, SUBTITLE_MIME_TYPES } from '../utils/subtitleUtils';
+import { readTags } from '../utils/tagReader';
+import { ClipTagSettings, DEFAULT_CLIP_TAG_SETTINGS, getClipTags, hasTags } from '../utils/tagUtils';
+import { averageSpectrum, DEFAULT_SPECTROGRAM_SETTINGS, getColorMap, SpectrogramSettings, SPECTROGRAM_SAMPLE_RATE } from '../utils/spectrumUtils';
+import { buildMarkers, parseMarkers, MarkerFormat, MARKER_EXTENSIONS, MARKER_MIME_TYPES } from '../utils/markerUtils';
+import { applyFades, clampFades, fadeGain } from '../utils/fadeUtils';
+import { applyEdits, mapRangeThroughEdit, mapSegmentsThroughEdits, EDIT_LABELS } from '../utils/editUtils';
+import { createHistory, pushHistory, jumpHistory, getCurrentState, canUndo, canRedo, HistoryState } from '../utils/historyUtils';
+import { conformBuffer } from '../utils/reelUtils';
+import { createZip, ZipEntry } from '../utils/zipUtils';
+import { buildManifestJson, buildManifestCsv, ManifestEntry } from '../utils/manifestUtils';
+import { computeFingerprint, serializeProject, parseProject, PROJECT_VERSION, PROJECT_EXTENSION } from '../utils/projectUtils';
+import { loadProject, saveProject } from '../utils/projectStore';
+import { RegionData, EditOperation, TranscriptSegment, EditorSnapshot, ProjectData, TimeRange, ReelClip, AudioTags, AudioFormatInfo } from '../types';
+import ExportSettings from './ExportSettings';
+import EditToolbar from './EditToolbar';
+import HistoryPanel from './HistoryPanel';
+import RegionListItem from './RegionListItem';
+import TimecodeSettings, { TimecodeSettingsValue } from './TimecodeSettings';
+import SnapSettings from './SnapSettings';
+import SilenceDetectPanel from './SilenceDetectPanel';
+import LoudnessBar from './LoudnessBar';
+import SubtitleExportPanel from './SubtitleExportPanel';
+import MarkerPanel from './MarkerPanel';
+import TagPanel from './TagPanel';
+import SpectrumPanel, { RegionSpectrum } from './SpectrumPanel';
+import TranscriptPanel from './TranscriptPanel';
+import TranscriptSearch from './TranscriptSearch';
+import TranscriptionPanel from './TranscriptionPanel';
+import SpeakerPanel from './SpeakerPanel';
+import {
+  createTranscriptionProvider, getTranscriptionCacheKey, isAbortError, loadTranscriptionSettings,
+  saveTranscriptionSettings, transcribeInChunks, TranscriptionSettings
+} from '../services/transcription';
+
+/** An operation the file bin runs on every open file, one editor at a time */
+export interface BatchCommand {
+  id: number;
+  type: 'silenceSplit';
+  options: SilenceDetectionOptions;
+}
+
+export interface BatchResult {
+  commandId: number;
+  /** Regions created, when the command succeeded */
+  count?: number;
+  error?: string;
+}
 
 interface WaveformEditorProps {
   file: File;
   onClose: () => void;
   isDarkMode: boolean;
   enableTranscription: boolean;
+  /** Inactive editors stay mounted but hidden, and ignore keyboard shortcuts */
+  isActive: boolean;
+  batchCommand: BatchCommand | null;
+  onBatchResult: (result: BatchResult) => void;
+  /** Hands rendered clips to the session-wide joined export */
+  onAddToReel: (clips: ReelClip[]) => void;
 }
 
-interface TranscriptSegment {
-  start: number;
-  end: number;
-  text: string;
+// Transcript lines and silence-detection previews are drawn as regions too
+const isUserRegion = (r: Region) => !r.id.startsWith('transcript-') && !r.id.startsWith('silence-preview-');
+
+/** Region fields WaveSurfer has no place for, kept alongside by region id */
+type RegionMeta = Pick<RegionData, 'label' | 'note' | 'fadeIn' | 'fadeOut' | 'fadeCurve'>;
+
+type EditorPopover = 'history' | 'transcription' | 'subtitles' | 'markers' | 'tags' | 'spectrum';
+
+const pickRegionMeta = ({ label, note, fadeIn, fadeOut, fadeCurve }: RegionData): RegionMeta =>
+  ({ label, note, fadeIn, fadeOut, fadeCurve });
+
+const toRegionData = (regions: Region[], meta: Record<string, RegionMeta>): RegionData[] =>
+  regions
+    .filter(isUserRegion)
+    .sort((a, b) => a.start - b.start)
+    .map(r => ({
+      id: r.id,
+      start: r.start,
+      end: r.end,
+      color: r.color,
+      ...meta[r.id]
+    }));
+
+/** Next free "片段 NN" label, so numbers stay stable when regions are reordered */
+const nextRegionLabel = (meta: Record<string, RegionMeta>) => {
+  const used = Object.values(meta)
+    .map(m => m.label?.match(/^片段 (\d+)$/))
+    .map(m => (m ? Number(m[1]) : 0));
+  return `片段 ${String(Math.max(0, ...used) + 1).padStart(2, '0')}`;
+};
+
+// Spectrogram lane under the waveform, in CSS pixels
+const SPECTROGRAM_HEIGHT = 128;
+// Longest stretch of a region the spectrum panel averages
+const SPECTRUM_MAX_SECONDS = 60;
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+
+/**
+ * Loads media into WaveSurfer along with audio we already decoded, resampled to
+ * the rate WaveSurfer draws at, so it doesn't decode the media a second time.
+ * WaveSurfer normalizes the channel data it's given in place, hence the copies.
+ */
+const loadDecoded = async (ws: WaveSurfer, media: string | Blob, buffer: AudioBuffer) => {
+  const display = await conformBuffer(buffer, ws.options.sampleRate || buffer.sampleRate, buffer.numberOfChannels);
+  const channels = Array.from({ length: display.numberOfChannels }, (_, c) =>
+    display === buffer ? buffer.getChannelData(c).slice() : display.getChannelData(c));
+  await (typeof media === 'string'
+    ? ws.load(media, channels, buffer.duration)
+    : ws.loadBlob(media, channels, buffer.duration));
+};
+
+/** Draws the fade-in/out curves over a region, shading the attenuated part */
+const renderFadeOverlay = (region: Region, meta: RegionMeta) => {
+  const el = region.element;
+  if (!el) return;
+  let svg = el.querySelector<SVGSVGElement>('svg[data-fade-overlay]');
+  const length = region.end - region.start;
+  const { fadeIn, fadeOut } = clampFades(length, meta.fadeIn, meta.fadeOut);
+  if (length <= 0 || (!fadeIn && !fadeOut)) {
+    svg?.remove();
+    return;
+  }
+
+  if (!svg) {
+    svg = document.createElementNS(SVG_NS, 'svg');
+    svg.setAttribute('data-fade-overlay', '');
+    svg.setAttribute('viewBox', '0 0 100 100');
+    svg.setAttribute('preserveAspectRatio', 'none');
+    Object.assign(svg.style, {
+      position: 'absolute', top: '0', left: '0', width: '100%', height: '100%', pointerEvents: 'none',
+    });
+    el.appendChild(svg);
+  }
+
+  const curve = meta.fadeCurve || 'linear';
+  const steps = 32;
+  const shapes: string[] = [];
+  const addShape = (x0: number, width: number, gainAt: (t: number) => number) => {
+    const points = Array.from({ length: steps + 1 }, (_, k) => {
+      const t = k / steps;
+      return `${(x0 + width * t).toFixed(3)},${(100 * (1 - gainAt(t))).toFixed(3)}`;
+    });
+    shapes.push(
+      `<polygon points="${x0},0 ${points.join(' ')} ${x0 + width},0" fill="rgba(0,0,0,0.25)" />`,
+      `<polyline points="${points.join(' ')}" fill="none" stroke="#f59e0b" stroke-width="1.5" vector-effect="non-scaling-stroke" />`
+    );
+  };
+  if (fadeIn > 0) addShape(0, (fadeIn / length) * 100, t => fadeGain(t, curve));
+  if (fadeOut > 0) {
+    const width = (fadeOut / length) * 100;
+    addShape(100 - width, width, t => fadeGain(1 - t, curve));
+  }
+  svg.innerHTML = shapes.join('');
+};
+
+const createRegionContent = (meta: RegionMeta): HTMLElement => {
+  const el = document.createElement('div');
+  el.textContent = meta.label || '';
+  el.title = meta.note ? `${meta.label}\n${meta.note}` : meta.label || '';
+  el.style.fontSize = '11px';
+  el.style.fontWeight = '600';
+  el.style.color = '#ffffff';
+  el.style.textShadow = '0 1px 2px rgba(0, 0, 0, 0.6)';
+  el.style.whiteSpace = 'nowrap';
+  el.style.overflow = 'hidden';
+  el.style.textOverflow = 'ellipsis';
+  el.style.padding = '2px 6px';
+  el.style.maxWidth = '100%';
+  return el;
+};
+
+/** Loudness measured for one state of the audio; region entries remember the bounds they were taken at */
+interface LoudnessResults {
+  edits: EditOperation[];
+  file: LoudnessStats;
+  regions: Record<string, TimeRange & { stats: LoudnessStats }>;
 }
 
-const WaveformEditor: React.FC<WaveformEditorProps> = ({ file, onClose, isDarkMode, enableTranscription }) => {
+const isEditable = (target: EventTarget | null) =>
+  target instanceof HTMLElement && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+const WaveformEditor: React.FC<WaveformEditorProps> = ({
+  file, onClose, isDarkMode, enableTranscription, isActive, batchCommand, onBatchResult, onAddToReel
+}) => {
   const containerRef = useRef<HTMLDivElement>(null);
   const timelineRef = useRef<HTMLDivElement>(null);
   const wavesurferRef = useRef<WaveSurfer | null>(null);
   const regionsPluginRef = useRef<RegionsPlugin | null>(null);
+  // Full-resolution decode of the source file; edits are always replayed on top of it
+  const originalBufferRef = useRef<AudioBuffer | null>(null);
+  const editedBufferRef = useRef<AudioBuffer | null>(null);
+  const sourceBufferPromiseRef = useRef<Promise<AudioBuffer | null>>(Promise.resolve(null));
+  // What WaveSurfer plays when there are no edits: the file itself, or a WAV of
+  // the fallback decode when the browser can't play the file
+  const playableSourceRef = useRef<Blob>(file);
+  // Long recordings only: the drawn peaks (WaveSurfer's decoded data is then these
+  // peaks, not audio) and decoding of the ranges that are exported or transcribed
+  const peaksRef = useRef<WaveformPeaks | null>(null);
+  const peaksLevelRef = useRef<PeaksLevel | null>(null);
+  const rangeSourceRef = useRef<AudioRangeSource | null>(null);
+  const projectInputRef = useRef<HTMLInputElement>(null);
+  const projectLoadStartedRef = useRef(false);
+  // Latest project not yet written to IndexedDB, flushed on unmount
+  const pendingSaveRef = useRef<ProjectData | null>(null);
+  const editsRef = useRef<EditOperation[]>([]);
+  const transcriptRef = useRef<TranscriptSegment[]>([]);
+  // Set while history is being replayed so region events are not recorded again
+  const isRestoringRef = useRef(false);
+  const regionMetaRef = useRef<Record<string, RegionMeta>>({});
+  const snapSettingsRef = useRef<SnapSettingsValue>({ mode: 'off', windowMs: 20 });
+  const snapIndicatorRef = useRef<HTMLDivElement | null>(null);
+  const audioContextRef = useRef<AudioContext | null>(null);
+  const isActiveRef = useRef(isActive);
+  // Last batch command this editor ran, so re-renders don't repeat it
+  const handledBatchRef = useRef(0);
   
   const [isPlaying, setIsPlaying] = useState(false);
   const [currentTime, setCurrentTime] = useState(0);
@@ -34,11 +245,51 @@ const WaveformEditor: React.FC<WaveformEditorProps> = ({ file, onClose, isDarkMo
   const [userRegions, setUserRegions] = useState<RegionData[]>([]);
   const [activeRegionId, setActiveRegionId] = useState<string | null>(null);
   const [isReady, setIsReady] = useState(false);
+  const [isExportingAll, setIsExportingAll] = useState(false);
+  const [hasSourceBuffer, setHasSourceBuffer] = useState(false);
+  const [fileFormat, setFileFormat] = useState<AudioFormatInfo | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [isLongRecordingMode, setIsLongRecordingMode] = useState(false);
+  const [peaksProgress, setPeaksProgress] = useState<number | null>(null);
+  const [edits, setEdits] = useState<EditOperation[]>([]);
+  const [isApplyingEdit, setIsApplyingEdit] = useState(false);
+  const [history, setHistory] = useState<HistoryState<EditorSnapshot>>(
+    () => createHistory('打开文件', { regions: [], transcript: [], edits: [] })
+  );
+  // Only one of the top bar popovers is open at a time
+  const [openPopover, setOpenPopover] = useState<EditorPopover | null>(null);
+  const [tags, setTags] = useState<AudioTags>({});
+  const [clipTagSettings, setClipTagSettings] = useState<ClipTagSettings>(DEFAULT_CLIP_TAG_SETTINGS);
+  const [spectrogramSettings, setSpectrogramSettings] = useState<SpectrogramSettings>(DEFAULT_SPECTROGRAM_SETTINGS);
+  const [analyser, setAnalyser] = useState<AnalyserNode | null>(null);
+  const [regionSpectrum, setRegionSpectrum] = useState<RegionSpectrum | null>(null);
+  const [fingerprint, setFingerprint] = useState<string | null>(null);
+  const [isProjectLoaded, setIsProjectLoaded] = useState(false);
+  const [lastSavedAt, setLastSavedAt] = useState<number | null>(null);
+  const [snapSettings, setSnapSettings] = useState<SnapSettingsValue>(snapSettingsRef.current);
+  const [timecodeSettings, setTimecodeSettings] = useState<TimecodeSettingsValue>({ format: 'clock', frameRate: 25, nudgeUnit: '10ms' });
+  const [exportOptions, setExportOptions] = useState<ExportFormatOptions>(DEFAULT_EXPORT_FORMAT);
+  const [encodeProgress, setEncodeProgress] = useState<number | null>(null);
+  const [normalizeOptions, setNormalizeOptions] = useState<NormalizeOptions>(DEFAULT_NORMALIZE_OPTIONS);
+  const [loudness, setLoudness] = useState<LoudnessResults | null>(null);
+  const [isAnalyzingLoudness, setIsAnalyzingLoudness] = useState(false);
+  const [silenceOptions, setSilenceOptions] = useState<SilenceDetectionOptions>(DEFAULT_SILENCE_OPTIONS);
+  const [silenceProgress, setSilenceProgress] = useState<number | null>(null);
+  const [silenceProposals, setSilenceProposals] = useState<TimeRange[] | null>(null);
   
   // Transcription state
   const [isTranscribing, setIsTranscribing] = useState(false);
+  const [transcriptionSettings, setTranscriptionSettings] = useState<TranscriptionSettings>(loadTranscriptionSettings);
+  const [transcriptionStatus, setTranscriptionStatus] = useState<string | null>(null);
+  const [transcriptionError, setTranscriptionError] = useState<string | null>(null);
+  const transcriptionAbortRef = useRef<AbortController | null>(null);
   const [transcriptSegments, setTranscriptSegments] = useState<TranscriptSegment[]>([]);
   const [showTranscriptOnWave, setShowTranscriptOnWave] = useState(true);
+  // Transcript lines picked in the panel; anchor is the clicked line, focus the shift-clicked one
+  const [segmentSelection, setSegmentSelection] = useState<{ anchor: number; focus: number } | null>(null);
+  const [transcriptPadding, setTranscriptPadding] = useState(0.2);
+  const [speakerFilter, setSpeakerFilter] = useState<string | null>(null);
+  const [sidePanel, setSidePanel] = useState<'clips' | 'transcript'>('clips');
 
   // Define colors based on theme
   const getThemeColors = (dark: boolean) => ({
@@ -93,27 +344,143 @@ const WaveformEditor: React.FC<WaveformEditorProps> = ({ file, onClose, isDarkMo
     // Enable drag selection explicitly
     if (wsRegions.enableDragSelection) {
       wsRegions.enableDragSelection({
-        color: 'rgba(99, 102, 241, 0.3)', // Default user region color
+        color: DEFAULT_REGION_COLOR, // Default user region color
       });
     }
 
     ws.registerPlugin(wsRegions);
     regionsPluginRef.current = wsRegions;
 
-    // Load file
+    // Marker showing where a dragged boundary will snap to
+    const snapIndicator = document.createElement('div');
+    Object.assign(snapIndicator.style, {
+      position: 'absolute',
+      top: '0',
+      bottom: '0',
+      width: '0',
+      borderLeft: '2px dashed #f59e0b',
+      zIndex: '6',
+      pointerEvents: 'none',
+      display: 'none',
+    });
+    ws.getWrapper().appendChild(snapIndicator);
+    snapIndicatorRef.current = snapIndicator;
+
+    let cancelled = false;
     const fileUrl = URL.createObjectURL(file);
-    ws.load(fileUrl);
+    playableSourceRef.current = file;
+
+    const fingerprintPromise = computeFingerprint(file);
+    fingerprintPromise
+      .then((fp) => !cancelled && setFingerprint(fp))
+      .catch((err) => console.error("Fingerprint failed", err));
+
+    // Decodes the whole file for editing, at its own sample rate when the probe
+    // found one, and hands that decode to WaveSurfer for drawing. When the
+    // browser can't play the file itself, the decode is played instead.
+    const openInFull = async (format: AudioFormatInfo | null) => {
+      let buffer: AudioBuffer;
+      try {
+        buffer = await decodeAudioFile(file, format?.sampleRate);
+      } catch (err: any) {
+        console.error("Full-resolution decode failed", err);
+        if (!cancelled) setLoadError(err?.message || '无法解码此文件');
+        return null;
+      }
+      if (cancelled) return null;
+      originalBufferRef.current = buffer;
+      setHasSourceBuffer(true);
+
+      const media = ws.getMediaElement();
+      const playDecode = () => {
+        if (cancelled) return;
+        console.warn("Browser playback failed, playing the decoded audio", media.error);
+        playableSourceRef.current = audioBufferToWav(buffer, { format: 'float32' });
+        loadDecoded(ws, playableSourceRef.current, buffer).catch((loadErr) => {
+          console.error("Loading the decoded audio failed", loadErr);
+          if (!cancelled) setLoadError('无法播放解码后的音频');
+        });
+      };
+      media.addEventListener('error', playDecode, { once: true });
+      media.addEventListener('loadedmetadata', () => media.removeEventListener('error', playDecode), { once: true });
+      loadDecoded(ws, fileUrl, buffer).catch((err) => {
+        console.error("Loading the waveform failed", err);
+        if (!cancelled) setLoadError('无法显示波形');
+      });
+      return buffer;
+    };
+
+    // Long recordings are never decoded whole: WaveSurfer draws cached peaks and
+    // plays the file as a stream, and clips are decoded range by range
+    const openAsLongRecording = async (format: AudioFormatInfo) => {
+      const peaks = await getWaveformPeaks(file, format, await fingerprintPromise, setPeaksProgress);
+      if (cancelled) return;
+      const level = pickPeaksLevel(peaks, ws.options.minPxPerSec);
+      peaksRef.current = peaks;
+      peaksLevelRef.current = level;
+      rangeSourceRef.current = createStreamRangeSource(file, format, peaks.duration);
+      setIsLongRecordingMode(true);
+      await ws.load(fileUrl, level.data, peaks.duration);
+    };
 
+    sourceBufferPromiseRef.current = probeAudio(file)
+      .catch((err) => {
+        console.error("Probing the file failed", err);
+        return null;
+      })
+      .then(async (format) => {
+        if (cancelled) return null;
+        setFileFormat(format);
+        if (format && canStreamAudio(format) && isLongRecording(format)) {
+          try {
+            await openAsLongRecording(format);
+            return null;
+          } catch (err) {
+            console.error("Opening as a long recording failed, decoding it whole", err);
+            peaksRef.current = null;
+            rangeSourceRef.current?.close();
+            rangeSourceRef.current = null;
+            setIsLongRecordingMode(false);
+          } finally {
+            setPeaksProgress(null);
+          }
+        }
+        // MP4/AAC and WebM have no piece-by-piece decoder, so a long one is decoded whole
+        if (
+          format && isLongRecording(format) && !canStreamAudio(format) &&
+          !window.confirm(
+            `此文件格式 (${describeAudioFormat(format)}) 无法分段解码，需要一次性解码，约占用 ${Math.round(getDecodedBytes(format) / 1024 / 1024)} MB 内存，可能导致页面卡顿或崩溃。\n\n` +
+            '建议先转换为 WAV、FLAC、MP3 或 Ogg 再打开。仍要继续吗？'
+          )
+        ) {
+          setLoadError('文件过长且格式无法分段解码，已取消打开');
+          return null;
+        }
+        return cancelled ? null : openInFull(format);
+      });
+
+    // 'ready' fires again whenever edited audio is reloaded
     ws.on('ready', () => {
       setIsReady(true);
       setDuration(ws.getDuration());
-      // Only transcribe if enabled prop is true
-      if (enableTranscription) {
-        handleTranscribe();
-      }
     });
 
-    ws.on('play', () => setIsPlaying(true));
+    // Long recordings swap in the peak level that fits the new zoom
+    ws.on('zoom', (pxPerSec) => {
+      const peaks = peaksRef.current;
+      if (!peaks) return;
+      const level = pickPeaksLevel(peaks, pxPerSec);
+      if (level === peaksLevelRef.current) return;
+      peaksLevelRef.current = level;
+      ws.setOptions({ peaks: level.data, duration: peaks.duration });
+      ws.getRenderer().render(ws.getDecodedData()!);
+    });
+
+    ws.on('play', () => {
+      setIsPlaying(true);
+      // Playback runs through this context once the analyser taps it
+      audioContextRef.current?.resume();
+    });
     ws.on('pause', () => setIsPlaying(false));
     ws.on('timeupdate', (currentTime) => setCurrentTime(currentTime));
     
@@ -125,19 +492,41 @@ const WaveformEditor: React.FC<WaveformEditorProps> = ({ file, onClose, isDarkMo
     
     // Region events
     wsRegions.on('region-created', (region) => {
-      if (region.id.startsWith('transcript-')) return;
+      if (!isUserRegion(region)) return;
+      if (!isRestoringRef.current) snapRegion(region, ['start', 'end']);
+      // Drag-created regions arrive without a label; restored ones already have meta
+      if (!regionMetaRef.current[region.id]) {
+        const meta = { label: nextRegionLabel(regionMetaRef.current) };
+        regionMetaRef.current[region.id] = meta;
+        region.setContent(createRegionContent(meta));
+      }
       setActiveRegionId(region.id);
       updateUserRegionsList(wsRegions.getRegions());
+      recordHistory('添加片段');
+    });
+
+    wsRegions.on('region-update', (region, side) => {
+      if (!isUserRegion(region)) return;
+      renderFadeOverlay(region, regionMetaRef.current[region.id] || {});
+      if (side) showSnapIndicator(side === 'start' ? region.start : region.end);
     });
 
-    wsRegions.on('region-updated', (region) => {
-      if (region.id.startsWith('transcript-')) return;
+    wsRegions.on('region-updated', (region, side) => {
+      // Only the selected transcript segment is resizable
+      if (region.id.startsWith('transcript-')) {
+        changeSegmentBounds(Number(region.id.slice('transcript-'.length)), region.start, region.end);
+        return;
+      }
+      if (!isUserRegion(region)) return;
+      showSnapIndicator(null);
+      if (side) snapRegion(region, [side]);
       updateUserRegionsList(wsRegions.getRegions());
+      recordHistory('调整片段');
     });
 
     wsRegions.on('region-clicked', (region, e) => {
       e.stopPropagation();
-      if (region.id.startsWith('transcript-')) return;
+      if (!isUserRegion(region)) return;
       setActiveRegionId(region.id);
       ws.pause(); 
     });
@@ -145,7 +534,7 @@ const WaveformEditor: React.FC<WaveformEditorProps> = ({ file, onClose, isDarkMo
     wavesurferRef.current = ws;
 
     const handleKeyDown = (e: KeyboardEvent) => {
-      if (e.code === 'Space') {
+      if (e.code === 'Space' && isActiveRef.current && !isEditable(e.target)) {
         e.preventDefault();
         ws.playPause();
       }
@@ -153,26 +542,189 @@ const WaveformEditor: React.FC<WaveformEditorProps> = ({ file, onClose, isDarkMo
     window.addEventListener('keydown', handleKeyDown);
 
     return () => {
+      cancelled = true;
+      originalBufferRef.current = null;
+      editedBufferRef.current = null;
+      peaksRef.current = null;
+      rangeSourceRef.current?.close();
+      rangeSourceRef.current = null;
       window.removeEventListener('keydown', handleKeyDown);
       ws.destroy();
       URL.revokeObjectURL(fileUrl);
     };
   }, [file]); // Re-init if file changes.
 
+  useEffect(() => {
+    editsRef.current = edits;
+  }, [edits]);
+
+  useEffect(() => {
+    snapSettingsRef.current = snapSettings;
+  }, [snapSettings]);
+
+  useEffect(() => {
+    transcriptRef.current = transcriptSegments;
+  }, [transcriptSegments]);
+
+  // Hidden editors keep their state but must not keep playing
+  useEffect(() => {
+    isActiveRef.current = isActive;
+    if (!isActive) wavesurferRef.current?.pause();
+  }, [isActive]);
+
+  useEffect(() => {
+    saveTranscriptionSettings(transcriptionSettings);
+  }, [transcriptionSettings]);
+
+  // Stop waiting for a transcript nobody will see
+  useEffect(() => () => transcriptionAbortRef.current?.abort(), []);
+
+  // The spectrogram lane, drawn by the plugin inside WaveSurfer's wrapper so it
+  // zooms and scrolls with the waveform. Changed settings replace the plugin.
+  useEffect(() => {
+    const ws = wavesurferRef.current;
+    if (!ws || !spectrogramSettings.visible || isLongRecordingMode) return;
+
+    const plugin = ws.registerPlugin(SpectrogramPlugin.create({
+      height: SPECTROGRAM_HEIGHT,
+      labels: true,
+      fftSamples: spectrogramSettings.fftSize,
+      windowFunc: spectrogramSettings.window,
+      colorMap: getColorMap(spectrogramSettings.colorMap),
+      useWebWorker: true,
+      fallbackToMainThread: false,
+    }));
+
+    // The plugin analyses the audio WaveSurfer holds; reload it at a rate with some treble left in it
+    if ((ws.options.sampleRate || 0) < SPECTROGRAM_SAMPLE_RATE) {
+      const previousRate = ws.options.sampleRate;
+      ws.setOptions({ sampleRate: SPECTROGRAM_SAMPLE_RATE });
+      if (ws.getDecodedData() && originalBufferRef.current) {
+        const time = ws.getCurrentTime();
+        setIsReady(false);
+        loadEditedAudio(editsRef.current)
+          .then(() => ws.setTime(time))
+          .catch(async (err: any) => {
+            console.error("Reloading audio for the spectrogram failed", err);
+            // Back to the audio as it was, without the lane's treble
+            ws.setOptions({ sampleRate: previousRate });
+            try {
+              await loadEditedAudio(editsRef.current);
+              ws.setTime(time);
+            } catch (restoreErr) {
+              console.error("Reloading the previous audio failed", restoreErr);
+            }
+            setIsReady(true);
+            window.alert(`频谱图加载失败: ${err?.message || err}`);
+          });
+      }
+    }
+    return () => plugin.destroy();
+  }, [spectrogramSettings, isLongRecordingMode]);
+
+  // Playback is routed through an AnalyserNode from the first time the spectrum
+  // panel opens; a media element can only ever feed one AudioContext, so it stays
+  useEffect(() => {
+    const media = wavesurferRef.current?.getMediaElement();
+    if (openPopover !== 'spectrum' || audioContextRef.current || !media) return;
+    try {
+      const context = new AudioContext();
+      const node = context.createAnalyser();
+      context.createMediaElementSource(media).connect(node);
+      node.connect(context.destination);
+      audioContextRef.current = context;
+      setAnalyser(node);
+    } catch (err) {
+      console.error("Tapping playback for the analyser failed", err);
+    }
+  }, [openPopover]);
+
+  useEffect(() => () => {
+    audioContextRef.current?.close();
+  }, []);
+
+  // Average spectrum of the selected region, while the panel is open
+  useEffect(() => {
+    const region = userRegions.find(r => r.id === activeRegionId);
+    const source = getClipSource();
+    if (openPopover !== 'spectrum' || !region || !source) {
+      setRegionSpectrum(null);
+      return;
+    }
+
+    let cancelled = false;
+    const end = Math.min(region.end, region.start + SPECTRUM_MAX_SECONDS);
+    source.read(region.start, end)
+      .then((buffer) => {
+        if (cancelled) return;
+        if (!buffer) {
+          setRegionSpectrum(null);
+          return;
+        }
+        const channels = Array.from({ length: buffer.numberOfChannels }, (_, c) => buffer.getChannelData(c));
+        const label = region.label || '所选片段';
+        setRegionSpectrum({
+          data: averageSpectrum(channels, spectrogramSettings.fftSize, spectrogramSettings.window),
+          sampleRate: buffer.sampleRate,
+          label: end < region.end ? `${label} (前 ${SPECTRUM_MAX_SECONDS} 秒)` : label,
+        });
+      })
+      .catch((err) => console.error("Region spectrum failed", err));
+    return () => {
+      cancelled = true;
+    };
+  }, [openPopover, activeRegionId, userRegions, edits, hasSourceBuffer, spectrogramSettings.fftSize, spectrogramSettings.window]);
+
+  /** Moves the given region boundaries to the nearest zero crossing / transient */
+  const snapRegion = (region: Region, sides: UpdateSide[]) => {
+    const settings = snapSettingsRef.current;
+    const buffer = getWorkingBuffer();
+    if (settings.mode === 'off' || !buffer) return;
+
+    const start = sides.includes('start') ? snapBoundary(buffer, region.start, settings) : region.start;
+    const end = sides.includes('end') ? snapBoundary(buffer, region.end, settings) : region.end;
+    if (end > start && (start !== region.start || end !== region.end)) {
+      region.setOptions({ start, end });
+    }
+  };
+
+  /** Positions the snap marker at the snapped location of `time`, or hides it for null */
+  const showSnapIndicator = (time: number | null) => {
+    const indicator = snapIndicatorRef.current;
+    const ws = wavesurferRef.current;
+    const buffer = getWorkingBuffer();
+    if (!indicator) return;
+    if (time === null || !ws || !buffer || snapSettingsRef.current.mode === 'off') {
+      indicator.style.display = 'none';
+      return;
+    }
+    const snapped = snapBoundary(buffer, time, snapSettingsRef.current);
+    indicator.style.left = `${(snapped / ws.getDuration()) * 100}%`;
+    indicator.style.display = 'block';
+  };
+
   const updateUserRegionsList = (wsRegions: Region[]) => {
     // Filter out transcript regions
-    const formattedRegions = wsRegions
-      .filter(r => !r.id.startsWith('transcript-'))
-      .sort((a, b) => a.start - b.start)
-      .map(r => ({
-        id: r.id,
-        start: r.start,
-        end: r.end,
-        color: r.color
-      }));
-    setUserRegions(formattedRegions);
+    setUserRegions(toRegionData(wsRegions, regionMetaRef.current));
+    wsRegions.filter(isUserRegion).forEach(r => renderFadeOverlay(r, regionMetaRef.current[r.id] || {}));
+  };
+
+  /**
+   * Pushes the current editor state onto the history. Only touches refs and
+   * functional updates, so it is safe to call from WaveSurfer event handlers.
+   */
+  const recordHistory = (label: string, patch: Partial<EditorSnapshot> = {}) => {
+    const wsRegions = regionsPluginRef.current;
+    if (!wsRegions || isRestoringRef.current) return;
+    const regions = toRegionData(wsRegions.getRegions(), regionMetaRef.current);
+    setHistory(h => {
+      const current: EditorSnapshot = getCurrentState(h);
+      return pushHistory(h, label, { ...current, regions, ...patch });
+    });
   };
 
+  const togglePopover = (popover: EditorPopover) => setOpenPopover(open => (open === popover ? null : popover));
+
   const handlePlayPause = useCallback(() => {
     wavesurferRef.current?.playPause();
   }, []);
@@ -189,20 +741,80 @@ const WaveformEditor: React.FC<WaveformEditorProps> = ({ file, onClose, isDarkMo
     const currentTime = wavesurferRef.current.getCurrentTime();
     
     // Add region starting at current time, length 5s
-    regionsPluginRef.current.addRegion({
-      start: currentTime,
-      end: currentTime + 5, 
-      content: `片段`,
-      color: 'rgba(99, 102, 241, 0.3)',
+    createUserRegion(currentTime, currentTime + 5);
+  };
+
+  /** Adds a labelled user region; region-created takes care of the list and history */
+  const createUserRegion = (start: number, end: number, extra: RegionMeta = {}) => {
+    const id = `region-${Math.random().toString(32).slice(2)}`;
+    const meta = { ...extra, label: extra.label || nextRegionLabel(regionMetaRef.current) };
+    regionMetaRef.current[id] = meta;
+    regionsPluginRef.current?.addRegion({
+      id,
+      start,
+      end,
+      content: createRegionContent(meta),
+      color: DEFAULT_REGION_COLOR,
       drag: true,
       resize: true,
     });
   };
 
+  /** Adds several user regions as one history step */
+  const createUserRegions = (ranges: (TimeRange & RegionMeta)[], historyLabel: string) => {
+    const wsRegions = regionsPluginRef.current;
+    if (!wsRegions || ranges.length === 0) return;
+
+    isRestoringRef.current = true;
+    try {
+      ranges.forEach(({ start, end, ...meta }) => createUserRegion(start, end, meta));
+    } finally {
+      isRestoringRef.current = false;
+    }
+    setActiveRegionId(null);
+    updateUserRegionsList(wsRegions.getRegions());
+    recordHistory(historyLabel);
+  };
+
+  const updateRegionMeta = (id: string, patch: RegionMeta, historyLabel: string) => {
+    const region = regionsPluginRef.current?.getRegions().find(r => r.id === id);
+    if (!region) return;
+    const meta = { ...regionMetaRef.current[id], ...patch };
+    regionMetaRef.current[id] = meta;
+    region.setContent(createRegionContent(meta));
+    updateUserRegionsList(regionsPluginRef.current?.getRegions() || []);
+    recordHistory(historyLabel);
+  };
+
+  const setRegionBounds = (id: string, start: number, end: number) => {
+    const region = regionsPluginRef.current?.getRegions().find(r => r.id === id);
+    if (!region || end <= start) return;
+    region.setOptions({ start, end });
+    updateUserRegionsList(regionsPluginRef.current?.getRegions() || []);
+    recordHistory('调整片段');
+  };
+
+  const setRegionColor = (id: string, hex: string, commit: boolean) => {
+    const region = regionsPluginRef.current?.getRegions().find(r => r.id === id);
+    if (!region) return;
+    const color = hexToRgba(hex);
+    if (color !== region.color) {
+      region.setOptions({ color });
+      updateUserRegionsList(regionsPluginRef.current?.getRegions() || []);
+    }
+    if (commit) {
+      const previous: EditorSnapshot = getCurrentState(history);
+      const recorded = previous.regions.find(r => r.id === id);
+      if (recorded?.color !== color) recordHistory('更改颜色');
+    }
+  };
+
   const removeRegion = (id: string) => {
     const region = regionsPluginRef.current?.getRegions().find(r => r.id === id);
-    region?.remove();
+    if (!region) return;
+    region.remove();
     updateUserRegionsList(regionsPluginRef.current?.getRegions() || []);
+    recordHistory('删除片段');
   };
 
   const playRegion = (id: string) => {
@@ -210,132 +822,701 @@ const WaveformEditor: React.FC<WaveformEditorProps> = ({ file, onClose, isDarkMo
     region?.play();
   };
 
-  const exportRegion = async (id: string, index: number) => {
+  /**
+   * The audio as currently edited, at full resolution when available. Long
+   * recordings have none; WaveSurfer only holds their peaks.
+   */
+  const getWorkingBuffer = (): AudioBuffer | null =>
+    editedBufferRef.current || originalBufferRef.current ||
+    (peaksRef.current ? null : wavesurferRef.current?.getDecodedData()) || null;
+
+  /** Where clips are cut from: the working audio, or range decoding for long recordings */
+  const getClipSource = (): AudioRangeSource | null => {
+    const buffer = getWorkingBuffer();
+    return buffer ? bufferRangeSource(buffer) : rangeSourceRef.current;
+  };
+
+  /** Low-resolution overview for analysis: WaveSurfer's copy, or the finest peaks of a long recording */
+  const getOverviewBuffer = (): AudioBuffer | null =>
+    peaksRef.current ? peaksAsBuffer(peaksRef.current) : wavesurferRef.current?.getDecodedData() || null;
+
+  const getRegionFileName = (region: RegionData, index: number) => {
+    const label = region.label || `part_${String(index + 1).padStart(2, '0')}`;
+    return `${getBaseName(file.name)}_${sanitizeFileName(label)}${EXPORT_EXTENSIONS[exportOptions.format]}`;
+  };
+
+  /** Source tags adapted to one region: templated title and track number */
+  const getRegionTags = (region: RegionData, index: number) =>
+    getClipTags(tags, clipTagSettings, {
+      label: region.label || `片段 ${String(index + 1).padStart(2, '0')}`,
+      note: region.note,
+      index,
+      total: userRegions.length,
+      fileName: file.name,
+    });
+
+  /** Applies the export normalization to a buffer in place */
+  const normalizeForExport = async (buffer: AudioBuffer) => {
+    if (normalizeOptions.mode === 'off') return;
+    const { file: stats } = await analyzeLoudness(buffer);
+    applyGain(buffer, getNormalizationGain(stats, normalizeOptions));
+  };
+
+  /** Cuts a region out of the working audio with its fades and normalization applied */
+  const renderClip = async (source: AudioRangeSource, region: RegionData): Promise<AudioBuffer | null> => {
+    const clip = await source.read(region.start, region.end);
+    if (!clip) return null;
+    applyFades(clip, region.fadeIn, region.fadeOut, region.fadeCurve);
+    await normalizeForExport(clip);
+    return clip;
+  };
+
+  const exportRegion = async (id: string) => {
+    const index = userRegions.findIndex(r => r.id === id);
+    const region = userRegions[index];
+    if (!region) return;
+
+    const source = getClipSource();
+    if (!source) return;
+
+    try {
+      const newBuffer = await renderClip(source, region);
+      if (!newBuffer) return;
+      setEncodeProgress(0);
+      const blob = await encodeAudio(newBuffer, exportOptions, setEncodeProgress, getRegionTags(region, index));
+      downloadBlob(blob, getRegionFileName(region, index));
+    } catch (err: any) {
+      console.error("Export failed", err);
+      window.alert(`导出失败: ${err?.message || err}`);
+    } finally {
+      setEncodeProgress(null);
+    }
+  };
+
+  /** Renders regions as they are now and queues them for the joined export */
+  const addRegionsToReel = async (regions: RegionData[]) => {
+    const source = getClipSource();
+    if (!source) return;
+
+    try {
+      const clips: ReelClip[] = [];
+      for (const region of regions) {
+        const clip = await renderClip(source, region);
+        if (!clip) continue;
+        const index = userRegions.findIndex(r => r.id === region.id);
+        clips.push({
+          id: `reel-${Math.random().toString(32).slice(2)}`,
+          label: region.label || `片段 ${String(index + 1).padStart(2, '0')}`,
+          source: file.name,
+          start: region.start,
+          end: region.end,
+          buffer: clip,
+          included: true,
+        });
+      }
+      if (clips.length > 0) onAddToReel(clips);
+    } catch (err) {
+      console.error("Adding clips to the joined export failed", err);
+    }
+  };
+
+  const exportAllRegions = async () => {
+    const source = getClipSource();
+    if (!source || userRegions.length === 0 || isExportingAll) return;
+
+    setIsExportingAll(true);
+    try {
+      const entries: ZipEntry[] = [];
+      const manifest: ManifestEntry[] = [];
+      const usedNames = new Set<string>(['manifest.json', 'manifest.csv']);
+
+      for (const [idx, region] of userRegions.entries()) {
+        const clip = await renderClip(source, region);
+        if (!clip) continue;
+        const name = makeUniqueFileName(getRegionFileName(region, idx), usedNames);
+        const progress = (p: number) => setEncodeProgress((idx + p) / userRegions.length);
+        const data = await encodeAudio(clip, exportOptions, progress, getRegionTags(region, idx));
+        entries.push({ name, data });
+        manifest.push({
+          file: name,
+          label: region.label || `片段 ${String(idx + 1).padStart(2, '0')}`,
+          start: region.start,
+          end: region.end,
+          source: file.name,
+        });
+      }
+
+      if (entries.length === 0) return;
+
+      entries.push({ name: 'manifest.json', data: buildManifestJson(manifest) });
+      entries.push({ name: 'manifest.csv', data: buildManifestCsv(manifest) });
+
+      const zip = await createZip(entries);
+      downloadBlob(zip, `${getBaseName(file.name)}_clips.zip`);
+    } catch (err: any) {
+      console.error("Export all failed", err);
+      window.alert(`导出失败: ${err?.message || err}`);
+    } finally {
+      setIsExportingAll(false);
+      setEncodeProgress(null);
+    }
+  };
+
+  /** Rebuilds the edited audio from the original and reloads it into WaveSurfer */
+  const loadEditedAudio = async (nextEdits: EditOperation[]) => {
     const ws = wavesurferRef.current;
-    const region = regionsPluginRef.current?.getRegions().find(r => r.id === id);
-    if (!ws || !region) return;
+    const original = originalBufferRef.current;
+    if (!ws || !original) return;
 
-    const buffer = ws.getDecodedData();
-    if (!buffer) return;
+    if (nextEdits.length === 0) {
+      editedBufferRef.current = null;
+      await loadDecoded(ws, playableSourceRef.current, original);
+    } else {
+      const edited = applyEdits(original, nextEdits);
+      editedBufferRef.current = edited;
+      // Lossless float WAV so playback matches the edited samples exactly
+      await loadDecoded(ws, audioBufferToWav(edited, { format: 'float32' }), edited);
+    }
+    ws.zoom(zoom);
+  };
 
-    const sampleRate = buffer.sampleRate;
-    const startFrame = Math.floor(region.start * sampleRate);
-    const endFrame = Math.floor(region.end * sampleRate);
-    const frameCount = endFrame - startFrame;
+  /**
+   * loadEditedAudio that, when the new audio fails to load, goes back to the
+   * audio for `previous` so the editor doesn't stay in its loading state, then rethrows
+   */
+  const switchEditedAudio = async (nextEdits: EditOperation[], previous: EditOperation[]) => {
+    try {
+      await loadEditedAudio(nextEdits);
+    } catch (err) {
+      try {
+        await loadEditedAudio(previous);
+      } catch (restoreErr) {
+        console.error("Reloading the previous audio failed", restoreErr);
+      }
+      setIsReady(true);
+      throw err;
+    }
+  };
 
-    if (frameCount <= 0) return;
+  const performEdit = async (op: EditOperation) => {
+    const wsRegions = regionsPluginRef.current;
+    if (!wavesurferRef.current || !wsRegions || !originalBufferRef.current || isApplyingEdit) return;
 
-    const newBuffer = new AudioContext().createBuffer(
-      buffer.numberOfChannels,
-      frameCount,
-      sampleRate
-    );
+    const nextEdits = [...edits, op];
+    clearSilencePreview();
+    setIsApplyingEdit(true);
+    setIsReady(false);
+    try {
+      await switchEditedAudio(nextEdits, edits);
+      setEdits(nextEdits);
 
-    for (let i = 0; i < buffer.numberOfChannels; i++) {
-      const channelData = buffer.getChannelData(i);
-      const newChannelData = newBuffer.getChannelData(i);
-      for (let j = 0; j < frameCount; j++) {
-        newChannelData[j] = channelData[startFrame + j];
+      // Regions survive the reload; move them along with the audio
+      wsRegions.getRegions()
+        .filter(isUserRegion)
+        .forEach(r => {
+          const mapped = mapRangeThroughEdit(r.start, r.end, op);
+          if (mapped) {
+            r.setOptions(mapped);
+          } else {
+            r.remove();
+          }
+        });
+      updateUserRegionsList(wsRegions.getRegions());
+      if (activeRegionId && !wsRegions.getRegions().some(r => r.id === activeRegionId)) {
+        setActiveRegionId(null);
       }
+
+      const nextSegments = mapSegmentsThroughEdits(transcriptSegments, [op]);
+      setSegmentSelection(null);
+      setTranscriptSegments(nextSegments);
+      renderTranscriptRegions(nextSegments);
+
+      recordHistory(EDIT_LABELS[op.type], { edits: nextEdits, transcript: nextSegments });
+    } catch (err: any) {
+      console.error("Edit failed", err);
+      window.alert(`编辑失败: ${err?.message || err}`);
+    } finally {
+      setIsApplyingEdit(false);
     }
+  };
 
-    const wavBlob = audioBufferToWav(newBuffer);
-    const url = URL.createObjectURL(wavBlob);
-    
-    const a = document.createElement('a');
-    a.style.display = 'none';
-    a.href = url;
-    const originalName = file.name.replace(/\.[^/.]+$/, "");
-    a.download = `${originalName}_part_${String(index + 1).padStart(2, '0')}.wav`;
-    document.body.appendChild(a);
-    a.click();
-    
-    setTimeout(() => {
-      document.body.removeChild(a);
-      URL.revokeObjectURL(url);
-    }, 100);
-  };
-
-  const fileToBase64 = (file: File): Promise<string> => {
-    return new Promise((resolve, reject) => {
-      const reader = new FileReader();
-      reader.onload = () => {
-        const result = reader.result as string;
-        const base64 = result.split(',')[1];
-        resolve(base64);
-      };
-      reader.onerror = error => reject(error);
-      reader.readAsDataURL(file);
+  /** Makes WaveSurfer's user regions match a snapshot without recording history */
+  const syncRegions = (target: RegionData[]) => {
+    const wsRegions = regionsPluginRef.current;
+    if (!wsRegions) return;
+
+    const current = wsRegions.getRegions().filter(isUserRegion);
+    current
+      .filter(r => !target.some(t => t.id === r.id))
+      .forEach(r => r.remove());
+
+    target.forEach(t => {
+      const meta = pickRegionMeta(t);
+      regionMetaRef.current[t.id] = meta;
+      const existing = current.find(r => r.id === t.id && !r.isRemoved);
+      if (existing) {
+        existing.setOptions({ start: t.start, end: t.end, ...(t.color ? { color: t.color } : {}) });
+        existing.setContent(createRegionContent(meta));
+      } else {
+        wsRegions.addRegion({
+          id: t.id,
+          start: t.start,
+          end: t.end,
+          color: t.color || DEFAULT_REGION_COLOR,
+          content: createRegionContent(meta),
+          drag: true,
+          resize: true,
+        });
+      }
     });
+    updateUserRegionsList(wsRegions.getRegions());
   };
 
-  const handleTranscribe = async () => {
-    if (!process.env.API_KEY || isTranscribing) {
-      return;
+  /** Brings audio, regions and transcript in line with a snapshot; callers guard history recording */
+  const restoreSnapshot = async (target: EditorSnapshot) => {
+    clearSilencePreview();
+    if (JSON.stringify(target.edits) !== JSON.stringify(edits)) {
+      setIsReady(false);
+      await switchEditedAudio(target.edits, edits);
+      setEdits(target.edits);
     }
-    
-    setIsTranscribing(true);
-    
+    syncRegions(target.regions);
+    setSegmentSelection(null);
+    setTranscriptSegments(target.transcript);
+    renderTranscriptRegions(target.transcript);
+    setActiveRegionId(null);
+  };
+
+  const goToHistory = async (index: number) => {
+    if (isApplyingEdit || index === history.index || index < 0 || index >= history.entries.length) return;
+    const target = history.entries[index].state;
+
+    isRestoringRef.current = true;
+    setIsApplyingEdit(true);
     try {
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-      const base64Data = await fileToBase64(file);
-      
-      const prompt = `请将音频文件转写为简体中文。请务必返回一个纯 JSON 数组。
-      数组中的每个对象应包含以下字段：
-      - "start": 开始时间（秒，浮点数）
-      - "end": 结束时间（秒，浮点数）
-      - "text": 转写的中文文本 (文本不需要太长，尽量按短句切分)
-      
-      请确保时间戳准确。`;
-
-      const response = await ai.models.generateContent({
-        model: 'gemini-2.5-flash',
-        contents: {
-          parts: [
-            {
-              inlineData: {
-                mimeType: file.type || 'audio/mp3',
-                data: base64Data
-              }
-            },
-            { text: prompt }
-          ]
-        },
-        config: {
-          responseMimeType: 'application/json',
-          responseSchema: {
-            type: Type.ARRAY,
-            items: {
-              type: Type.OBJECT,
-              properties: {
-                start: { type: Type.NUMBER },
-                end: { type: Type.NUMBER },
-                text: { type: Type.STRING },
-              },
-              required: ['start', 'end', 'text'],
-            },
-          },
+      await restoreSnapshot(target);
+      setHistory(h => jumpHistory(h, index));
+    } catch (err: any) {
+      console.error("History restore failed", err);
+      window.alert(`恢复历史记录失败: ${err?.message || err}`);
+    } finally {
+      isRestoringRef.current = false;
+      setIsApplyingEdit(false);
+    }
+  };
+
+  const undo = () => goToHistory(history.index - 1);
+  const redo = () => goToHistory(history.index + 1);
+
+  // Re-bound every render so the handler always sees the latest history
+  useEffect(() => {
+    const handleUndoKeys = (e: KeyboardEvent) => {
+      if (!isActive || !(e.ctrlKey || e.metaKey) || isEditable(e.target)) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z') {
+        e.preventDefault();
+        if (e.shiftKey) {
+          redo();
+        } else {
+          undo();
         }
-      });
-      
-      const rawText = response.text || "";
-      const jsonString = rawText.replace(/```json/g, '').replace(/```/g, '').trim();
-      
+      } else if (key === 'y') {
+        e.preventDefault();
+        redo();
+      }
+    };
+    window.addEventListener('keydown', handleUndoKeys);
+    return () => window.removeEventListener('keydown', handleUndoKeys);
+  });
+
+  const buildProject = (): ProjectData | null => {
+    if (!fingerprint) return null;
+    return {
+      version: PROJECT_VERSION,
+      fingerprint,
+      file: {
+        name: file.name,
+        size: file.size,
+        type: file.type,
+        duration: originalBufferRef.current?.duration ?? duration,
+        format: fileFormat ?? undefined,
+        tags: hasTags(tags) ? tags : undefined,
+      },
+      regions: userRegions,
+      transcript: transcriptSegments,
+      edits,
+      view: { zoom },
+      updatedAt: Date.now(),
+    };
+  };
+
+  const applyProject = async (project: ProjectData, label: string, resetHistory: boolean) => {
+    const ws = wavesurferRef.current;
+    if (!ws) return;
+    const snapshot: EditorSnapshot = {
+      regions: project.regions,
+      transcript: project.transcript,
+      edits: project.edits,
+    };
+
+    isRestoringRef.current = true;
+    setIsApplyingEdit(true);
+    try {
+      // Edits are replayed on the full-resolution source, wait for it first
+      if (project.edits.length > 0) {
+        await sourceBufferPromiseRef.current;
+        // Long recordings are streamed and have no source to replay them on
+        if (!originalBufferRef.current) {
+          throw new Error('长录音模式下无法应用项目中的音频编辑 (删除、裁剪、静音等)，项目未加载');
+        }
+      }
+      await restoreSnapshot(snapshot);
+      const nextZoom = Math.max(1, Math.min(1000, project.view.zoom));
+      setZoom(nextZoom);
+      ws.zoom(nextZoom);
+      setHistory(h => resetHistory ? createHistory(label, snapshot) : pushHistory(h, label, snapshot));
+      if (project.file.tags) setTags(project.file.tags);
+    } finally {
+      isRestoringRef.current = false;
+      setIsApplyingEdit(false);
+    }
+  };
+
+  // Restore the autosaved project once the audio is ready, then fall back to transcription
+  useEffect(() => {
+    if (!isReady || !fingerprint || projectLoadStartedRef.current) return;
+    projectLoadStartedRef.current = true;
+
+    (async () => {
+      let project: ProjectData | null = null;
+      // Tags from the file; an autosaved project replaces them with the user's edits
+      setTags(await readTags(file));
       try {
-        const parsed: TranscriptSegment[] = JSON.parse(jsonString);
-        setTranscriptSegments(parsed);
-        renderTranscriptRegions(parsed);
-      } catch (parseError) {
-        console.error("JSON parse error", parseError);
+        project = await loadProject(fingerprint);
+        if (project) await applyProject(project, '恢复项目', true);
+      } catch (err: any) {
+        console.error("Project restore failed", err);
+        window.alert(`恢复项目失败: ${err?.message || err}`);
+        project = null;
+      }
+      setIsProjectLoaded(true);
+      // A restored transcript saves paying for the same transcription again
+      if (enableTranscription && !(project && project.transcript.length > 0)) {
+        handleTranscribe();
+      }
+    })();
+  }, [isReady, fingerprint]);
+
+  // Debounced autosave to IndexedDB
+  useEffect(() => {
+    if (!isProjectLoaded) return;
+    const project = buildProject();
+    if (!project) return;
+    pendingSaveRef.current = project;
+
+    const timer = setTimeout(() => {
+      saveProject(project)
+        .then(() => {
+          if (pendingSaveRef.current === project) pendingSaveRef.current = null;
+          setLastSavedAt(project.updatedAt);
+        })
+        .catch((err) => console.error("Autosave failed", err));
+    }, 1000);
+    return () => clearTimeout(timer);
+  }, [isProjectLoaded, fingerprint, userRegions, transcriptSegments, edits, zoom, tags]);
+
+  useEffect(() => () => {
+    if (pendingSaveRef.current) {
+      saveProject(pendingSaveRef.current).catch((err) => console.error("Autosave failed", err));
+    }
+  }, []);
+
+  const exportProject = () => {
+    const project = buildProject();
+    if (!project) return;
+    const blob = new Blob([serializeProject(project)], { type: 'application/json' });
+    downloadBlob(blob, `${getBaseName(file.name)}${PROJECT_EXTENSION}`);
+  };
+
+  const handleProjectFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const projectFile = e.target.files?.[0];
+    e.target.value = '';
+    if (!projectFile || !fingerprint) return;
+
+    try {
+      const project = parseProject(await projectFile.text());
+      if (
+        project.fingerprint !== fingerprint &&
+        !window.confirm(`该项目文件属于另一个音频文件 (${project.file.name})，时间点可能不匹配。仍要导入吗？`)
+      ) {
+        return;
+      }
+      await applyProject({ ...project, fingerprint }, '导入项目', false);
+    } catch (err: any) {
+      console.error("Project import failed", err);
+      window.alert(`导入失败: ${err?.message || err}`);
+    }
+  };
+
+  /** Shows proposed regions as non-interactive overlays until they are accepted */
+  const renderSilencePreview = (ranges: TimeRange[]) => {
+    const wsRegions = regionsPluginRef.current;
+    if (!wsRegions) return;
+    wsRegions.getRegions()
+      .filter(r => r.id.startsWith('silence-preview-'))
+      .forEach(r => r.remove());
+
+    ranges.forEach((range, idx) => {
+      const r = wsRegions.addRegion({
+        id: `silence-preview-${idx}`,
+        start: range.start,
+        end: range.end,
+        color: 'rgba(16, 185, 129, 0.2)',
+        drag: false,
+        resize: false,
+      });
+      if (r.element) {
+        r.element.style.pointerEvents = 'none';
+        r.element.style.borderLeft = '1px dashed #10b981';
+        r.element.style.borderRight = '1px dashed #10b981';
+      }
+    });
+  };
+
+  const clearSilencePreview = () => {
+    renderSilencePreview([]);
+    setSilenceProposals(null);
+  };
+
+  /**
+   * What silence detection measures: the working audio, so the dBFS threshold
+   * means what it says. Long recordings only have their peak envelope, whose
+   * levels sit above the RMS of the audio; the panel says so.
+   */
+  const getSilenceSource = async (): Promise<AudioBuffer | null> => {
+    // The full-resolution decode may still be running right after opening
+    await sourceBufferPromiseRef.current;
+    return getWorkingBuffer() || getOverviewBuffer();
+  };
+
+  const detectSilence = async () => {
+    if (silenceProgress !== null) return;
+
+    clearSilencePreview();
+    setSilenceProgress(0);
+    try {
+      const buffer = await getSilenceSource();
+      if (!buffer) throw new Error('音频尚未加载');
+      const ranges = await runSilenceDetection(buffer, silenceOptions, setSilenceProgress);
+      setSilenceProposals(ranges);
+      renderSilencePreview(ranges);
+    } catch (err: any) {
+      console.error("Silence detection failed", err);
+      window.alert(`静音检测失败: ${err?.message || err}`);
+    } finally {
+      setSilenceProgress(null);
+    }
+  };
+
+  const acceptSilenceProposals = () => {
+    const proposals = silenceProposals;
+    clearSilencePreview();
+    if (!proposals) return;
+    createUserRegions(proposals, '静音检测分割');
+  };
+
+  /** Splits the whole file at silences without the preview step */
+  const runBatchSilenceSplit = async (command: BatchCommand) => {
+    try {
+      const buffer = await getSilenceSource();
+      if (!buffer) throw new Error('音频尚未加载');
+      const ranges = await runSilenceDetection(buffer, command.options);
+      createUserRegions(ranges, '批量静音分割');
+      onBatchResult({ commandId: command.id, count: ranges.length });
+    } catch (err: any) {
+      console.error("Batch silence split failed", err);
+      onBatchResult({ commandId: command.id, error: err?.message || String(err) });
+    }
+  };
+
+  useEffect(() => {
+    if (!batchCommand || handledBatchRef.current >= batchCommand.id) return;
+    // A file that failed to load never becomes ready; report it instead of leaving the batch waiting
+    if (loadError && !isReady) {
+      handledBatchRef.current = batchCommand.id;
+      onBatchResult({ commandId: batchCommand.id, error: loadError });
+      return;
+    }
+    if (!isReady) return;
+    handledBatchRef.current = batchCommand.id;
+    if (batchCommand.type === 'silenceSplit') runBatchSilenceSplit(batchCommand);
+  }, [batchCommand, isReady, loadError]);
+
+  const editActiveRegion = (type: 'delete' | 'silence' | 'crop') => {
+    const region = regionsPluginRef.current?.getRegions().find(r => r.id === activeRegionId);
+    if (!region || region.end <= region.start) return;
+    performEdit({ type, start: region.start, end: region.end });
+  };
+
+  const insertSilenceAtCursor = (duration: number) => {
+    if (!wavesurferRef.current) return;
+    performEdit({ type: 'insertSilence', at: wavesurferRef.current.getCurrentTime(), duration });
+  };
+
+  const exportFullAudio = async () => {
+    const buffer = getWorkingBuffer();
+    if (!buffer) return;
+    const suffix = edits.length > 0 ? '_edited' : '';
+    try {
+      // Normalize a copy; the working buffer backs playback and editing
+      const output = normalizeOptions.mode === 'off' ? buffer : sliceAudioBuffer(buffer, 0, buffer.duration);
+      if (!output) return;
+      await normalizeForExport(output);
+      setEncodeProgress(0);
+      const blob = await encodeAudio(output, exportOptions, setEncodeProgress, tags);
+      downloadBlob(blob, `${getBaseName(file.name)}${suffix}${EXPORT_EXTENSIONS[exportOptions.format]}`);
+    } catch (err: any) {
+      console.error("Export failed", err);
+      window.alert(`导出失败: ${err?.message || err}`);
+    } finally {
+      setEncodeProgress(null);
+    }
+  };
+
+  const exportMarkers = (format: MarkerFormat) => {
+    if (userRegions.length === 0) return;
+    const blob = new Blob([buildMarkers(userRegions, format, file.name)], { type: MARKER_MIME_TYPES[format] });
+    downloadBlob(blob, `${getBaseName(file.name)}_markers${MARKER_EXTENSIONS[format]}`);
+  };
+
+  /** Adds the entries of a label, CUE, CSV or chapter file as regions */
+  const importMarkers = async (markerFile: File) => {
+    try {
+      const markers = parseMarkers(await markerFile.text(), markerFile.name, {
+        duration,
+        frameRate: timecodeSettings.frameRate,
+      });
+      // Entries past the end of the audio can't become regions
+      const ranges = markers
+        .filter(m => m.start < duration)
+        .map(m => ({ ...m, end: Math.min(m.end, duration) }));
+      if (ranges.length === 0) {
+        window.alert('文件中没有可导入的标记');
+        return;
       }
+      createUserRegions(ranges, '导入标记');
+      if (ranges.length < markers.length) {
+        window.alert(`已导入 ${ranges.length} 个片段，${markers.length - ranges.length} 个超出音频长度的标记已跳过`);
+      }
+    } catch (err: any) {
+      console.error("Marker import failed", err);
+      window.alert(`导入失败: ${err?.message || err}`);
+    }
+  };
+
+  /** Downloads the transcript as subtitles, optionally limited to one clip and named after it */
+  const exportSubtitles = (format: SubtitleFormat, offset: number, regionId: string | null, speakers: boolean) => {
+    const index = userRegions.findIndex(r => r.id === regionId);
+    const region = userRegions[index];
+    const segments = prepareSegments(transcriptSegments, { offset, range: region });
+    if (segments.length === 0) return;
 
+    const baseName = region ? getBaseName(getRegionFileName(region, index)) : getBaseName(file.name);
+    const blob = new Blob([buildSubtitles(segments, format, speakers)], { type: `${SUBTITLE_MIME_TYPES[format]};charset=utf-8` });
+    downloadBlob(blob, `${baseName}.${format}`);
+  };
+
+  const analyzeAllLoudness = async () => {
+    const buffer = getWorkingBuffer();
+    if (!buffer || isAnalyzingLoudness) return;
+    const regions = userRegions;
+    const measuredEdits = edits;
+
+    setIsAnalyzingLoudness(true);
+    try {
+      const result = await analyzeLoudness(buffer, regions.map(({ start, end }) => ({ start, end })));
+      setLoudness({
+        edits: measuredEdits,
+        file: result.file,
+        regions: Object.fromEntries(regions.map((r, i) => [r.id, { start: r.start, end: r.end, stats: result.ranges[i] }])),
+      });
     } catch (err: any) {
+      console.error("Loudness analysis failed", err);
+      window.alert(`响度分析失败: ${err?.message || err}`);
+    } finally {
+      setIsAnalyzingLoudness(false);
+    }
+  };
+
+  /** Measurements still describing the current audio; regions must also keep their bounds */
+  const currentLoudness = loudness && loudness.edits === edits ? loudness : null;
+  const getRegionLoudness = (region: RegionData) => {
+    const entry = currentLoudness?.regions[region.id];
+    return entry && entry.start === region.start && entry.end === region.end ? entry.stats : undefined;
+  };
+
+  const handleTranscribe = async () => {
+    if (isTranscribing) return;
+    const provider = createTranscriptionProvider(transcriptionSettings);
+    const configError = provider.getConfigError();
+    if (configError) {
+      setTranscriptionError(configError);
+      return;
+    }
+
+    const controller = new AbortController();
+    transcriptionAbortRef.current = controller;
+    setIsTranscribing(true);
+    setTranscriptionError(null);
+    setTranscriptionStatus(null);
+
+    try {
+      // Long files go out in chunks cut from the original decode (or decoded range by
+      // range for long recordings); finished chunks are cached per file and settings
+      // so a retry resumes where this run stopped
+      const buffer = await sourceBufferPromiseRef.current;
+      if (controller.signal.aborted) return;
+      const source = buffer ? bufferRangeSource(buffer) : rangeSourceRef.current;
+      let warning: string | null = null;
+      const parsed = await transcribeInChunks(provider, file, source, {
+        language: transcriptionSettings.language,
+        signal: controller.signal,
+        onStatus: setTranscriptionStatus,
+        onWarning: (message) => { warning = message; },
+        cacheKey: fingerprint ? `${fingerprint}|${getTranscriptionCacheKey(transcriptionSettings)}` : undefined,
+      });
+      if (controller.signal.aborted) return;
+      // Timestamps refer to the original file; follow any edits made while waiting
+      const current = mapSegmentsThroughEdits(parsed, editsRef.current);
+      setSegmentSelection(null);
+      // A step of its own, so undo brings back the previous transcript
+      commitTranscript(current, '生成字幕', true);
+      if (warning) window.alert(warning);
+    } catch (err: any) {
+      if (controller.signal.aborted || isAbortError(err)) return;
       console.error("Transcription failed", err);
+      setTranscriptionError(err?.message || String(err));
     } finally {
+      if (transcriptionAbortRef.current === controller) transcriptionAbortRef.current = null;
       setIsTranscribing(false);
+      setTranscriptionStatus(null);
     }
   };
 
+  const startTranscription = () => {
+    if (
+      transcriptSegments.length > 0 &&
+      !window.confirm('重新生成会替换当前字幕 (包括已做的修改)，确定继续吗？')
+    ) {
+      return;
+    }
+    handleTranscribe();
+  };
+
+  const cancelTranscription = () => {
+    transcriptionAbortRef.current?.abort();
+  };
+
   const renderTranscriptRegions = (segments: TranscriptSegment[]) => {
     if (!regionsPluginRef.current) return;
     
@@ -347,8 +1528,11 @@ const WaveformEditor: React.FC<WaveformEditorProps> = ({ file, onClose, isDarkMo
     });
 
     if (!showTranscriptOnWave) return;
+    const filter = activeSpeakerFilter(segments);
+    const speakerColors = getSpeakerColors(getSpeakers(segments));
 
     segments.forEach((seg, idx) => {
+      if (filter !== null && seg.speaker !== filter) return;
       const contentEl = document.createElement('div');
       contentEl.textContent = seg.text;
       contentEl.style.fontSize = '12px';
@@ -364,7 +1548,7 @@ const WaveformEditor: React.FC<WaveformEditorProps> = ({ file, onClose, isDarkMo
         id: `transcript-${idx}`,
         start: seg.start,
         end: seg.end,
-        color: isDarkMode ? 'rgba(255, 255, 255, 0.05)' : 'rgba(0, 0, 0, 0.05)', 
+        color: getTranscriptColor(seg, false, speakerColors),
         drag: false,
         resize: false,
         content: contentEl,
@@ -378,11 +1562,145 @@ const WaveformEditor: React.FC<WaveformEditorProps> = ({ file, onClose, isDarkMo
 
   useEffect(() => {
     renderTranscriptRegions(transcriptSegments);
-  }, [showTranscriptOnWave, isDarkMode]);
+  }, [showTranscriptOnWave, isDarkMode, speakerFilter]);
 
+  /** The filter only applies while its speaker is still in the transcript (undo, renames) */
+  const activeSpeakerFilter = (segments: TranscriptSegment[]) =>
+    speakerFilter !== null && segments.some(s => s.speaker === speakerFilter) ? speakerFilter : null;
+
+  const speakers = getSpeakers(transcriptSegments);
+  const speakerColors = getSpeakerColors(speakers);
+  const speakerCounts = transcriptSegments.reduce<Record<string, number>>((counts, s) => {
+    if (s.speaker) counts[s.speaker] = (counts[s.speaker] || 0) + 1;
+    return counts;
+  }, {});
+
+  const selectedSpan = segmentSelection && {
+    from: Math.min(segmentSelection.anchor, segmentSelection.focus),
+    to: Math.max(segmentSelection.anchor, segmentSelection.focus),
+  };
+  // Boundaries can only be dragged while exactly one line is selected
+  const editableSegment = selectedSpan && selectedSpan.from === selectedSpan.to ? selectedSpan.from : null;
+
+  /** Selection wins over the speaker tint, which wins over the neutral fill */
+  const getTranscriptColor = (segment: TranscriptSegment | undefined, selected: boolean, speakerColors: Record<string, string>) => {
+    if (selected) return 'rgba(245, 158, 11, 0.2)';
+    const speakerColor = segment?.speaker && speakerColors[segment.speaker];
+    if (speakerColor) return hexToRgba(speakerColor, 0.15);
+    return isDarkMode ? 'rgba(255, 255, 255, 0.05)' : 'rgba(0, 0, 0, 0.05)';
+  };
+
+  /** Lets only the selected transcript segment be resized on the waveform */
+  const applyTranscriptSelection = (selected: number | null) => {
+    const speakerColors = getSpeakerColors(getSpeakers(transcriptRef.current));
+    regionsPluginRef.current?.getRegions()
+      .filter(r => r.id.startsWith('transcript-'))
+      .forEach(r => {
+        const isSelected = r.id === `transcript-${selected}`;
+        const segment = transcriptRef.current[Number(r.id.slice('transcript-'.length))];
+        r.setOptions({ resize: isSelected, color: getTranscriptColor(segment, isSelected, speakerColors) });
+        if (r.element) r.element.style.pointerEvents = isSelected ? 'auto' : 'none';
+      });
+  };
+
+  // Runs after the redraw above, and again whenever the segments are redrawn elsewhere
+  useEffect(() => {
+    applyTranscriptSelection(editableSegment);
+  }, [editableSegment, transcriptSegments, showTranscriptOnWave, isDarkMode]);
+
+  /**
+   * Replaces the transcript and records it. Without `redraw` this only touches refs
+   * and setters, so the region drag handler can call it from its stale closure.
+   */
+  const commitTranscript = (next: TranscriptSegment[], label: string, redraw: boolean) => {
+    transcriptRef.current = next;
+    setTranscriptSegments(next);
+    if (redraw) renderTranscriptRegions(next);
+    recordHistory(label, { transcript: next });
+  };
+
+  /** Moves a segment's boundaries and keeps its waveform region in step */
+  const changeSegmentBounds = (index: number, start: number, end: number) => {
+    const next = setSegmentBounds(transcriptRef.current, index, start, end);
+    const segment = next[index];
+    if (!segment) return;
+    const region = regionsPluginRef.current?.getRegions().find(r => r.id === `transcript-${index}`);
+    if (region && (region.start !== segment.start || region.end !== segment.end)) {
+      region.setOptions({ start: segment.start, end: segment.end });
+    }
+    commitTranscript(next, '调整字幕时间', false);
+  };
+
+  const selectSegment = (index: number, extend = false) => {
+    const segment = transcriptSegments[index];
+    if (!segment) return;
+    if (extend && segmentSelection) {
+      setSegmentSelection({ ...segmentSelection, focus: index });
+      return;
+    }
+    setSegmentSelection({ anchor: index, focus: index });
+    wavesurferRef.current?.setTime(segment.start);
+  };
+
+  const createRegionFromSelection = () => {
+    if (!selectedSpan) return;
+    const range = getSegmentSpan(transcriptSegments, selectedSpan.from, selectedSpan.to, transcriptPadding, duration);
+    if (!range) return;
+    const note = transcriptSegments.slice(selectedSpan.from, selectedSpan.to + 1).map(s => s.text).join(' ');
+    createUserRegions([{ ...range, note }], '从字幕创建片段');
+  };
+
+  const createRegionsFromMatches = (matches: TranscriptMatch[]) => {
+    const ranges = matches
+      .map(({ from, to }) => {
+        const range = getSegmentSpan(transcriptSegments, from, to, transcriptPadding, duration);
+        return range && { ...range, note: joinSegmentTexts(transcriptSegments.slice(from, to + 1).map(s => s.text)) };
+      })
+      .filter((r): r is TimeRange & { note: string } => r !== null);
+    createUserRegions(ranges, '从搜索创建片段');
+  };
+
+  const renameTranscriptSpeaker = (from: string, to: string) => {
+    const next = renameSpeaker(transcriptSegments, from, to);
+    if (next === transcriptSegments) return;
+    if (speakerFilter === from) setSpeakerFilter(to.trim());
+    commitTranscript(next, '重命名说话人', true);
+  };
+
+  const createRegionsForSpeaker = (speaker: string) => {
+    createUserRegions(getSpeakerRanges(transcriptSegments, speaker, transcriptPadding, duration), '按说话人创建片段');
+  };
+
+  const splitTranscriptSegment = (index: number, text: string, caret: number) => {
+    const next = splitSegment(setSegmentText(transcriptSegments, index, text), index, caret, wavesurferRef.current?.getCurrentTime());
+    if (next.length === transcriptSegments.length) return;
+    commitTranscript(next, '拆分字幕', true);
+  };
+
+  const mergeTranscriptSegment = (index: number) => {
+    if (index >= transcriptSegments.length - 1) return;
+    setSegmentSelection(null);
+    commitTranscript(mergeWithNext(transcriptSegments, index), '合并字幕', true);
+  };
+
+
+  const timecode: TimecodeOptions = {
+    format: timecodeSettings.format,
+    frameRate: timecodeSettings.frameRate,
+    // Sample-accurate fields need the file's rate, not WaveSurfer's low-rate display copy
+    sampleRate: fileFormat?.sampleRate || getWorkingBuffer()?.sampleRate || 48000,
+  };
+  const nudgeStep = getNudgeStep(timecodeSettings.nudgeUnit, timecode);
+
+  const sideTabClass = (active: boolean) =>
+    `text-sm font-semibold uppercase tracking-wider flex items-center gap-2 px-2 py-1 rounded-md transition-colors ${
+      active
+        ? 'text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-800 shadow-sm'
+        : 'text-gray-400 dark:text-gray-500 hover:text-gray-600 dark:hover:text-gray-300'
+    }`;
 
   return (
-    <div className="flex flex-col h-full bg-white dark:bg-gray-900 rounded-lg overflow-hidden border border-gray-200 dark:border-gray-800 shadow-2xl transition-colors duration-300">
+    <div className="relative flex flex-col h-full bg-white dark:bg-gray-900 rounded-lg overflow-hidden border border-gray-200 dark:border-gray-800 shadow-2xl transition-colors duration-300">
       {/* Top Bar */}
       <div className="flex items-center justify-between p-4 bg-gray-50 dark:bg-gray-850 border-b border-gray-200 dark:border-gray-800 transition-colors duration-300">
         <div className="flex items-center space-x-4 overflow-hidden">
@@ -397,30 +1715,122 @@ const WaveformEditor: React.FC<WaveformEditorProps> = ({ file, onClose, isDarkMo
             <h2 className="text-gray-900 dark:text-white font-semibold truncate max-w-[500px] md:max-w-2xl lg:max-w-4xl" title={file.name}>{file.name}</h2>
             <p className="text-xs text-gray-500 dark:text-gray-400 font-mono">
               {formatTime(currentTime)} / {formatTime(duration)}
+              {fileFormat && (
+                <span className="ml-2 font-sans text-gray-400 dark:text-gray-500">· {describeAudioFormat(fileFormat)}</span>
+              )}
+              {isLongRecordingMode && (
+                <span
+                  className="ml-2 font-sans text-amber-600 dark:text-amber-400"
+                  title="文件较长，为节省内存只加载波形概览，片段按需解码；编辑、整体导出和整体响度分析不可用"
+                >
+                  · 长录音模式
+                </span>
+              )}
+              {lastSavedAt && (
+                <span className="ml-2 font-sans text-gray-400 dark:text-gray-500" title="项目已自动保存到浏览器">
+                  · 已自动保存 {new Date(lastSavedAt).toLocaleTimeString('zh-CN', { hour12: false })}
+                </span>
+              )}
             </p>
           </div>
         </div>
 
         <div className="flex items-center space-x-3 shrink-0 ml-4">
-           {enableTranscription && (
-             <div className={`flex items-center px-3 py-1.5 rounded bg-white dark:bg-gray-800 border transition-colors duration-300 ${isTranscribing ? 'border-indigo-500/50' : 'border-gray-200 dark:border-gray-700'}`}>
-                {isTranscribing ? (
-                  <>
-                    <div className="w-2 h-2 rounded-full bg-indigo-500 animate-pulse mr-2"></div>
-                    <span className="text-xs text-gray-600 dark:text-gray-300">正在生成字幕...</span>
-                  </>
-                ) : transcriptSegments.length > 0 ? (
-                  <>
-                    <Sparkles size={12} className="text-indigo-500 dark:text-indigo-400 mr-2" />
-                    <span className="text-xs text-gray-600 dark:text-gray-400">字幕已加载</span>
-                  </>
-                ) : (
-                  <span className="text-xs text-gray-500">等待字幕</span>
-                )}
-             </div>
-           )}
+           <button
+            onClick={() => projectInputRef.current?.click()}
+            disabled={!isProjectLoaded || isApplyingEdit}
+            className="p-2 text-gray-500 hover:text-gray-900 dark:text-gray-400 dark:hover:text-white bg-white dark:bg-gray-800 border border-gray-200 dark:border-transparent rounded-md transition-colors disabled:opacity-40"
+            title={`导入项目文件 (${PROJECT_EXTENSION})`}
+          >
+            <FolderOpen size={18} />
+          </button>
+          <input
+            ref={projectInputRef}
+            type="file"
+            accept={`${PROJECT_EXTENSION},application/json`}
+            className="hidden"
+            onChange={handleProjectFileChange}
+          />
+          <button
+            onClick={exportProject}
+            disabled={!isProjectLoaded}
+            className="p-2 text-gray-500 hover:text-gray-900 dark:text-gray-400 dark:hover:text-white bg-white dark:bg-gray-800 border border-gray-200 dark:border-transparent rounded-md transition-colors disabled:opacity-40"
+            title={`保存项目文件 (${PROJECT_EXTENSION})`}
+          >
+            <Save size={18} />
+          </button>
+          <button
+            onClick={() => togglePopover('markers')}
+            disabled={!isReady || isApplyingEdit}
+            className={`p-2 rounded-md border transition-colors disabled:opacity-40 ${
+              openPopover === 'markers'
+                ? 'bg-indigo-50 dark:bg-indigo-900/50 text-indigo-600 dark:text-indigo-300 border-indigo-200 dark:border-indigo-800'
+                : 'text-gray-500 hover:text-gray-900 dark:text-gray-400 dark:hover:text-white bg-white dark:bg-gray-800 border-gray-200 dark:border-transparent'
+            }`}
+            title="导入 / 导出标记 (Audacity 标签 / CUE / CSV / 章节)"
+          >
+            <Bookmark size={18} />
+          </button>
+          <button
+            onClick={() => togglePopover('tags')}
+            disabled={!isProjectLoaded}
+            className={`p-2 rounded-md border transition-colors disabled:opacity-40 ${
+              openPopover === 'tags'
+                ? 'bg-indigo-50 dark:bg-indigo-900/50 text-indigo-600 dark:text-indigo-300 border-indigo-200 dark:border-indigo-800'
+                : 'text-gray-500 hover:text-gray-900 dark:text-gray-400 dark:hover:text-white bg-white dark:bg-gray-800 border-gray-200 dark:border-transparent'
+            }`}
+            title="元数据标签 (标题 / 艺术家 / 专辑 / 封面)"
+          >
+            <Tags size={18} />
+          </button>
+          <button
+            onClick={() => togglePopover('spectrum')}
+            className={`p-2 rounded-md border transition-colors ${
+              openPopover === 'spectrum' || (spectrogramSettings.visible && !isLongRecordingMode)
+                ? 'bg-indigo-50 dark:bg-indigo-900/50 text-indigo-600 dark:text-indigo-300 border-indigo-200 dark:border-indigo-800'
+                : 'text-gray-500 hover:text-gray-900 dark:text-gray-400 dark:hover:text-white bg-white dark:bg-gray-800 border-gray-200 dark:border-transparent'
+            }`}
+            title="频谱图 / 频谱分析"
+          >
+            <AudioLines size={18} />
+          </button>
+           <div className="h-6 w-px bg-gray-300 dark:bg-gray-700 mx-2"></div>
+
+           <button
+             onClick={() => togglePopover('transcription')}
+             className={`flex items-center px-3 py-1.5 rounded bg-white dark:bg-gray-800 border transition-colors duration-300 ${
+               isTranscribing
+                 ? 'border-indigo-500/50'
+                 : transcriptionError
+                   ? 'border-red-300 dark:border-red-800'
+                   : 'border-gray-200 dark:border-gray-700 hover:border-gray-300 dark:hover:border-gray-600'
+             }`}
+             title={transcriptionError || 'AI 字幕设置'}
+           >
+              {isTranscribing ? (
+                <>
+                  <div className="w-2 h-2 rounded-full bg-indigo-500 animate-pulse mr-2"></div>
+                  <span className="text-xs text-gray-600 dark:text-gray-300 max-w-[160px] truncate">{transcriptionStatus || '正在生成字幕...'}</span>
+                </>
+              ) : transcriptionError ? (
+                <>
+                  <CircleAlert size={12} className="text-red-500 mr-2" />
+                  <span className="text-xs text-red-600 dark:text-red-400">字幕生成失败</span>
+                </>
+              ) : transcriptSegments.length > 0 ? (
+                <>
+                  <Sparkles size={12} className="text-indigo-500 dark:text-indigo-400 mr-2" />
+                  <span className="text-xs text-gray-600 dark:text-gray-400">字幕已加载</span>
+                </>
+              ) : (
+                <>
+                  <Sparkles size={12} className="text-gray-400 mr-2" />
+                  <span className="text-xs text-gray-500">{enableTranscription && !isProjectLoaded ? '等待字幕' : '生成字幕'}</span>
+                </>
+              )}
+           </button>
 
-           {enableTranscription && transcriptSegments.length > 0 && (
+           {transcriptSegments.length > 0 && (
              <button
                onClick={() => setShowTranscriptOnWave(!showTranscriptOnWave)}
                className={`p-2 rounded-md flex items-center gap-2 text-xs font-medium border transition-colors duration-300 ${
@@ -433,7 +1843,49 @@ const WaveformEditor: React.FC<WaveformEditorProps> = ({ file, onClose, isDarkMo
                {showTranscriptOnWave ? <Eye size={16} /> : <EyeOff size={16} />}
              </button>
            )}
+           {transcriptSegments.length > 0 && (
+             <button
+               onClick={() => togglePopover('subtitles')}
+               className={`p-2 rounded-md border transition-colors ${
+                 openPopover === 'subtitles'
+                   ? 'bg-indigo-50 dark:bg-indigo-900/50 text-indigo-600 dark:text-indigo-300 border-indigo-200 dark:border-indigo-800'
+                   : 'text-gray-500 hover:text-gray-900 dark:text-gray-400 dark:hover:text-white bg-white dark:bg-gray-800 border-gray-200 dark:border-gray-700'
+               }`}
+               title="导出字幕 (SRT / WebVTT / LRC / 文本)"
+             >
+               <Captions size={16} />
+             </button>
+           )}
            
+           <div className="h-6 w-px bg-gray-300 dark:bg-gray-700 mx-2"></div>
+           <button
+            onClick={undo}
+            disabled={!canUndo(history) || isApplyingEdit}
+            className="p-2 text-gray-500 hover:text-gray-900 dark:text-gray-400 dark:hover:text-white bg-white dark:bg-gray-800 border border-gray-200 dark:border-transparent rounded-md transition-colors disabled:opacity-40"
+            title="撤销 (Ctrl+Z)"
+          >
+            <Undo2 size={18} />
+          </button>
+          <button
+            onClick={redo}
+            disabled={!canRedo(history) || isApplyingEdit}
+            className="p-2 text-gray-500 hover:text-gray-900 dark:text-gray-400 dark:hover:text-white bg-white dark:bg-gray-800 border border-gray-200 dark:border-transparent rounded-md transition-colors disabled:opacity-40"
+            title="重做 (Ctrl+Shift+Z)"
+          >
+            <Redo2 size={18} />
+          </button>
+          <button
+            onClick={() => togglePopover('history')}
+            className={`p-2 rounded-md border transition-colors ${
+              openPopover === 'history'
+                ? 'bg-indigo-50 dark:bg-indigo-900/50 text-indigo-600 dark:text-indigo-300 border-indigo-200 dark:border-indigo-800'
+                : 'text-gray-500 hover:text-gray-900 dark:text-gray-400 dark:hover:text-white bg-white dark:bg-gray-800 border-gray-200 dark:border-transparent'
+            }`}
+            title="操作历史"
+          >
+            <History size={18} />
+          </button>
+
            <div className="h-6 w-px bg-gray-300 dark:bg-gray-700 mx-2"></div>
            <button 
             onClick={() => handleZoom(-10)} 
@@ -453,13 +1905,102 @@ const WaveformEditor: React.FC<WaveformEditorProps> = ({ file, onClose, isDarkMo
         </div>
       </div>
 
+      {openPopover === 'history' && (
+        <HistoryPanel
+          entries={history.entries}
+          index={history.index}
+          onJump={goToHistory}
+          onUndo={undo}
+          onRedo={redo}
+          onClose={() => setOpenPopover(null)}
+        />
+      )}
+
+      {openPopover === 'transcription' && (
+        <TranscriptionPanel
+          settings={transcriptionSettings}
+          onChange={setTranscriptionSettings}
+          isTranscribing={isTranscribing}
+          status={transcriptionStatus}
+          error={transcriptionError}
+          hasTranscript={transcriptSegments.length > 0}
+          onStart={startTranscription}
+          onCancel={cancelTranscription}
+          onClose={() => setOpenPopover(null)}
+        />
+      )}
+
+      {openPopover === 'subtitles' && transcriptSegments.length > 0 && (
+        <SubtitleExportPanel
+          regions={userRegions}
+          activeRegionId={activeRegionId}
+          segments={transcriptSegments}
+          onExport={exportSubtitles}
+          onClose={() => setOpenPopover(null)}
+        />
+      )}
+
+      {openPopover === 'markers' && (
+        <MarkerPanel
+          regionCount={userRegions.length}
+          onExport={exportMarkers}
+          onImport={importMarkers}
+          onClose={() => setOpenPopover(null)}
+        />
+      )}
+
+      {openPopover === 'spectrum' && (
+        <SpectrumPanel
+          settings={spectrogramSettings}
+          onChange={setSpectrogramSettings}
+          laneUnavailable={isLongRecordingMode ? '长录音模式下只有波形概览，无法绘制频谱图' : null}
+          analyser={analyser}
+          isPlaying={isPlaying}
+          regionSpectrum={regionSpectrum}
+          isDarkMode={isDarkMode}
+          onClose={() => setOpenPopover(null)}
+        />
+      )}
+
+      {openPopover === 'tags' && (
+        <TagPanel
+          tags={tags}
+          onChange={setTags}
+          clipSettings={clipTagSettings}
+          onClipSettingsChange={setClipTagSettings}
+          onClose={() => setOpenPopover(null)}
+        />
+      )}
+
       {/* Main Content */}
       <div className="flex-1 flex flex-col relative">
         {/* Waveform Area */}
         <div className="relative bg-gray-50 dark:bg-gray-950 p-6 min-h-[240px] flex flex-col justify-center border-b border-gray-200 dark:border-gray-800 transition-colors duration-300">
           {!isReady && (
             <div className="absolute inset-0 flex items-center justify-center z-10 bg-white/80 dark:bg-gray-950/80 backdrop-blur-sm">
-              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-indigo-500"></div>
+              {loadError ? (
+                <div className="flex flex-col items-center gap-2 max-w-md px-4 text-center">
+                  <CircleAlert size={28} className="text-red-500" />
+                  <p className="text-sm font-medium text-gray-800 dark:text-gray-200">无法打开此文件</p>
+                  <p className="text-xs text-gray-500 dark:text-gray-400">{loadError}</p>
+                  {fileFormat && (
+                    <p className="text-xs font-mono text-gray-400 dark:text-gray-500">{describeAudioFormat(fileFormat)}</p>
+                  )}
+                  <button
+                    onClick={onClose}
+                    className="mt-2 px-3 py-1.5 text-xs font-medium rounded-md border border-gray-200 dark:border-gray-700 text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors"
+                  >
+                    关闭文件
+                  </button>
+                </div>
+              ) : (
+                <div className="flex flex-col items-center gap-3">
+                  <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-indigo-500"></div>
+                  {peaksProgress !== null && (
+                    <span className="text-xs text-gray-500 dark:text-gray-400">正在生成波形 {Math.round(peaksProgress * 100)}%</span>
+                  )}
+                </div>
+              )}
             </div>
           )}
           <div ref={containerRef} className="w-full" />
@@ -473,7 +2014,7 @@ const WaveformEditor: React.FC<WaveformEditorProps> = ({ file, onClose, isDarkMo
         {/* Controls & Sidebar Split */}
         <div className="flex-1 flex overflow-hidden">
           {/* Left: Playback Controls */}
-          <div className="w-1/3 border-r border-gray-200 dark:border-gray-800 p-6 bg-white dark:bg-gray-900 flex flex-col items-center justify-center space-y-6 transition-colors duration-300">
+          <div className="w-1/3 border-r border-gray-200 dark:border-gray-800 p-6 bg-white dark:bg-gray-900 flex flex-col items-center justify-start space-y-6 overflow-y-auto transition-colors duration-300">
             <div className="flex items-center space-x-6">
               <button
                 onClick={handlePlayPause}
@@ -499,6 +2040,31 @@ const WaveformEditor: React.FC<WaveformEditorProps> = ({ file, onClose, isDarkMo
               </p>
             </div>
 
+            <SnapSettings value={snapSettings} onChange={setSnapSettings} />
+
+            <SilenceDetectPanel
+              options={silenceOptions}
+              onChange={setSilenceOptions}
+              disabled={!isReady || isApplyingEdit}
+              approximate={isLongRecordingMode}
+              progress={silenceProgress}
+              proposalCount={silenceProposals ? silenceProposals.length : null}
+              onDetect={detectSilence}
+              onAccept={acceptSilenceProposals}
+              onCancel={clearSilencePreview}
+            />
+
+            <EditToolbar
+              disabled={!isReady || !hasSourceBuffer || isApplyingEdit}
+              hasSelection={!!activeRegionId}
+              edits={edits}
+              onDelete={() => editActiveRegion('delete')}
+              onSilence={() => editActiveRegion('silence')}
+              onCrop={() => editActiveRegion('crop')}
+              onInsertSilence={insertSilenceAtCursor}
+              onExportFull={exportFullAudio}
+            />
+
             <div className="mt-4 p-4 bg-gray-50 dark:bg-gray-850 rounded-lg border border-gray-200 dark:border-gray-800 text-xs text-gray-500 dark:text-gray-400 space-y-2 w-full max-w-[240px] transition-colors duration-300">
               <p className="font-semibold text-gray-700 dark:text-gray-300 mb-1">操作指南:</p>
               <div className="flex justify-between">
@@ -519,82 +2085,147 @@ const WaveformEditor: React.FC<WaveformEditorProps> = ({ file, onClose, isDarkMo
           {/* Right: Clip List */}
           <div className="w-2/3 bg-white dark:bg-gray-900 flex flex-col transition-colors duration-300">
              <div className="p-4 border-b border-gray-200 dark:border-gray-800 flex justify-between items-center bg-gray-50 dark:bg-gray-850 transition-colors duration-300">
-                <h3 className="text-sm font-semibold text-gray-700 dark:text-gray-300 uppercase tracking-wider flex items-center gap-2">
-                  <Volume2 size={16} />
-                  剪辑列表
-                </h3>
-                <span className="bg-gray-200 dark:bg-gray-800 text-gray-600 dark:text-gray-400 text-xs px-2 py-1 rounded-full">
-                  {userRegions.length} 个片段
-                </span>
-             </div>
-             
-             <div className="flex-1 overflow-y-auto p-4 space-y-3">
-                {userRegions.length === 0 ? (
-                  <div className="h-full flex flex-col items-center justify-center text-gray-400 dark:text-gray-600">
-                    <Scissors size={48} className="mb-4 opacity-20" />
-                    <p className="text-gray-500 dark:text-gray-500">暂无剪辑区域</p>
-                    <p className="text-xs mt-2 text-center max-w-xs text-gray-400 dark:text-gray-500">
-                       点击左侧“标记”按钮<br/>或在波形图上按住鼠标左键拖拽
-                    </p>
-                  </div>
+                <div className="flex items-center gap-1">
+                  <button onClick={() => setSidePanel('clips')} className={sideTabClass(sidePanel === 'clips')}>
+                    <Volume2 size={16} />
+                    剪辑列表
+                  </button>
+                  <button onClick={() => setSidePanel('transcript')} className={sideTabClass(sidePanel === 'transcript')}>
+                    <FileText size={16} />
+                    字幕文本
+                  </button>
+                </div>
+                {sidePanel === 'transcript' ? (
+                  <span className="bg-gray-200 dark:bg-gray-800 text-gray-600 dark:text-gray-400 text-xs px-2 py-1 rounded-full">
+                    {transcriptSegments.length} 句
+                  </span>
                 ) : (
-                  userRegions.map((region, idx) => (
-                    <div 
-                      key={region.id}
-                      className={`group flex items-center justify-between p-3 rounded-lg border transition-all ${
-                        activeRegionId === region.id 
-                          ? 'bg-indigo-50 dark:bg-indigo-900/20 border-indigo-200 dark:border-indigo-500/50' 
-                          : 'bg-white dark:bg-gray-800 border-gray-200 dark:border-gray-700 hover:border-gray-300 dark:hover:border-gray-600'
-                      }`}
-                      onClick={() => {
-                        setActiveRegionId(region.id);
-                        if (wavesurferRef.current) {
-                           wavesurferRef.current.setTime(region.start);
-                           wavesurferRef.current.pause();
-                        }
-                      }}
+                  <div className="flex items-center space-x-2">
+                    <span className="bg-gray-200 dark:bg-gray-800 text-gray-600 dark:text-gray-400 text-xs px-2 py-1 rounded-full">
+                      {userRegions.length} 个片段
+                    </span>
+                    <button
+                      onClick={exportAllRegions}
+                      disabled={userRegions.length === 0 || isExportingAll}
+                      className="flex items-center gap-1.5 px-3 py-1 text-xs font-medium text-indigo-600 dark:text-indigo-300 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 hover:bg-indigo-50 dark:hover:bg-indigo-900/30 rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                      title="将全部片段打包为 ZIP 导出 (含清单)"
                     >
-                      <div className="flex items-center space-x-4">
-                        <div className="flex items-center justify-center w-8 h-8 rounded-full bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300 text-sm font-bold font-mono">
-                          {idx + 1}
-                        </div>
-                        <div>
-                          <div className="text-sm font-medium text-gray-900 dark:text-gray-200">
-                             片段 {String(idx + 1).padStart(2, '0')}
-                          </div>
-                          <div className="text-xs text-gray-500 dark:text-gray-400 font-mono mt-1">
-                            {formatTime(region.start)} - {formatTime(region.end)}
-                          </div>
-                        </div>
-                      </div>
-
-                      <div className="flex items-center space-x-2 opacity-100 sm:opacity-0 sm:group-hover:opacity-100 transition-opacity">
-                        <button
-                          onClick={(e) => { e.stopPropagation(); playRegion(region.id); }}
-                          className="p-2 text-gray-500 hover:text-gray-900 dark:text-gray-400 dark:hover:text-white hover:bg-gray-100 dark:hover:bg-gray-700 rounded-md"
-                          title="预览播放"
-                        >
-                          <Play size={16} />
-                        </button>
-                        <button
-                          onClick={(e) => { e.stopPropagation(); exportRegion(region.id, idx); }}
-                          className="p-2 text-indigo-500 hover:text-indigo-600 dark:text-indigo-400 dark:hover:text-indigo-300 hover:bg-indigo-50 dark:hover:bg-indigo-900/30 rounded-md"
-                          title="导出 WAV"
-                        >
-                          <Download size={16} />
-                        </button>
-                        <button
-                          onClick={(e) => { e.stopPropagation(); removeRegion(region.id); }}
-                          className="p-2 text-red-500 hover:text-red-600 dark:text-red-400 dark:hover:text-red-300 hover:bg-red-50 dark:hover:bg-red-900/30 rounded-md"
-                          title="删除"
-                        >
-                          <Trash2 size={16} />
-                        </button>
-                      </div>
-                    </div>
-                  ))
+                      <FileArchive size={14} />
+                      <span>{isExportingAll ? '打包中...' : '导出全部'}</span>
+                    </button>
+                    <button
+                      onClick={() => addRegionsToReel(userRegions)}
+                      disabled={userRegions.length === 0}
+                      className="flex items-center gap-1.5 px-3 py-1 text-xs font-medium text-indigo-600 dark:text-indigo-300 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 hover:bg-indigo-50 dark:hover:bg-indigo-900/30 rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                      title="将全部片段加入合并导出列表，可与其他文件的片段一起排序、合并为一个 WAV"
+                    >
+                      <Merge size={14} />
+                      <span>合并导出</span>
+                    </button>
+                  </div>
                 )}
              </div>
+
+             {sidePanel === 'transcript' ? (
+               <>
+                 <TimecodeSettings value={timecodeSettings} onChange={setTimecodeSettings} />
+                 <TranscriptSearch
+                   segments={transcriptSegments}
+                   timecode={timecode}
+                   padding={transcriptPadding}
+                   onPaddingChange={setTranscriptPadding}
+                   selectionCount={selectedSpan ? selectedSpan.to - selectedSpan.from + 1 : 0}
+                   onCreateFromSelection={createRegionFromSelection}
+                   onJump={selectSegment}
+                   onCreateFromMatches={createRegionsFromMatches}
+                 />
+                 <SpeakerPanel
+                   speakers={speakers}
+                   colors={speakerColors}
+                   counts={speakerCounts}
+                   filter={activeSpeakerFilter(transcriptSegments)}
+                   onFilterChange={setSpeakerFilter}
+                   onRename={renameTranscriptSpeaker}
+                   onCreateRegions={createRegionsForSpeaker}
+                 />
+                 <div className="flex-1 overflow-y-auto p-4">
+                   <TranscriptPanel
+                     segments={transcriptSegments}
+                     currentTime={currentTime}
+                     selection={selectedSpan}
+                     timecode={timecode}
+                     nudgeStep={nudgeStep}
+                     maxTime={duration}
+                     speakerColors={speakerColors}
+                     speakerFilter={activeSpeakerFilter(transcriptSegments)}
+                     onSelect={selectSegment}
+                     onTextChange={(index, text) => commitTranscript(setSegmentText(transcriptSegments, index, text), '编辑字幕', true)}
+                     onBoundsChange={changeSegmentBounds}
+                     onSplit={splitTranscriptSegment}
+                     onMerge={mergeTranscriptSegment}
+                   />
+                 </div>
+               </>
+             ) : (
+               <>
+                 <ExportSettings
+                   options={exportOptions}
+                   onChange={setExportOptions}
+                   normalize={normalizeOptions}
+                   onNormalizeChange={setNormalizeOptions}
+                   progress={encodeProgress}
+                 />
+                 <LoudnessBar
+                   stats={currentLoudness?.file || null}
+                   isAnalyzing={isAnalyzingLoudness}
+                   disabled={!isReady || isApplyingEdit || isLongRecordingMode}
+                   onAnalyze={analyzeAllLoudness}
+                 />
+                 <TimecodeSettings value={timecodeSettings} onChange={setTimecodeSettings} />
+             
+                 <div className="flex-1 overflow-y-auto p-4 space-y-3">
+                    {userRegions.length === 0 ? (
+                      <div className="h-full flex flex-col items-center justify-center text-gray-400 dark:text-gray-600">
+                        <Scissors size={48} className="mb-4 opacity-20" />
+                        <p className="text-gray-500 dark:text-gray-500">暂无剪辑区域</p>
+                        <p className="text-xs mt-2 text-center max-w-xs text-gray-400 dark:text-gray-500">
+                           点击左侧“标记”按钮<br/>或在波形图上按住鼠标左键拖拽
+                        </p>
+                      </div>
+                    ) : (
+                      userRegions.map((region, idx) => (
+                        <RegionListItem
+                          key={region.id}
+                          region={region}
+                          index={idx}
+                          isActive={activeRegionId === region.id}
+                          onSelect={() => {
+                            setActiveRegionId(region.id);
+                            if (wavesurferRef.current) {
+                               wavesurferRef.current.setTime(region.start);
+                               wavesurferRef.current.pause();
+                            }
+                          }}
+                          onPlay={() => playRegion(region.id)}
+                          onExport={() => exportRegion(region.id)}
+                          onAddToReel={() => addRegionsToReel([region])}
+                          onRemove={() => removeRegion(region.id)}
+                          onRename={(label) => updateRegionMeta(region.id, { label }, '重命名片段')}
+                          onColorChange={(hex, commit) => setRegionColor(region.id, hex, commit)}
+                          onNoteChange={(note) => updateRegionMeta(region.id, { note: note || undefined }, '编辑备注')}
+                          onBoundsChange={(start, end) => setRegionBounds(region.id, start, end)}
+                          onFadeChange={(patch) => updateRegionMeta(region.id, patch, '调整淡入淡出')}
+                          timecode={timecode}
+                          nudgeStep={nudgeStep}
+                          maxTime={duration}
+                          loudness={getRegionLoudness(region)}
+                          exportFormat={describeExportFormat(exportOptions)}
+                        />
+                      ))
+                    )}
+                 </div>
+               </>
+             )}
           </div>
         </div>
       </div>
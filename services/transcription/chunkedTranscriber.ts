@@ -0,0 +1,131 @@
+import { TimeRange, TranscriptSegment } from '../../types';
+import { audioBufferToWav } from '../../utils/audioUtils';
+import { AudioRangeSource } from '../../utils/audioStream';
+import { loadTranscriptChunk, saveTranscriptChunk } from '../../utils/projectStore';
+import { TranscriptionProvider, TranscribeOptions, createAbortError, isAbortError } from './provider';
+import { buildSpeakerContext, planChunks, stitchChunks, ChunkResult } from './chunking';
+
+/** Speech models work at 16 kHz mono; sending chunks at that rate keeps uploads small */
+const CHUNK_SAMPLE_RATE = 16000;
+
+export interface ChunkedTranscribeOptions extends TranscribeOptions {
+  /**
+   * Identifies the file and engine settings. Finished chunks are cached under it,
+   * so a retry after a failure or cancel only transcribes what is missing.
+   */
+  cacheKey?: string;
+  /** Something the user should know about the finished transcript */
+  onWarning?: (message: string) => void;
+}
+
+/**
+ * Renders one chunk as 16 kHz mono 16-bit WAV
+ */
+async function encodeChunk(source: AudioRangeSource, range: TimeRange): Promise<Blob> {
+  const slice = await source.read(range.start, range.end);
+  if (!slice) throw new Error('音频分段为空');
+  const ctx = new OfflineAudioContext(1, Math.max(1, Math.ceil(slice.duration * CHUNK_SAMPLE_RATE)), CHUNK_SAMPLE_RATE);
+  const node = ctx.createBufferSource();
+  node.buffer = slice;
+  node.connect(ctx.destination);
+  node.start();
+  return audioBufferToWav(await ctx.startRendering(), { format: 'pcm16' });
+}
+
+const chunkKey = (cacheKey: string, range: TimeRange, withContext: boolean) =>
+  `${cacheKey}|${range.start.toFixed(3)}-${range.end.toFixed(3)}${withContext ? '|speakers' : ''}`;
+
+/**
+ * Transcribes a long file in overlapping chunks, `provider.concurrency` at a time,
+ * and stitches the results into one timeline. Chunks are read from `source` as
+ * they are needed, so a long recording never has to be decoded whole. Short
+ * files, or files without a `source`, are sent to the provider whole.
+ *
+ * Engines label speakers per request. Providers that accept a SpeakerContext get
+ * their chunks one at a time, each told the speakers found so far, so labels
+ * carry over; for the others the user is warned when labels may not match
+ * across chunks.
+ */
+export async function transcribeInChunks(
+  provider: TranscriptionProvider,
+  file: Blob,
+  source: AudioRangeSource | null,
+  { cacheKey, onWarning, ...options }: ChunkedTranscribeOptions
+): Promise<TranscriptSegment[]> {
+  const chunks = source ? planChunks(source.duration) : [];
+  if (!source || chunks.length <= 1) {
+    return provider.transcribe(file, options);
+  }
+
+  const { signal, onStatus } = options;
+  const withContext = !!provider.acceptsSpeakerContext;
+  const results: (ChunkResult | null)[] = chunks.map(() => null);
+  let done = 0;
+  const report = (detail?: string) =>
+    onStatus?.(`正在生成字幕 (${done}/${chunks.length})${detail ? ` · ${detail}` : ''}`);
+
+  // Reuse chunks finished by an earlier, interrupted run
+  if (cacheKey) {
+    await Promise.all(chunks.map(async (range, i) => {
+      try {
+        const cached = await loadTranscriptChunk(chunkKey(cacheKey, range, withContext));
+        if (cached) {
+          results[i] = { range, segments: cached.segments };
+          done++;
+        }
+      } catch (err) {
+        console.warn("Reading cached transcript chunk failed", err);
+      }
+    }));
+  }
+  report();
+
+  const pending = chunks.map((_, i) => i).filter(i => !results[i]);
+  let failure: unknown = null;
+
+  const transcribeChunk = async (i: number) => {
+    const range = chunks[i];
+    const audio = await encodeChunk(source, range);
+    if (signal?.aborted) throw createAbortError();
+    const previous = results.slice(0, i).filter((r): r is ChunkResult => !!r);
+    const segments = await provider.transcribe(audio, {
+      ...options,
+      onStatus: (message) => report(`第 ${i + 1} 段: ${message}`),
+      ...(withContext && previous.length > 0 ? { speakerContext: buildSpeakerContext(previous, range) } : {}),
+    });
+    results[i] = { range, segments };
+    done++;
+    report();
+    if (cacheKey) {
+      saveTranscriptChunk({ key: chunkKey(cacheKey, range, withContext), segments, createdAt: Date.now() })
+        .catch(err => console.warn("Caching transcript chunk failed", err));
+    }
+  };
+
+  // A failing chunk stops new ones from starting; those already running finish and are cached
+  const runWorker = async () => {
+    while (!failure && pending.length > 0) {
+      const index = pending.shift()!;
+      try {
+        await transcribeChunk(index);
+      } catch (err) {
+        failure ??= err;
+      }
+    }
+  };
+  // Each chunk needs the speakers of the ones before it when context is passed on
+  const workers = withContext ? 1 : Math.max(1, provider.concurrency);
+  await Promise.all(Array.from({ length: workers }, runWorker));
+
+  if (failure) {
+    if (isAbortError(failure) || !cacheKey || done === 0) throw failure;
+    const message = failure instanceof Error ? failure.message : String(failure);
+    throw new Error(`${message} (已完成 ${done}/${chunks.length} 段，重试时将从未完成的分段继续)`);
+  }
+
+  const stitched = stitchChunks(results as ChunkResult[]);
+  if (!withContext && stitched.some(s => s.speaker)) {
+    onWarning?.(`该转写服务在每段 (约 ${Math.round(chunks[0].end / 60)} 分钟) 中单独标注说话人，不同分段里的同一标签可能不是同一个人，请核对说话人后再按说话人创建片段`);
+  }
+  return stitched;
+}
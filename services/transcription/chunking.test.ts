@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { buildSpeakerContext, ChunkResult, planChunks, stitchChunks } from './chunking';
+
+describe('planChunks', () => {
+  it('keeps audio that fits one chunk whole', () => {
+    expect(planChunks(183)).toEqual([{ start: 0, end: 183 }]);
+  });
+
+  it('cuts longer audio into chunks sharing the overlap', () => {
+    expect(planChunks(400)).toEqual([
+      { start: 0, end: 180 },
+      { start: 176, end: 356 },
+      { start: 352, end: 400 },
+    ]);
+  });
+});
+
+describe('stitchChunks', () => {
+  it('keeps a line heard in both chunks once, placed on the full timeline', () => {
+    const results: ChunkResult[] = [
+      { range: { start: 0, end: 180 }, segments: [{ start: 170, end: 178, text: 'shared line' }] },
+      { range: { start: 176, end: 356 }, segments: [{ start: 0, end: 2, text: 'shared' }, { start: 5, end: 9, text: 'next' }] },
+    ];
+    expect(stitchChunks(results)).toEqual([
+      { start: 170, end: 178, text: 'shared line' },
+      { start: 181, end: 185, text: 'next' },
+    ]);
+  });
+});
+
+describe('buildSpeakerContext', () => {
+  const previous: ChunkResult[] = [
+    {
+      range: { start: 0, end: 180 },
+      segments: [
+        { start: 1, end: 4, text: 'Welcome to the show', speaker: '说话人 1' },
+        { start: 5, end: 8, text: 'Thanks', speaker: '说话人 2' },
+        { start: 9, end: 12, text: 'no label' },
+        { start: 150, end: 160, text: 'Tell us about the project', speaker: '说话人 1' },
+        { start: 161, end: 175, text: 'It started three years ago', speaker: '说话人 2' },
+      ],
+    },
+  ];
+
+  it('lists every speaker in order of appearance with their longest line', () => {
+    expect(buildSpeakerContext(previous, { start: 176, end: 356 }).speakers).toEqual([
+      { speaker: '说话人 1', sample: 'Tell us about the project' },
+      { speaker: '说话人 2', sample: 'It started three years ago' },
+    ]);
+  });
+
+  it('passes on the labelled lines just before the next chunk', () => {
+    expect(buildSpeakerContext(previous, { start: 176, end: 356 }).recent).toEqual([
+      { speaker: '说话人 1', text: 'Tell us about the project' },
+      { speaker: '说话人 2', text: 'It started three years ago' },
+    ]);
+  });
+
+  it('is empty when nobody was labelled', () => {
+    const unlabelled: ChunkResult[] = [{ range: { start: 0, end: 180 }, segments: [{ start: 0, end: 2, text: 'hi' }] }];
+    expect(buildSpeakerContext(unlabelled, { start: 176, end: 356 })).toEqual({ speakers: [], recent: [] });
+  });
+});
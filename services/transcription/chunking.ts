@@ -0,0 +1,130 @@
+import { TimeRange, TranscriptSegment } from '../../types';
+import { SpeakerContext } from './provider';
+
+/** Chunk length and the overlap shared by neighbouring chunks, in seconds */
+export const CHUNK_LENGTH = 180;
+export const CHUNK_OVERLAP = 4;
+
+export interface ChunkResult {
+  range: TimeRange;
+  /** Times relative to `range.start` */
+  segments: TranscriptSegment[];
+}
+
+/**
+ * Cuts the timeline into chunks that overlap by `overlap` seconds. Audio that
+ * fits in one chunk (plus the overlap) is not split.
+ */
+export function planChunks(duration: number, length = CHUNK_LENGTH, overlap = CHUNK_OVERLAP): TimeRange[] {
+  if (duration <= length + overlap) return [{ start: 0, end: duration }];
+  const chunks: TimeRange[] = [];
+  for (let start = 0; start < duration - overlap; start += length - overlap) {
+    chunks.push({ start, end: Math.min(duration, start + length) });
+  }
+  return chunks;
+}
+
+// Segments this close to an inner chunk edge were probably cut off mid-sentence
+const EDGE_TOLERANCE = 0.25;
+
+const normalizeText = (text: string) => text.toLowerCase().replace(/[\s\p{P}]/gu, '');
+
+interface Candidate {
+  segment: TranscriptSegment;
+  chunk: number;
+  /** Touches an edge shared with a neighbouring chunk */
+  truncated: boolean;
+}
+
+const overlaps = (a: TranscriptSegment, b: TranscriptSegment) => a.start < b.end && b.start < a.end;
+const length = (s: TranscriptSegment) => s.end - s.start;
+
+/**
+ * Places chunk results on the full timeline and resolves the overlaps:
+ * - a line cut off at a chunk edge gives way to the neighbour's version of it
+ * - when both chunks heard a line whole, the chunk owning its midpoint (the
+ *   overlap is split at its middle) keeps it
+ * - lines still repeated across the cut are kept once, with the longer text
+ */
+export function stitchChunks(results: ChunkResult[]): TranscriptSegment[] {
+  const candidates: Candidate[][] = results.map(({ range, segments }, i) =>
+    segments
+      .map(s => ({
+        segment: { ...s, start: range.start + s.start, end: Math.min(range.end, range.start + s.end) },
+        chunk: i,
+        truncated:
+          (i > 0 && s.start <= EDGE_TOLERANCE) ||
+          (i < results.length - 1 && range.start + s.end >= range.end - EDGE_TOLERANCE),
+      }))
+      .filter(c => c.segment.end > c.segment.start)
+  );
+
+  const kept: TranscriptSegment[] = [];
+  candidates.forEach((list, i) => {
+    const prev = results[i - 1];
+    const next = results[i + 1];
+    const range = results[i].range;
+    const from = prev ? (range.start + prev.range.end) / 2 : -Infinity;
+    const to = next ? (next.range.start + range.end) / 2 : Infinity;
+    const neighbours = [...(candidates[i - 1] || []), ...(candidates[i + 1] || [])];
+
+    list.forEach(c => {
+      const rivals = neighbours.filter(o => overlaps(o.segment, c.segment));
+      const wholeRivals = rivals.filter(o => !o.truncated);
+      if (c.truncated) {
+        if (wholeRivals.length > 0) return;
+        const longer = rivals.some(o => length(o.segment) > length(c.segment) || (length(o.segment) === length(c.segment) && o.chunk < i));
+        if (longer) return;
+      } else if (wholeRivals.length > 0) {
+        const mid = (c.segment.start + c.segment.end) / 2;
+        if (mid < from || mid >= to) return;
+      }
+      kept.push(c.segment);
+    });
+  });
+
+  kept.sort((a, b) => a.start - b.start);
+  const stitched: TranscriptSegment[] = [];
+  kept.forEach(s => {
+    const last = stitched[stitched.length - 1];
+    if (last && overlaps(last, s)) {
+      const a = normalizeText(last.text);
+      const b = normalizeText(s.text);
+      if (a && b && (a.includes(b) || b.includes(a))) {
+        stitched[stitched.length - 1] = {
+          ...(b.length > a.length ? s : last),
+          start: Math.min(last.start, s.start),
+          end: Math.max(last.end, s.end),
+        };
+        return;
+      }
+    }
+    stitched.push(s);
+  });
+  return stitched;
+}
+
+// How far back before a chunk the recent lines of a SpeakerContext reach, and how many there are at most
+const CONTEXT_SECONDS = 30;
+const CONTEXT_LINES = 8;
+const SAMPLE_LENGTH = 80;
+
+/**
+ * Speakers found in the chunks before `next`, for the provider to keep their
+ * labels. Each speaker's sample is the longest line they said.
+ */
+export function buildSpeakerContext(previous: ChunkResult[], next: TimeRange): SpeakerContext {
+  const lines = stitchChunks(previous).filter(s => s.speaker);
+  const samples = new Map<string, string>();
+  lines.forEach(s => {
+    const current = samples.get(s.speaker!);
+    if (current === undefined || s.text.length > current.length) samples.set(s.speaker!, s.text);
+  });
+  return {
+    speakers: [...samples].map(([speaker, sample]) => ({ speaker, sample: sample.slice(0, SAMPLE_LENGTH) })),
+    recent: lines
+      .filter(s => s.end > next.start - CONTEXT_SECONDS)
+      .slice(-CONTEXT_LINES)
+      .map(s => ({ speaker: s.speaker!, text: s.text })),
+  };
+}
@@ -0,0 +1,100 @@
+import { TranscriptionProvider, LANGUAGE_LABELS, normalizeSegments, SpeakerContext } from './provider';
+
+export interface GeminiSettings {
+  /** Falls back to the key the app was built with when empty */
+  apiKey: string;
+  model: string;
+}
+
+const blobToBase64 = (blob: Blob): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => {
+      const result = reader.result as string;
+      resolve(result.split(',')[1]);
+    };
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+};
+
+/**
+ * Prompt lines telling the model which speakers earlier chunks found, so it
+ * labels the same voices the same way
+ */
+function describeSpeakerContext({ speakers, recent }: SpeakerContext): string {
+  if (speakers.length === 0) return '';
+  return `
+      这段音频接续同一录音的前文，开头几秒与前文结尾重叠。前文中已出现的说话人及其说过的一句话：
+${speakers.map(s => `      - ${s.speaker}：「${s.sample}」`).join('\n')}
+      前文结尾的对话：
+${recent.map(r => `      ${r.speaker}：${r.text}`).join('\n')}
+      请根据声音判断，同一人沿用上面的标签；前文中没有的新说话人从 "说话人 ${speakers.length + 1}" 起继续编号。`;
+}
+
+export function createGeminiProvider(settings: GeminiSettings): TranscriptionProvider {
+  const apiKey = settings.apiKey || process.env.API_KEY || '';
+
+  return {
+    getConfigError: () => (apiKey ? null : '未配置 Gemini API Key'),
+    concurrency: 2,
+    acceptsSpeakerContext: true,
+
+    async transcribe(audio, { language, signal, speakerContext }) {
+      // The SDK is only downloaded once someone actually uses Gemini
+      const { GoogleGenAI, Type } = await import('@google/genai');
+      const ai = new GoogleGenAI({ apiKey });
+      const base64Data = await blobToBase64(audio);
+
+      const target = language === 'auto' ? '音频中所说的原语言' : LANGUAGE_LABELS[language];
+      const prompt = `请将音频文件逐句转写为${target}。请务必返回一个纯 JSON 数组。
+      数组中的每个对象应包含以下字段：
+      - "start": 开始时间（秒，浮点数）
+      - "end": 结束时间（秒，浮点数）
+      - "text": 转写的文本 (文本不需要太长，尽量按短句切分)
+      - "speaker": 说话人标签，按首次出现顺序命名为 "说话人 1"、"说话人 2" 等，同一人始终使用同一标签
+      
+      请确保时间戳准确；不同说话人的话不要放在同一句中。${speakerContext ? describeSpeakerContext(speakerContext) : ''}`;
+
+      const response = await ai.models.generateContent({
+        model: settings.model,
+        contents: {
+          parts: [
+            {
+              inlineData: {
+                mimeType: audio.type || 'audio/mp3',
+                data: base64Data
+              }
+            },
+            { text: prompt }
+          ]
+        },
+        config: {
+          abortSignal: signal,
+          responseMimeType: 'application/json',
+          responseSchema: {
+            type: Type.ARRAY,
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                start: { type: Type.NUMBER },
+                end: { type: Type.NUMBER },
+                text: { type: Type.STRING },
+                speaker: { type: Type.STRING },
+              },
+              required: ['start', 'end', 'text'],
+            },
+          },
+        }
+      });
+
+      const rawText = response.text || "";
+      const jsonString = rawText.replace(/```json/g, '').replace(/```/g, '').trim();
+      try {
+        return normalizeSegments(JSON.parse(jsonString));
+      } catch {
+        throw new Error('Gemini 返回的内容不是有效的 JSON');
+      }
+    },
+  };
+}
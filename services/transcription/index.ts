@@ -0,0 +1,98 @@
+import { TranscriptionProvider, TranscriptionLanguage, LANGUAGE_LABELS } from './provider';
+import { createGeminiProvider, GeminiSettings } from './geminiProvider';
+import { createOpenAICompatibleProvider, OpenAICompatibleSettings } from './openaiProvider';
+import { createWasmProvider, WasmSettings } from './wasmProvider';
+
+export * from './provider';
+export { transcribeInChunks } from './chunkedTranscriber';
+export { WASM_MODELS } from './wasmProvider';
+
+export type TranscriptionProviderId = 'gemini' | 'openai' | 'wasm';
+
+export const PROVIDER_LABELS: Record<TranscriptionProviderId, string> = {
+  gemini: 'Google Gemini',
+  openai: 'OpenAI 兼容 / Whisper 服务',
+  wasm: '本地离线模型 (WASM)',
+};
+
+export interface TranscriptionSettings {
+  provider: TranscriptionProviderId;
+  language: TranscriptionLanguage;
+  gemini: GeminiSettings;
+  openai: OpenAICompatibleSettings;
+  wasm: WasmSettings;
+}
+
+export const DEFAULT_TRANSCRIPTION_SETTINGS: TranscriptionSettings = {
+  provider: 'gemini',
+  language: 'zh',
+  gemini: { apiKey: '', model: 'gemini-2.5-flash' },
+  openai: { endpoint: 'http://localhost:8000/v1', apiKey: '', model: 'whisper-1' },
+  wasm: { model: 'onnx-community/whisper-base' },
+};
+
+const STORAGE_KEY = 'audiocutter-pro:transcription';
+
+export function createTranscriptionProvider(settings: TranscriptionSettings): TranscriptionProvider {
+  switch (settings.provider) {
+    case 'gemini':
+      return createGeminiProvider(settings.gemini);
+    case 'openai':
+      return createOpenAICompatibleProvider(settings.openai);
+    case 'wasm':
+      return createWasmProvider(settings.wasm);
+  }
+}
+
+/**
+ * Identifies what produced a cached chunk result, so changing the engine, model
+ * or language transcribes again instead of reusing old chunks
+ */
+export function getTranscriptionCacheKey(settings: TranscriptionSettings): string {
+  const { provider, language } = settings;
+  switch (provider) {
+    case 'gemini':
+      return [provider, settings.gemini.model, language].join('|');
+    case 'openai':
+      return [provider, settings.openai.endpoint.trim(), settings.openai.model, language].join('|');
+    case 'wasm':
+      return [provider, settings.wasm.model, language].join('|');
+  }
+}
+
+/**
+ * Settings saved in this browser, merged over the defaults so new fields get values.
+ * API keys are never read back: they only live in memory for the session.
+ */
+export function loadTranscriptionSettings(): TranscriptionSettings {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || 'null');
+    if (!stored || typeof stored !== 'object') return DEFAULT_TRANSCRIPTION_SETTINGS;
+    const d = DEFAULT_TRANSCRIPTION_SETTINGS;
+    return {
+      provider: stored.provider in PROVIDER_LABELS ? stored.provider : d.provider,
+      language: stored.language in LANGUAGE_LABELS ? stored.language : d.language,
+      gemini: { ...d.gemini, ...stored.gemini, apiKey: d.gemini.apiKey },
+      openai: { ...d.openai, ...stored.openai, apiKey: d.openai.apiKey },
+      wasm: { ...d.wasm, ...stored.wasm },
+    };
+  } catch {
+    return DEFAULT_TRANSCRIPTION_SETTINGS;
+  }
+}
+
+/**
+ * Saves everything but the API keys, which localStorage would keep in plain text
+ */
+export function saveTranscriptionSettings(settings: TranscriptionSettings) {
+  const { gemini, openai } = settings;
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify({
+      ...settings,
+      gemini: { ...gemini, apiKey: '' },
+      openai: { ...openai, apiKey: '' },
+    }));
+  } catch (err) {
+    console.error("Saving transcription settings failed", err);
+  }
+}
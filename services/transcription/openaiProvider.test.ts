@@ -0,0 +1,127 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { createOpenAICompatibleProvider, OpenAICompatibleSettings } from './openaiProvider';
+
+interface ReceivedRequest {
+  method?: string;
+  url?: string;
+  authorization?: string;
+  form: FormData;
+}
+
+/** What the mock server answers with next, and what it last received */
+let reply: (res: ServerResponse) => void;
+let received: ReceivedRequest | null;
+
+let server: Server;
+let endpoint: string;
+
+const json = (status: number, body: unknown) => (res: ServerResponse) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
+
+async function handle(req: IncomingMessage, res: ServerResponse) {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(chunk as Buffer);
+  const form = await new Response(Buffer.concat(chunks), {
+    headers: { 'Content-Type': req.headers['content-type'] || '' },
+  }).formData();
+  received = { method: req.method, url: req.url, authorization: req.headers.authorization, form };
+  reply(res);
+}
+
+beforeAll(async () => {
+  server = createServer((req, res) => void handle(req, res));
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  endpoint = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1/`;
+});
+
+afterAll(() => new Promise<void>(resolve => {
+  server.close(() => resolve());
+  server.closeAllConnections();
+}));
+
+beforeEach(() => {
+  received = null;
+  reply = json(200, { segments: [] });
+});
+
+const provider = (overrides: Partial<OpenAICompatibleSettings> = {}) =>
+  createOpenAICompatibleProvider({ endpoint, apiKey: 'sk-test', model: 'whisper-1', ...overrides });
+
+const audio = new File([new Uint8Array([1, 2, 3, 4])], 'clip.wav', { type: 'audio/wav' });
+
+describe('createOpenAICompatibleProvider', () => {
+  it('posts the audio as verbose_json to /audio/transcriptions', async () => {
+    await provider().transcribe(audio, { language: 'en' });
+
+    expect(received?.method).toBe('POST');
+    expect(received?.url).toBe('/v1/audio/transcriptions');
+    expect(received?.authorization).toBe('Bearer sk-test');
+    const file = received!.form.get('file') as File;
+    expect(file.name).toBe('clip.wav');
+    expect([...new Uint8Array(await file.arrayBuffer())]).toEqual([1, 2, 3, 4]);
+    expect(received!.form.get('model')).toBe('whisper-1');
+    expect(received!.form.get('response_format')).toBe('verbose_json');
+    expect(received!.form.get('timestamp_granularities[]')).toBe('segment');
+    expect(received!.form.get('language')).toBe('en');
+  });
+
+  it('leaves out the language for auto-detection and the header without a key', async () => {
+    await provider({ apiKey: '' }).transcribe(new Blob([new Uint8Array(2)]), { language: 'auto' });
+    expect(received?.authorization).toBeUndefined();
+    expect(received!.form.has('language')).toBe(false);
+    expect((received!.form.get('file') as File).name).toBe('audio');
+  });
+
+  it('returns sorted, validated segments and keeps speakers', async () => {
+    reply = json(200, {
+      text: 'ignored',
+      segments: [
+        { start: 2, end: 3.5, text: ' second ', speaker: 'SPEAKER_01' },
+        { start: 0, end: 2, text: 'first' },
+        { start: 4, end: 4, text: 'zero length' },
+        { start: 5, end: 6, text: '   ' },
+      ],
+    });
+    expect(await provider().transcribe(audio, { language: 'zh' })).toEqual([
+      { start: 0, end: 2, text: 'first' },
+      { start: 2, end: 3.5, text: 'second', speaker: 'SPEAKER_01' },
+    ]);
+  });
+
+  it('places plain text over the reported duration', async () => {
+    reply = json(200, { text: 'whole clip', duration: 12.5 });
+    expect(await provider().transcribe(audio, { language: 'zh' })).toEqual([{ start: 0, end: 12.5, text: 'whole clip' }]);
+  });
+
+  it('rejects responses without timestamps', async () => {
+    reply = json(200, { text: 'no timing' });
+    await expect(provider().transcribe(audio, { language: 'zh' })).rejects.toThrow('verbose_json');
+  });
+
+  it('reports the status and body of a failed request', async () => {
+    reply = json(401, { error: { message: 'Incorrect API key' } });
+    await expect(provider().transcribe(audio, { language: 'zh' })).rejects.toThrow(/^转写服务返回错误 401: .*Incorrect API key/);
+  });
+
+  it('reports an unreachable server by its URL', async () => {
+    const unreachable = provider({ endpoint: 'http://127.0.0.1:1/v1' });
+    await expect(unreachable.transcribe(audio, { language: 'zh' }))
+      .rejects.toThrow('无法连接到转写服务 http://127.0.0.1:1/v1/audio/transcriptions');
+  });
+
+  it('passes a cancellation through unchanged', async () => {
+    const controller = new AbortController();
+    reply = () => controller.abort();
+    await expect(provider().transcribe(audio, { language: 'zh', signal: controller.signal }))
+      .rejects.toMatchObject({ name: 'AbortError' });
+  });
+
+  it('needs an endpoint', () => {
+    expect(provider({ endpoint: '  ' }).getConfigError()).not.toBeNull();
+    expect(provider().getConfigError()).toBeNull();
+  });
+});
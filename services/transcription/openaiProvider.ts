@@ -0,0 +1,57 @@
+import { TranscriptionProvider, normalizeSegments } from './provider';
+
+export interface OpenAICompatibleSettings {
+  /** Base URL ending before /audio/transcriptions, e.g. http://localhost:8000/v1 */
+  endpoint: string;
+  apiKey: string;
+  model: string;
+}
+
+/**
+ * Any server implementing OpenAI's /audio/transcriptions (OpenAI, faster-whisper-server,
+ * whisper.cpp server, LocalAI, ...). Segment timestamps come from verbose_json; servers
+ * with diarization (WhisperX-style) that add a `speaker` to each segment get it kept.
+ */
+export function createOpenAICompatibleProvider(settings: OpenAICompatibleSettings): TranscriptionProvider {
+  const url = `${settings.endpoint.trim().replace(/\/+$/, '')}/audio/transcriptions`;
+
+  return {
+    getConfigError: () => (settings.endpoint.trim() ? null : '未配置转写服务地址'),
+    concurrency: 2,
+
+    async transcribe(audio, { language, signal }) {
+      const form = new FormData();
+      form.append('file', audio, audio instanceof File ? audio.name : 'audio');
+      form.append('model', settings.model);
+      form.append('response_format', 'verbose_json');
+      form.append('timestamp_granularities[]', 'segment');
+      if (language !== 'auto') form.append('language', language);
+
+      let response: Response;
+      try {
+        response = await fetch(url, {
+          method: 'POST',
+          headers: settings.apiKey ? { Authorization: `Bearer ${settings.apiKey}` } : {},
+          body: form,
+          signal,
+        });
+      } catch (err) {
+        if (signal?.aborted) throw err;
+        throw new Error(`无法连接到转写服务 ${url}，请检查地址与 CORS 设置`);
+      }
+
+      if (!response.ok) {
+        const detail = (await response.text().catch(() => '')).slice(0, 200);
+        throw new Error(`转写服务返回错误 ${response.status}${detail ? `: ${detail}` : ''}`);
+      }
+
+      const data = await response.json().catch(() => null);
+      if (Array.isArray(data?.segments)) return normalizeSegments(data.segments);
+      // Plain json responses only carry text; without a duration there is nothing to place it on
+      if (typeof data?.text === 'string' && Number.isFinite(data.duration)) {
+        return normalizeSegments([{ start: 0, end: data.duration, text: data.text }]);
+      }
+      throw new Error('转写服务的响应中缺少时间戳 (需要支持 verbose_json)');
+    },
+  };
+}
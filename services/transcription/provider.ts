@@ -0,0 +1,80 @@
+import { TranscriptSegment } from '../../types';
+
+export type TranscriptionLanguage = 'auto' | 'zh' | 'en' | 'ja' | 'ko' | 'fr' | 'de' | 'es' | 'ru';
+
+export const LANGUAGE_LABELS: Record<TranscriptionLanguage, string> = {
+  auto: '自动检测',
+  zh: '简体中文',
+  en: '英语',
+  ja: '日语',
+  ko: '韩语',
+  fr: '法语',
+  de: '德语',
+  es: '西班牙语',
+  ru: '俄语',
+};
+
+/**
+ * What earlier chunks of the same recording said about its speakers, so a
+ * chunk can reuse their labels instead of numbering speakers from 1 again
+ */
+export interface SpeakerContext {
+  /** Every label used so far, with one line that speaker said */
+  speakers: { speaker: string; sample: string }[];
+  /** The last lines before this chunk, in order; the chunk's audio opens with the end of them */
+  recent: { speaker: string; text: string }[];
+}
+
+export interface TranscribeOptions {
+  language: TranscriptionLanguage;
+  signal?: AbortSignal;
+  /** Human-readable progress, e.g. model download state */
+  onStatus?: (message: string) => void;
+  /** Only passed to providers with `acceptsSpeakerContext` */
+  speakerContext?: SpeakerContext;
+}
+
+/**
+ * A speech-to-text backend. Implementations throw Errors with user-facing
+ * (Chinese) messages so the editor can show them as they are.
+ */
+export interface TranscriptionProvider {
+  /** Why the provider can't run with its current settings, or null when it can */
+  getConfigError(): string | null;
+  /** How many chunks of a long file may be transcribed at the same time */
+  concurrency: number;
+  /**
+   * Labels speakers and can carry them over from a SpeakerContext. Chunks then
+   * go out one after another, each with the speakers found before it.
+   */
+  acceptsSpeakerContext?: boolean;
+  transcribe(audio: Blob, options: TranscribeOptions): Promise<TranscriptSegment[]>;
+}
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+/** A response segment with usable timing and text; `speaker` is checked separately */
+const isRawSegment = (value: unknown): value is { start: number; end: number; text: string; speaker?: unknown } => {
+  if (typeof value !== 'object' || value === null) return false;
+  const s = value as Record<string, unknown>;
+  return typeof s.text === 'string' && isFiniteNumber(s.start) && isFiniteNumber(s.end) && s.end > s.start;
+};
+
+/**
+ * Validates segments from an untrusted response, dropping malformed entries
+ */
+export function normalizeSegments(raw: unknown): TranscriptSegment[] {
+  if (!Array.isArray(raw)) throw new Error('转写结果格式无效');
+  return raw
+    .filter(isRawSegment)
+    .map((s): TranscriptSegment => {
+      const speaker = typeof s.speaker === 'string' || isFiniteNumber(s.speaker) ? String(s.speaker).trim() : '';
+      return { start: Math.max(0, s.start), end: s.end, text: s.text.trim(), ...(speaker ? { speaker } : {}) };
+    })
+    .filter(s => s.text)
+    .sort((a, b) => a.start - b.start);
+}
+
+export const isAbortError = (err: unknown) => err instanceof DOMException && err.name === 'AbortError';
+
+export const createAbortError = () => new DOMException('转写已取消', 'AbortError');
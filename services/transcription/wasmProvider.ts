@@ -0,0 +1,79 @@
+import { decodeAudioFile } from '../../utils/audioUtils';
+import type { WhisperWorkerRequest, WhisperWorkerResponse } from '../../workers/whisperWorker';
+import { TranscriptionProvider, normalizeSegments, createAbortError } from './provider';
+
+export interface WasmSettings {
+  /** Hugging Face model id with ONNX weights */
+  model: string;
+}
+
+export const WASM_MODELS: Record<string, string> = {
+  'onnx-community/whisper-tiny': 'Whisper Tiny (约 40 MB)',
+  'onnx-community/whisper-base': 'Whisper Base (约 80 MB)',
+  'onnx-community/whisper-small': 'Whisper Small (约 250 MB)',
+};
+
+// Whisper models expect 16 kHz input
+const WHISPER_SAMPLE_RATE = 16000;
+
+/**
+ * Whisper running entirely in the browser (ONNX Runtime Web via transformers.js).
+ * Only the model download needs a connection; afterwards it works offline.
+ */
+export function createWasmProvider(settings: WasmSettings): TranscriptionProvider {
+  return {
+    getConfigError: () => (settings.model ? null : '未选择本地模型'),
+    // A single worker runs the model, parallel chunks would only queue up
+    concurrency: 1,
+
+    async transcribe(audio, { language, signal, onStatus }) {
+      onStatus?.('正在解码音频...');
+      const buffer = await decodeAudioFile(audio, WHISPER_SAMPLE_RATE);
+      if (signal?.aborted) throw createAbortError();
+
+      const mono = new Float32Array(buffer.length);
+      for (let c = 0; c < buffer.numberOfChannels; c++) {
+        const data = buffer.getChannelData(c);
+        for (let i = 0; i < data.length; i++) mono[i] += data[i] / buffer.numberOfChannels;
+      }
+
+      return new Promise((resolve, reject) => {
+        const worker = new Worker(new URL('../../workers/whisperWorker.ts', import.meta.url), { type: 'module' });
+        const onAbort = () => {
+          worker.terminate();
+          reject(createAbortError());
+        };
+        signal?.addEventListener('abort', onAbort, { once: true });
+        const finish = () => {
+          worker.terminate();
+          signal?.removeEventListener('abort', onAbort);
+        };
+
+        worker.onmessage = (e: MessageEvent<WhisperWorkerResponse>) => {
+          const message = e.data;
+          if (message.type === 'status') {
+            onStatus?.(message.message);
+            return;
+          }
+          finish();
+          if (message.type === 'result') {
+            resolve(normalizeSegments(message.segments));
+          } else {
+            reject(new Error(`本地识别失败: ${message.message}`));
+          }
+        };
+        worker.onerror = (e) => {
+          finish();
+          reject(new Error(`本地识别失败: ${e.message || '无法启动识别线程'}`));
+        };
+
+        const request: WhisperWorkerRequest = {
+          audio: mono,
+          model: settings.model,
+          language: language === 'auto' ? null : language,
+        };
+        worker.postMessage(request, [mono.buffer]);
+      });
+    },
+  };
+}
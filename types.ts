@@ -1,9 +1,86 @@
+export type FadeCurve = 'linear' | 'equal-power' | 'logarithmic' | 's-curve';
+
 export interface RegionData {
   id: string;
   start: number;
   end: number;
   label?: string;
   color?: string;
+  note?: string;
+  /** Fade lengths in seconds, applied when the clip is exported */
+  fadeIn?: number;
+  fadeOut?: number;
+  fadeCurve?: FadeCurve;
+}
+
+/** A span of the timeline, in seconds */
+export interface TimeRange {
+  start: number;
+  end: number;
+}
+
+export interface TranscriptSegment {
+  start: number;
+  end: number;
+  text: string;
+  /** Speaker label from diarization, when the engine provides one */
+  speaker?: string;
+}
+
+/**
+ * A region rendered for a joined export (fades and normalization applied),
+ * collected from any open file
+ */
+export interface ReelClip {
+  id: string;
+  label: string;
+  /** Name of the file the clip was cut from */
+  source: string;
+  /** Region bounds in the source, in seconds */
+  start: number;
+  end: number;
+  buffer: AudioBuffer;
+  /** Unchecked clips stay in the list but are left out of the export */
+  included: boolean;
+}
+
+/** Embedded picture, kept as base64 so projects stay plain JSON */
+export interface CoverArt {
+  mimeType: string;
+  data: string;
+}
+
+/**
+ * Common tags, mapped onto ID3v2 frames, RIFF INFO chunks and Vorbis comments.
+ * Values are free text as the formats store them (e.g. track "3/12").
+ */
+export interface AudioTags {
+  title?: string;
+  artist?: string;
+  album?: string;
+  albumArtist?: string;
+  genre?: string;
+  year?: string;
+  track?: string;
+  comment?: string;
+  cover?: CoverArt;
+}
+
+export type AudioContainer = 'wav' | 'aiff' | 'caf' | 'flac' | 'mp3' | 'aac' | 'ogg' | 'mp4' | 'webm';
+
+/**
+ * What the file header says about the audio. Fields the container doesn't
+ * state up front (e.g. bit depth of lossy codecs) are left out.
+ */
+export interface AudioFormatInfo {
+  container: AudioContainer;
+  /** e.g. 'pcm', 'float', 'mp3', 'aac', 'opus', 'vorbis', 'flac', 'alac' */
+  codec: string;
+  sampleRate?: number;
+  channels?: number;
+  bitDepth?: number;
+  /** Seconds, when the header states the length (estimated for CBR MP3) */
+  duration?: number;
 }
 
 export interface AudioFileMetadata {
@@ -11,4 +88,43 @@ export interface AudioFileMetadata {
   size: number;
   type: string;
   duration: number;
+  /** From probing the file header; absent for formats the probe doesn't know */
+  format?: AudioFormatInfo;
+  /** Tags read from the file, including the user's edits */
+  tags?: AudioTags;
+}
+
+/**
+ * A single non-destructive edit. Times are in seconds on the timeline as it
+ * was when the edit was applied, so edits must be replayed in order.
+ */
+export type EditOperation =
+  | { type: 'delete'; start: number; end: number }
+  | { type: 'silence'; start: number; end: number }
+  | { type: 'crop'; start: number; end: number }
+  | { type: 'insertSilence'; at: number; duration: number };
+
+/**
+ * Everything undo/redo restores: user regions, transcript positions and the edit list
+ */
+export interface EditorSnapshot {
+  regions: RegionData[];
+  transcript: TranscriptSegment[];
+  edits: EditOperation[];
+}
+
+/**
+ * Persisted editing session for one audio file (IndexedDB and .acproj files)
+ */
+export interface ProjectData {
+  version: number;
+  fingerprint: string;
+  file: AudioFileMetadata;
+  regions: RegionData[];
+  transcript: TranscriptSegment[];
+  edits: EditOperation[];
+  view: {
+    zoom: number;
+  };
+  updatedAt: number;
 }
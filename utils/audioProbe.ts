@@ -0,0 +1,431 @@
+import { AudioContainer, AudioFormatInfo } from '../types';
+
+// Enough for the headers of every supported container except MP4, whose
+// index can sit anywhere and is walked separately
+const PROBE_BYTES = 64 * 1024;
+
+const readBytes = async (file: Blob, start: number, end: number) =>
+  new Uint8Array(await file.slice(start, end).arrayBuffer());
+
+const latin1 = new TextDecoder('latin1');
+const ascii = (b: Uint8Array, start: number, length: number) => latin1.decode(b.subarray(start, start + length));
+
+const u16BE = (b: Uint8Array, o: number) => (b[o] << 8) | b[o + 1];
+const u16LE = (b: Uint8Array, o: number) => b[o] | (b[o + 1] << 8);
+const u32BE = (b: Uint8Array, o: number) => ((b[o] << 24) | (b[o + 1] << 16) | (b[o + 2] << 8) | b[o + 3]) >>> 0;
+const u32LE = (b: Uint8Array, o: number) => ((b[o + 3] << 24) | (b[o + 2] << 16) | (b[o + 1] << 8) | b[o]) >>> 0;
+
+export const CONTAINER_LABELS: Record<AudioContainer, string> = {
+  wav: 'WAV',
+  aiff: 'AIFF',
+  caf: 'CAF',
+  flac: 'FLAC',
+  mp3: 'MP3',
+  aac: 'AAC (ADTS)',
+  ogg: 'Ogg',
+  mp4: 'MP4/M4A',
+  webm: 'WebM/Matroska',
+};
+
+const CODEC_LABELS: Record<string, string> = {
+  pcm: 'PCM',
+  float: '浮点 PCM',
+  mp3: 'MP3',
+  aac: 'AAC',
+  opus: 'Opus',
+  vorbis: 'Vorbis',
+  flac: 'FLAC',
+  alac: 'ALAC',
+  speex: 'Speex',
+  alaw: 'A-law',
+  mulaw: 'μ-law',
+  adpcm: 'ADPCM',
+};
+
+/** One line summary, e.g. "WAV (PCM) · 48 kHz · 立体声 · 24-bit" */
+export function describeAudioFormat(format: AudioFormatInfo): string {
+  const container = CONTAINER_LABELS[format.container];
+  const codec = CODEC_LABELS[format.codec] || format.codec.toUpperCase();
+  const parts = [container.startsWith(codec) ? container : `${container} (${codec})`];
+  if (format.sampleRate) parts.push(`${+(format.sampleRate / 1000).toFixed(3)} kHz`);
+  if (format.channels) parts.push(format.channels === 1 ? '单声道' : format.channels === 2 ? '立体声' : `${format.channels} 声道`);
+  if (format.bitDepth) parts.push(`${format.bitDepth}-bit`);
+  return parts.join(' · ');
+}
+
+const WAVE_CODECS: Record<number, string> = {
+  0x0001: 'pcm',
+  0x0002: 'adpcm',
+  0x0003: 'float',
+  0x0006: 'alaw',
+  0x0007: 'mulaw',
+  0x0011: 'adpcm',
+  0x0055: 'mp3',
+};
+
+/** Where the samples of an uncompressed WAV or AIFF file sit, for reading ranges directly */
+export interface PcmLayout {
+  /** Byte offset of the first frame */
+  offset: number;
+  frames: number;
+  channels: number;
+  bytesPerSample: number;
+  float: boolean;
+  littleEndian: boolean;
+  /** 8-bit WAV samples are unsigned, AIFF ones signed */
+  unsigned8: boolean;
+}
+
+interface HeaderScan {
+  info: AudioFormatInfo;
+  layout: PcmLayout | null;
+}
+
+/** Sample formats readPcmFrames understands */
+const isReadablePcm = (info: AudioFormatInfo, bytesPerSample: number) =>
+  info.codec === 'pcm' ? bytesPerSample >= 1 && bytesPerSample <= 4
+    : info.codec === 'float' && (bytesPerSample === 4 || bytesPerSample === 8);
+
+/** WAV, RF64 and BW64: the fmt chunk, and the data chunk's position */
+function scanWav(b: Uint8Array, fileSize: number): HeaderScan {
+  const info: AudioFormatInfo = { container: 'wav', codec: 'pcm' };
+  let blockAlign = 0;
+  let longDataSize = 0;
+  for (let pos = 12; pos + 8 <= b.length;) {
+    const id = ascii(b, pos, 4);
+    const size = u32LE(b, pos + 4);
+    if (id === 'ds64') {
+      // RF64 keeps the real 64-bit sizes here; the data chunk header says 0xFFFFFFFF
+      longDataSize = u32LE(b, pos + 16) + u32LE(b, pos + 20) * 2 ** 32;
+    } else if (id === 'fmt ') {
+      const fmt = pos + 8;
+      let tag = u16LE(b, fmt);
+      // WAVE_FORMAT_EXTENSIBLE keeps the real format in its sub format GUID
+      if (tag === 0xFFFE && size >= 40) tag = u16LE(b, fmt + 24);
+      info.codec = WAVE_CODECS[tag] || `0x${tag.toString(16).padStart(4, '0')}`;
+      info.channels = u16LE(b, fmt + 2);
+      info.sampleRate = u32LE(b, fmt + 4);
+      blockAlign = u16LE(b, fmt + 12);
+      const bits = u16LE(b, fmt + 14);
+      if (bits && (info.codec === 'pcm' || info.codec === 'float')) info.bitDepth = bits;
+    } else if (id === 'data') {
+      if (!blockAlign || !info.channels || !info.sampleRate) break;
+      const offset = pos + 8;
+      const dataSize = Math.min(fileSize - offset, size === 0xFFFFFFFF && longDataSize ? longDataSize : size);
+      const frames = Math.floor(dataSize / blockAlign);
+      const bytesPerSample = blockAlign / info.channels;
+      info.duration = frames / info.sampleRate;
+      const layout: PcmLayout | null = isReadablePcm(info, bytesPerSample) ? {
+        offset,
+        frames,
+        channels: info.channels,
+        bytesPerSample,
+        float: info.codec === 'float',
+        littleEndian: true,
+        unsigned8: true,
+      } : null;
+      return { info, layout };
+    }
+    pos += 8 + size + (size % 2);
+  }
+  return { info, layout: null };
+}
+
+/** IEEE 754 80-bit extended float, as AIFF stores its sample rate */
+function readExtended(b: Uint8Array, o: number): number {
+  const exponent = (((b[o] & 0x7F) << 8) | b[o + 1]) - 16383;
+  const mantissa = u32BE(b, o + 2) * 2 ** 32 + u32BE(b, o + 6);
+  return mantissa * 2 ** (exponent - 63);
+}
+
+function scanAiff(b: Uint8Array): HeaderScan {
+  const info: AudioFormatInfo = { container: 'aiff', codec: 'pcm' };
+  const compressed = ascii(b, 8, 4) === 'AIFC';
+  let frames = 0;
+  let littleEndian = false;
+  for (let pos = 12; pos + 8 <= b.length;) {
+    const id = ascii(b, pos, 4);
+    const size = u32BE(b, pos + 4);
+    if (id === 'COMM') {
+      const comm = pos + 8;
+      info.channels = u16BE(b, comm);
+      frames = u32BE(b, comm + 2);
+      info.bitDepth = u16BE(b, comm + 6);
+      info.sampleRate = Math.round(readExtended(b, comm + 8));
+      if (info.sampleRate) info.duration = frames / info.sampleRate;
+      if (compressed && size >= 22) {
+        const type = ascii(b, comm + 18, 4);
+        littleEndian = type === 'sowt';
+        info.codec = /^(NONE|sowt|twos|in24|in32)$/.test(type) ? 'pcm'
+          : /^(fl32|fl64|FL32|FL64)$/.test(type) ? 'float'
+          : type === 'ulaw' ? 'mulaw' : type === 'alaw' ? 'alaw' : type.trim().toLowerCase();
+        if (info.codec !== 'pcm' && info.codec !== 'float') delete info.bitDepth;
+      }
+    } else if (id === 'SSND' && info.channels && info.bitDepth) {
+      // Sample data follows an offset/block size pair, after `offset` padding bytes
+      const bytesPerSample = Math.ceil(info.bitDepth / 8);
+      const layout: PcmLayout | null = isReadablePcm(info, bytesPerSample) ? {
+        offset: pos + 16 + u32BE(b, pos + 8),
+        frames,
+        channels: info.channels,
+        bytesPerSample,
+        float: info.codec === 'float',
+        littleEndian,
+        unsigned8: false,
+      } : null;
+      return { info, layout };
+    }
+    pos += 8 + size + (size % 2);
+  }
+  return { info, layout: null };
+}
+
+const CAF_CODECS: Record<string, string> = {
+  'aac ': 'aac',
+  alac: 'alac',
+  opus: 'opus',
+  flac: 'flac',
+  '.mp3': 'mp3',
+  ulaw: 'mulaw',
+  alaw: 'alaw',
+};
+
+function probeCaf(b: Uint8Array): AudioFormatInfo {
+  // The desc chunk always comes first: 12 byte chunk header at offset 8
+  const desc = 20;
+  const view = new DataView(b.buffer, b.byteOffset, b.byteLength);
+  const formatId = ascii(b, desc + 8, 4);
+  const flags = u32BE(b, desc + 12);
+  const info: AudioFormatInfo = {
+    container: 'caf',
+    codec: formatId === 'lpcm' ? (flags & 1 ? 'float' : 'pcm') : CAF_CODECS[formatId] || formatId.trim(),
+    sampleRate: Math.round(view.getFloat64(desc, false)),
+    channels: u32BE(b, desc + 24),
+  };
+  const bits = u32BE(b, desc + 28);
+  if (bits && formatId === 'lpcm') info.bitDepth = bits;
+  return info;
+}
+
+/**
+ * STREAMINFO body: sample rate, channels, bits per sample and the 36-bit total
+ * sample count (0 when unknown) are packed from offset 10
+ */
+function readStreamInfo(b: Uint8Array, o: number): Pick<AudioFormatInfo, 'sampleRate' | 'channels' | 'bitDepth' | 'duration'> {
+  const sampleRate = (b[o + 10] << 12) | (b[o + 11] << 4) | (b[o + 12] >> 4);
+  const totalSamples = (b[o + 13] & 0x0F) * 2 ** 32 + u32BE(b, o + 14);
+  return {
+    sampleRate,
+    channels: ((b[o + 12] >> 1) & 0x07) + 1,
+    bitDepth: (((b[o + 12] & 0x01) << 4) | (b[o + 13] >> 4)) + 1,
+    ...(totalSamples && sampleRate ? { duration: totalSamples / sampleRate } : {}),
+  };
+}
+
+/** Granule position of the last page, found in the file's tail */
+async function readLastGranule(file: Blob): Promise<number | null> {
+  const tail = await readBytes(file, Math.max(0, file.size - PROBE_BYTES), file.size);
+  for (let pos = tail.length - 27; pos >= 0; pos--) {
+    if (tail[pos] === 0x4F && ascii(tail, pos, 4) === 'OggS') {
+      const granule = u32LE(tail, pos + 6) + u32LE(tail, pos + 10) * 2 ** 32;
+      return granule < 2 ** 53 ? granule : null;
+    }
+  }
+  return null;
+}
+
+async function probeOgg(file: Blob, b: Uint8Array): Promise<AudioFormatInfo> {
+  // The first packet of the first page identifies the codec
+  const packet = 27 + b[26];
+  let info: AudioFormatInfo;
+  // Samples at the stream start that the granule positions count but playback drops
+  let preSkip = 0;
+  if (ascii(b, packet, 8) === 'OpusHead') {
+    // Opus always decodes at 48 kHz, whatever the input rate was
+    info = { container: 'ogg', codec: 'opus', channels: b[packet + 9], sampleRate: 48000 };
+    preSkip = u16LE(b, packet + 10);
+  } else if (ascii(b, packet, 7) === '\x01vorbis') {
+    info = { container: 'ogg', codec: 'vorbis', channels: b[packet + 11], sampleRate: u32LE(b, packet + 12) };
+  } else if (ascii(b, packet, 5) === '\x7FFLAC') {
+    info = { container: 'ogg', codec: 'flac', ...readStreamInfo(b, packet + 17) };
+  } else if (ascii(b, packet, 8) === 'Speex   ') {
+    info = { container: 'ogg', codec: 'speex', sampleRate: u32LE(b, packet + 36), channels: u32LE(b, packet + 48) };
+  } else {
+    return { container: 'ogg', codec: 'unknown' };
+  }
+
+  const granule = await readLastGranule(file);
+  if (granule !== null && granule > preSkip && info.sampleRate) info.duration = (granule - preSkip) / info.sampleRate;
+  return info;
+}
+
+const MPEG_RATES = [
+  [11025, 12000, 8000], // MPEG 2.5
+  [],
+  [22050, 24000, 16000], // MPEG 2
+  [44100, 48000, 32000], // MPEG 1
+];
+const ADTS_RATES = [96000, 88200, 64000, 48000, 44100, 32000, 24000, 22050, 16000, 12000, 11025, 8000, 7350];
+// Layer III bitrates in kbit/s, for MPEG 1 and for MPEG 2/2.5
+const MP3_BITRATES = [
+  [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160],
+  [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320],
+];
+
+/**
+ * Length of an MP3 stream starting with the frame at `pos`: exact from a
+ * Xing/Info header, otherwise estimated from the first frame's bitrate
+ */
+function readMp3Duration(b: Uint8Array, pos: number, streamBytes: number, sampleRate: number): number | undefined {
+  const mpeg1 = ((b[pos + 1] >> 3) & 0x03) === 3;
+  const mono = b[pos + 3] >> 6 === 3;
+  const samplesPerFrame = mpeg1 ? 1152 : 576;
+  const xing = pos + 4 + (mpeg1 ? (mono ? 17 : 32) : (mono ? 9 : 17));
+  const tag = ascii(b, xing, 4);
+  if ((tag === 'Xing' || tag === 'Info') && u32BE(b, xing + 4) & 1) {
+    return (u32BE(b, xing + 8) * samplesPerFrame) / sampleRate;
+  }
+  const kbps = MP3_BITRATES[mpeg1 ? 1 : 0][b[pos + 2] >> 4];
+  return kbps ? ((streamBytes - pos) * 8) / (kbps * 1000) : undefined;
+}
+
+/** First MPEG audio or ADTS frame header after `start`; `streamBytes` is the stream's size */
+function probeFrames(b: Uint8Array, start: number, streamBytes: number): AudioFormatInfo | null {
+  const end = Math.min(b.length - 4, start + 8192);
+  for (let pos = start; pos < end; pos++) {
+    if (b[pos] !== 0xFF || (b[pos + 1] & 0xE0) !== 0xE0) continue;
+    const version = (b[pos + 1] >> 3) & 0x03;
+    const layer = (b[pos + 1] >> 1) & 0x03;
+
+    if (layer === 0 && (b[pos + 1] & 0xF6) === 0xF0) {
+      const rate = ADTS_RATES[(b[pos + 2] >> 2) & 0x0F];
+      const channels = ((b[pos + 2] & 0x01) << 2) | (b[pos + 3] >> 6);
+      if (!rate) continue;
+      return { container: 'aac', codec: 'aac', sampleRate: rate, ...(channels ? { channels } : {}) };
+    }
+
+    const bitrateIndex = b[pos + 2] >> 4;
+    const rateIndex = (b[pos + 2] >> 2) & 0x03;
+    if (version === 1 || layer === 0 || bitrateIndex === 0x0F || rateIndex === 3) continue;
+    const sampleRate = MPEG_RATES[version][rateIndex];
+    const duration = layer === 1 ? readMp3Duration(b, pos, streamBytes, sampleRate) : undefined;
+    return {
+      container: 'mp3',
+      // Layer I and II are rare enough to report under the MP3 container
+      codec: layer === 1 ? 'mp3' : layer === 2 ? 'mp2' : 'mp1',
+      sampleRate,
+      channels: b[pos + 3] >> 6 === 3 ? 1 : 2,
+      ...(duration ? { duration } : {}),
+    };
+  }
+  return null;
+}
+
+const MP4_CONTAINERS = new Set(['moov', 'trak', 'mdia', 'minf', 'stbl']);
+const MP4_CODECS: Record<string, string> = {
+  mp4a: 'aac',
+  alac: 'alac',
+  Opus: 'opus',
+  fLaC: 'flac',
+  'ac-3': 'ac3',
+  'ec-3': 'eac3',
+  '.mp3': 'mp3',
+};
+
+/** Walks the atom tree down to the first audio sample description */
+async function probeMp4(file: Blob, start = 0, end = file.size): Promise<AudioFormatInfo | null> {
+  for (let pos = start; pos + 8 <= end;) {
+    const header = await readBytes(file, pos, pos + 16);
+    let size = u32BE(header, 0);
+    const type = ascii(header, 4, 4);
+    let body = pos + 8;
+    if (size === 1) {
+      size = u32BE(header, 8) * 2 ** 32 + u32BE(header, 12);
+      body = pos + 16;
+    } else if (size === 0) {
+      size = end - pos;
+    }
+    if (size < 8) return null;
+
+    if (MP4_CONTAINERS.has(type)) {
+      const found = await probeMp4(file, body, pos + size);
+      if (found) return found;
+    } else if (type === 'stsd') {
+      const stsd = await readBytes(file, body, Math.min(pos + size, body + 64));
+      // version/flags, entry count, then the first entry's size and type
+      const codec = MP4_CODECS[ascii(stsd, 12, 4)];
+      if (codec) {
+        const entry = 8;
+        return {
+          container: 'mp4',
+          codec,
+          channels: u16BE(stsd, entry + 24),
+          sampleRate: u16BE(stsd, entry + 32),
+          ...(codec === 'alac' || codec === 'flac' ? { bitDepth: u16BE(stsd, entry + 26) } : {}),
+        };
+      }
+    }
+    pos += size;
+  }
+  return null;
+}
+
+const MATROSKA_CODECS: [string, string][] = [
+  ['A_OPUS', 'opus'],
+  ['A_VORBIS', 'vorbis'],
+  ['A_AAC', 'aac'],
+  ['A_FLAC', 'flac'],
+  ['A_MPEG/L3', 'mp3'],
+  ['A_PCM', 'pcm'],
+];
+
+const isWav = (magic: string, form: string) => (magic === 'RIFF' || magic === 'RF64' || magic === 'BW64') && form === 'WAVE';
+const isAiff = (magic: string, form: string) => magic === 'FORM' && (form === 'AIFF' || form === 'AIFC');
+
+/**
+ * Identifies the container by its magic bytes and reads codec, sample rate,
+ * channels, bit depth and, where the header has it, length. Returns null when
+ * the file isn't a known audio format.
+ */
+export async function probeAudio(file: Blob): Promise<AudioFormatInfo | null> {
+  const b = await readBytes(file, 0, PROBE_BYTES);
+  if (b.length < 12) return null;
+  const magic = ascii(b, 0, 4);
+  const form = ascii(b, 8, 4);
+
+  if (isWav(magic, form)) return scanWav(b, file.size).info;
+  if (isAiff(magic, form)) return scanAiff(b).info;
+  if (magic === 'caff') return probeCaf(b);
+  if (magic === 'fLaC') return { container: 'flac', codec: 'flac', ...readStreamInfo(b, 8) };
+  if (magic === 'OggS') return probeOgg(file, b);
+  if (ascii(b, 4, 4) === 'ftyp') return probeMp4(file).then(info => info || { container: 'mp4', codec: 'unknown' });
+  if (u32BE(b, 0) === 0x1A45DFA3) {
+    // CodecID is plain ASCII in the track header near the start
+    const head = latin1.decode(b);
+    const codec = MATROSKA_CODECS.find(([id]) => head.includes(id))?.[1] || 'unknown';
+    return { container: 'webm', codec };
+  }
+
+  // MPEG audio and ADTS, possibly behind an ID3v2 tag
+  if (ascii(b, 0, 3) === 'ID3') {
+    const start = 10 + ((b[6] << 21) | (b[7] << 14) | (b[8] << 7) | b[9]);
+    const after = await readBytes(file, start, start + PROBE_BYTES);
+    if (ascii(after, 0, 4) === 'fLaC') return { container: 'flac', codec: 'flac', ...readStreamInfo(after, 8) };
+    return probeFrames(after, 0, file.size - start);
+  }
+  return probeFrames(b, 0, file.size);
+}
+
+/**
+ * Finds the sample data of an uncompressed WAV or AIFF file. Returns null for
+ * other files and for sample formats that need a real decoder.
+ */
+export async function locatePcmData(file: Blob): Promise<PcmLayout | null> {
+  const b = await readBytes(file, 0, PROBE_BYTES);
+  if (b.length < 12) return null;
+  const magic = ascii(b, 0, 4);
+  const form = ascii(b, 8, 4);
+  if (isWav(magic, form)) return scanWav(b, file.size).layout;
+  if (isAiff(magic, form)) return scanAiff(b).layout;
+  return null;
+}
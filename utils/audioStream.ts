@@ -0,0 +1,186 @@
+import { AudioFormatInfo } from '../types';
+import { locatePcmData, PcmLayout } from './audioProbe';
+import { sliceAudioBuffer } from './audioUtils';
+import { createStreamDecoder, hasWasmDecoder } from './wasmDecoders';
+
+/** Decoded frames; `frame` is the position of the first one in the whole file */
+export interface AudioChunk {
+  frame: number;
+  channels: Float32Array[];
+}
+
+// Bytes read from the file per step
+const READ_BYTES = 1 << 20;
+
+// Above this much decoded float audio the editor stops holding the whole file in memory
+export const LONG_RECORDING_BYTES = 512 * 1024 * 1024;
+
+const isPcm = (format: AudioFormatInfo) =>
+  (format.container === 'wav' || format.container === 'aiff') && (format.codec === 'pcm' || format.codec === 'float');
+
+/** Whether streamAudio can read this format piece by piece */
+export const canStreamAudio = (format: AudioFormatInfo): boolean =>
+  !!format.sampleRate && !!format.channels && (isPcm(format) || hasWasmDecoder(format));
+
+/** Memory the whole file takes decoded to float samples, or 0 when the probe couldn't tell */
+export const getDecodedBytes = (format: AudioFormatInfo): number =>
+  (format.duration || 0) * (format.sampleRate || 0) * (format.channels || 2) * 4;
+
+/** Whether decoding the whole file at once would take more memory than the editor allows */
+export const isLongRecording = (format: AudioFormatInfo): boolean => getDecodedBytes(format) > LONG_RECORDING_BYTES;
+
+/** Interleaved integer or float samples to one Float32Array per channel */
+function readPcmFrames(bytes: Uint8Array, layout: PcmLayout): Float32Array[] {
+  const { channels: count, bytesPerSample, float, littleEndian, unsigned8 } = layout;
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const frames = Math.floor(bytes.length / (bytesPerSample * count));
+  const channels = Array.from({ length: count }, () => new Float32Array(frames));
+
+  for (let i = 0, pos = 0; i < frames; i++) {
+    for (let c = 0; c < count; c++, pos += bytesPerSample) {
+      let sample: number;
+      if (float) {
+        sample = bytesPerSample === 4 ? view.getFloat32(pos, littleEndian) : view.getFloat64(pos, littleEndian);
+      } else if (bytesPerSample === 1) {
+        sample = unsigned8 ? (bytes[pos] - 128) / 128 : view.getInt8(pos) / 128;
+      } else if (bytesPerSample === 2) {
+        sample = view.getInt16(pos, littleEndian) / 32768;
+      } else if (bytesPerSample === 3) {
+        const value = littleEndian
+          ? bytes[pos] | (bytes[pos + 1] << 8) | (bytes[pos + 2] << 16)
+          : (bytes[pos] << 16) | (bytes[pos + 1] << 8) | bytes[pos + 2];
+        sample = ((value << 8) >> 8) / 8388608;
+      } else {
+        sample = view.getInt32(pos, littleEndian) / 2147483648;
+      }
+      channels[c][i] = sample;
+    }
+  }
+  return channels;
+}
+
+/**
+ * Decodes a file piece by piece from `startFrame` on, so only about a megabyte
+ * of it is held at a time. Uncompressed WAV and AIFF are read straight from
+ * the wanted position; compressed formats have to be decoded from the start,
+ * and the chunks before `startFrame` are dropped.
+ */
+export async function* streamAudio(file: Blob, format: AudioFormatInfo, startFrame = 0): AsyncGenerator<AudioChunk> {
+  if (isPcm(format)) {
+    const layout = await locatePcmData(file);
+    if (!layout) throw new Error('无法读取音频数据');
+    const blockAlign = layout.bytesPerSample * layout.channels;
+    const framesPerRead = Math.max(1, Math.floor(READ_BYTES / blockAlign));
+    for (let frame = Math.max(0, startFrame); frame < layout.frames; frame += framesPerRead) {
+      const end = Math.min(layout.frames, frame + framesPerRead);
+      const bytes = await file.slice(layout.offset + frame * blockAlign, layout.offset + end * blockAlign).arrayBuffer();
+      yield { frame, channels: readPcmFrames(new Uint8Array(bytes), layout) };
+    }
+    return;
+  }
+
+  const decoder = await createStreamDecoder(format);
+  try {
+    let frame = 0;
+    const emit = function* (output: { channelData: Float32Array[]; samplesDecoded: number } | null) {
+      if (!output?.samplesDecoded) return;
+      const length = output.samplesDecoded;
+      const skip = Math.max(0, startFrame - frame);
+      if (skip < length) {
+        yield { frame: frame + skip, channels: output.channelData.map(c => c.subarray(skip, length)) };
+      }
+      frame += length;
+    };
+    for (let pos = 0; pos < file.size; pos += READ_BYTES) {
+      const bytes = new Uint8Array(await file.slice(pos, pos + READ_BYTES).arrayBuffer());
+      yield* emit(await decoder.decode(bytes));
+    }
+    yield* emit(await decoder.flush());
+  } finally {
+    decoder.free();
+  }
+}
+
+/** Reads parts of a recording as AudioBuffers, in seconds */
+export interface AudioRangeSource {
+  duration: number;
+  /** Null when the range is empty */
+  read(start: number, end: number): Promise<AudioBuffer | null>;
+  /** Releases any decoder still open */
+  close(): void;
+}
+
+/** Range reads from audio that is already decoded */
+export const bufferRangeSource = (buffer: AudioBuffer): AudioRangeSource => ({
+  duration: buffer.duration,
+  read: async (start, end) => sliceAudioBuffer(buffer, start, end),
+  close: () => undefined,
+});
+
+/**
+ * Range reads that decode only what they need. The open stream is kept between
+ * reads, so reading forward through a compressed file (export in region order,
+ * overlapping transcription chunks) doesn't decode it again from the start.
+ * Reads run one at a time.
+ */
+export function createStreamRangeSource(file: Blob, format: AudioFormatInfo, duration: number): AudioRangeSource {
+  const sampleRate = format.sampleRate!;
+  let stream: AsyncGenerator<AudioChunk> | null = null;
+  // Chunks pulled from the stream that the last read still overlapped, and where the stream is
+  let held: AudioChunk[] = [];
+  let nextFrame = 0;
+  let queue: Promise<unknown> = Promise.resolve();
+
+  const readRange = async (start: number, end: number): Promise<AudioBuffer | null> => {
+    const from = Math.max(0, Math.floor(start * sampleRate));
+    const to = Math.floor(end * sampleRate);
+    if (to <= from) return null;
+
+    const earliest = held.length > 0 ? held[0].frame : nextFrame;
+    if (!stream || from < earliest) {
+      await stream?.return(undefined);
+      stream = streamAudio(file, format, from);
+      held = [];
+      nextFrame = from;
+    }
+    while (nextFrame < to) {
+      const next = await stream.next();
+      if (next.done) break;
+      held.push(next.value);
+      nextFrame = next.value.frame + next.value.channels[0].length;
+    }
+    held = held.filter(chunk => chunk.frame + chunk.channels[0].length > from);
+
+    const length = Math.min(to, nextFrame) - from;
+    if (length <= 0 || held.length === 0) return null;
+    const buffer = new AudioBuffer({ numberOfChannels: held[0].channels.length, length, sampleRate });
+    held.forEach(chunk => {
+      const s = Math.max(from, chunk.frame);
+      const e = Math.min(to, chunk.frame + chunk.channels[0].length);
+      if (e <= s) return;
+      chunk.channels.forEach((data, c) => buffer.copyToChannel(data.subarray(s - chunk.frame, e - chunk.frame), c, s - from));
+    });
+    return buffer;
+  };
+
+  return {
+    duration,
+    read(start, end) {
+      const result = queue.then(() => readRange(start, end)).catch((err) => {
+        // A stream that failed once can't be continued
+        stream = null;
+        held = [];
+        throw err;
+      });
+      queue = result.catch(() => undefined);
+      return result;
+    },
+    close() {
+      queue = queue.then(() => {
+        stream?.return(undefined);
+        stream = null;
+        held = [];
+      });
+    },
+  };
+}
@@ -0,0 +1,217 @@
+import { describe, expect, it } from 'vitest';
+import { audioBufferToWav, formatTimecode, parseTimecode, TimecodeOptions, WavEncodeOptions } from './audioUtils';
+
+/** Just enough of an AudioBuffer for the encoder, which only reads channel data */
+const fakeBuffer = (channels: number[][], sampleRate = 48000) => ({
+  sampleRate,
+  numberOfChannels: channels.length,
+  length: channels[0].length,
+  duration: channels[0].length / sampleRate,
+  getChannelData: (c: number) => Float32Array.from(channels[c]),
+}) as unknown as AudioBuffer;
+
+const encode = async (channels: number[][], options: WavEncodeOptions = {}, sampleRate = 48000) => {
+  const blob = audioBufferToWav(fakeBuffer(channels, sampleRate), options);
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  return { bytes, view: new DataView(bytes.buffer) };
+};
+
+const ascii = (bytes: Uint8Array, offset: number, length = 4) =>
+  String.fromCharCode(...bytes.subarray(offset, offset + length));
+
+describe('audioBufferToWav', () => {
+  it('writes a plain PCM header for 16-bit stereo', async () => {
+    const { bytes, view } = await encode([[0, 1], [-1, 0.5]], {}, 44100);
+
+    expect(ascii(bytes, 0)).toBe('RIFF');
+    expect(view.getUint32(4, true)).toBe(bytes.length - 8);
+    expect(ascii(bytes, 8)).toBe('WAVE');
+    expect(ascii(bytes, 12)).toBe('fmt ');
+    expect(view.getUint32(16, true)).toBe(16);
+    expect(view.getUint16(20, true)).toBe(1); // WAVE_FORMAT_PCM
+    expect(view.getUint16(22, true)).toBe(2);
+    expect(view.getUint32(24, true)).toBe(44100);
+    expect(view.getUint32(28, true)).toBe(44100 * 4);
+    expect(view.getUint16(32, true)).toBe(4);
+    expect(view.getUint16(34, true)).toBe(16);
+    expect(ascii(bytes, 36)).toBe('data');
+    expect(view.getUint32(40, true)).toBe(8);
+    expect(bytes.length).toBe(52);
+  });
+
+  it('interleaves frames and quantizes 16-bit samples asymmetrically', async () => {
+    const { view } = await encode([[0, 1], [-1, 0.5]]);
+    expect([0, 1, 2, 3].map(i => view.getInt16(44 + i * 2, true))).toEqual([0, -32768, 32767, 16384]);
+  });
+
+  it('clips samples outside [-1, 1]', async () => {
+    const { view } = await encode([[1.5, -2]]);
+    expect([view.getInt16(44, true), view.getInt16(46, true)]).toEqual([32767, -32768]);
+  });
+
+  it('writes unsigned 8-bit samples and pads an odd data chunk', async () => {
+    const { bytes, view } = await encode([[0, 1, -1]], { format: 'pcm8' });
+    expect(view.getUint16(20, true)).toBe(1);
+    expect(view.getUint16(34, true)).toBe(8);
+    expect(view.getUint32(40, true)).toBe(3);
+    expect([...bytes.subarray(44, 47)]).toEqual([128, 255, 0]);
+    // Pad byte after the odd-length data, counted in the RIFF size but not the data size
+    expect(bytes.length).toBe(48);
+    expect(view.getUint32(4, true)).toBe(40);
+  });
+
+  it('writes WAVE_FORMAT_EXTENSIBLE with little-endian 24-bit samples', async () => {
+    const { bytes, view } = await encode([[1, -1, 0]], { format: 'pcm24' });
+    expect(view.getUint32(16, true)).toBe(40);
+    expect(view.getUint16(20, true)).toBe(0xFFFE);
+    expect(view.getUint16(32, true)).toBe(3);
+    expect(view.getUint16(34, true)).toBe(24);
+    expect(view.getUint16(36, true)).toBe(22); // cbSize
+    expect(view.getUint16(38, true)).toBe(24); // valid bits
+    expect(view.getUint32(40, true)).toBe(0x4); // front center
+    expect(view.getUint32(44, true)).toBe(1); // KSDATAFORMAT_SUBTYPE_PCM
+    expect([...bytes.subarray(48, 60)]).toEqual([0x00, 0x00, 0x10, 0x00, 0x80, 0x00, 0x00, 0xAA, 0x00, 0x38, 0x9B, 0x71]);
+    expect(ascii(bytes, 60)).toBe('data');
+    expect(view.getUint32(64, true)).toBe(9);
+    expect([...bytes.subarray(68, 77)]).toEqual([0xFF, 0xFF, 0x7F, 0x00, 0x00, 0x80, 0x00, 0x00, 0x00]);
+  });
+
+  it('writes full-range 32-bit integer samples', async () => {
+    const { view } = await encode([[1, -1]], { format: 'pcm32' });
+    expect(view.getUint16(20, true)).toBe(0xFFFE);
+    expect(view.getUint16(34, true)).toBe(32);
+    expect([view.getInt32(68, true), view.getInt32(72, true)]).toEqual([2147483647, -2147483648]);
+  });
+
+  it('writes float samples unchanged with a fact chunk', async () => {
+    const samples = [0.25, -0.75, 1.5];
+    const { bytes, view } = await encode([samples], { format: 'float32' });
+    expect(view.getUint16(20, true)).toBe(0xFFFE);
+    expect(view.getUint32(44, true)).toBe(3); // KSDATAFORMAT_SUBTYPE_IEEE_FLOAT
+    expect(ascii(bytes, 60)).toBe('fact');
+    expect(view.getUint32(64, true)).toBe(4);
+    expect(view.getUint32(68, true)).toBe(3); // frames
+    expect(ascii(bytes, 72)).toBe('data');
+    expect(view.getUint32(76, true)).toBe(12);
+    expect([0, 1, 2].map(i => view.getFloat32(80 + i * 4, true))).toEqual(samples);
+  });
+
+  it('writes N-channel audio with the matching speaker mask, interleaved in buffer order', async () => {
+    const channels = Array.from({ length: 6 }, (_, c) => [(c + 1) / 10, -(c + 1) / 10]);
+    const { view } = await encode(channels);
+    expect(view.getUint16(20, true)).toBe(0xFFFE);
+    expect(view.getUint16(22, true)).toBe(6);
+    expect(view.getUint16(32, true)).toBe(12);
+    expect(view.getUint32(40, true)).toBe(0x3F); // 5.1
+    expect(view.getUint32(64, true)).toBe(24);
+
+    const samples = Array.from({ length: 12 }, (_, i) => view.getInt16(68 + i * 2, true));
+    const expected = [0, 1].flatMap(frame =>
+      channels.map(ch => Math.round(ch[frame] < 0 ? ch[frame] * 32768 : ch[frame] * 32767)));
+    expect(samples).toEqual(expected);
+  });
+
+  it('keeps dithered samples within one step of the undithered value', async () => {
+    const samples = Array.from({ length: 256 }, (_, i) => Math.sin(i / 10) * 0.5);
+    const plain = await encode([samples]);
+    const dithered = await encode([samples], { dither: true });
+    for (let i = 0; i < samples.length; i++) {
+      const diff = dithered.view.getInt16(44 + i * 2, true) - plain.view.getInt16(44 + i * 2, true);
+      expect(Math.abs(diff)).toBeLessThanOrEqual(1);
+    }
+  });
+
+  it('ignores dither for float output', async () => {
+    const { view } = await encode([[0.1]], { format: 'float32', dither: true });
+    expect(view.getFloat32(80, true)).toBe(Math.fround(0.1));
+  });
+
+  it('counts tag chunks after the audio in the RIFF size', async () => {
+    const { bytes, view } = await encode([[0, 0]], { tags: { title: 'Test' } });
+    expect(bytes.length).toBeGreaterThan(48);
+    expect(view.getUint32(4, true)).toBe(bytes.length - 8);
+    expect(view.getUint32(40, true)).toBe(4);
+  });
+});
+
+const tc = (format: TimecodeOptions['format'], frameRate = 25, sampleRate = 48000): TimecodeOptions =>
+  ({ format, frameRate, sampleRate });
+
+describe('formatTimecode / parseTimecode', () => {
+  it('round-trips seconds to the millisecond', () => {
+    const options = tc('seconds');
+    expect(formatTimecode(12.3456, options)).toBe('12.346');
+    expect(parseTimecode('12.346', options)).toBe(12.346);
+    expect(parseTimecode('1.5s', tc('samples'))).toBe(1.5);
+    expect(formatTimecode(-3, options)).toBe('0.000');
+  });
+
+  it('round-trips clock time, with or without hours', () => {
+    const options = tc('clock');
+    expect(formatTimecode(3723.456, options)).toBe('62:03.456');
+    expect(parseTimecode('62:03.456', options)).toBeCloseTo(3723.456, 9);
+    expect(parseTimecode('1:02:03.5', options)).toBe(3723.5);
+    expect(parseTimecode('00:07', options)).toBe(7);
+  });
+
+  it('round-trips SMPTE at integer rates', () => {
+    const options = tc('smpte', 25);
+    expect(formatTimecode(3601.24, options)).toBe('01:00:01:06');
+    expect(parseTimecode('01:00:01:06', options)).toBeCloseTo(3601.24, 9);
+    for (let frame = 0; frame < 5000; frame += 37) {
+      expect(parseTimecode(formatTimecode(frame / 25, options), options)).toBeCloseTo(frame / 25, 9);
+    }
+  });
+
+  it('counts 29.97 fps in drop-frame', () => {
+    const options = tc('smpte', 29.97);
+    const at = (frame: number) => formatTimecode(frame / 29.97, options);
+    expect(at(0)).toBe('00:00:00;00');
+    expect(at(1799)).toBe('00:00:59;29');
+    expect(at(1800)).toBe('00:01:00;02');
+    expect(at(17981)).toBe('00:09:59;29');
+    expect(at(17982)).toBe('00:10:00;00');
+    expect(at(107892)).toBe('01:00:00;00');
+    expect(parseTimecode('00:01:00;02', options)).toBeCloseTo(1800 / 29.97, 9);
+    expect(parseTimecode('01:00:00;00', options)).toBeCloseTo(107892 / 29.97, 9);
+  });
+
+  it('round-trips every drop-frame label across minute and ten-minute boundaries', () => {
+    for (const rate of [29.97, 59.94]) {
+      const options = tc('smpte', rate);
+      for (let frame = 0; frame < rate * 60 * 21; frame += 7) {
+        expect(parseTimecode(formatTimecode(frame / rate, options), options)).toBeCloseTo(frame / rate, 9);
+      }
+    }
+    expect(formatTimecode(3600 / 59.94, tc('smpte', 59.94))).toBe('00:01:00;04');
+  });
+
+  it('keeps non-drop-frame counting at 23.976 fps and for colon-separated input', () => {
+    expect(formatTimecode(1440 / 23.976, tc('smpte', 23.976))).toBe('00:01:00:00');
+    expect(parseTimecode('00:01:00:00', tc('smpte', 29.97))).toBeCloseTo(1800 / 29.97, 9);
+  });
+
+  it('round-trips sample indices', () => {
+    const options = tc('samples', 25, 44100);
+    expect(formatTimecode(1.5, options)).toBe('66150');
+    expect(parseTimecode('66150', options)).toBe(1.5);
+    expect(parseTimecode('48000 smp', tc('seconds'))).toBe(1);
+  });
+
+  it('rejects malformed input', () => {
+    const options = tc('smpte', 25);
+    const invalid = [
+      '', '   ', 'abc', '-1', '1.2.3', '1:60', '1:02:60', '00:60:00', '00:00:60:00', '00:00:00:25',
+      '1:2:3:4:5', '1::2', '00:00:01.5:00', '12x',
+    ];
+    invalid.forEach(text => expect(parseTimecode(text, options), text).toBeNull());
+    // Drop-frame needs a drop-frame rate, and the skipped frame numbers don't exist
+    expect(parseTimecode('00:00:00;00', options)).toBeNull();
+    expect(parseTimecode('00:01:00;00', tc('smpte', 29.97))).toBeNull();
+    expect(parseTimecode('00:01:00;01', tc('smpte', 29.97))).toBeNull();
+    expect(parseTimecode('00:10:00;00', tc('smpte', 29.97))).toBe(17982 / 29.97);
+    // Sample indices are whole numbers
+    expect(parseTimecode('1.5', tc('samples'))).toBeNull();
+    expect(parseTimecode('1.5smp', tc('seconds'))).toBeNull();
+  });
+});
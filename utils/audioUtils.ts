@@ -1,3 +1,12 @@
+import { describeAudioFormat, probeAudio } from './audioProbe';
+import { ENCODER_CONSTRAINTS, EXPORT_MIME_TYPES, ExportFormatOptions } from './exportFormats';
+import { conformBuffer } from './reelUtils';
+import { hasTags } from './tagUtils';
+import { buildWavTagChunks } from './tagWriter';
+import { decodeWithWasm, hasWasmDecoder } from './wasmDecoders';
+import { AudioTags } from '../types';
+import type { EncoderWorkerRequest, EncoderWorkerResponse } from '../workers/encoderWorker';
+
 /**
  * Writes a string to a DataView
  */
@@ -7,58 +16,176 @@ function writeString(view: DataView, offset: number, string: string) {
   }
 }
 
+export type WavSampleFormat = 'pcm8' | 'pcm16' | 'pcm24' | 'pcm32' | 'float32';
+
+export interface WavEncodeOptions {
+  format?: WavSampleFormat;
+  /** Add TPDF dither before quantizing to 8/16/24-bit integer samples */
+  dither?: boolean;
+  /** Written as LIST/INFO and "id3 " chunks after the audio */
+  tags?: AudioTags;
+}
+
+export const WAV_FORMAT_LABELS: Record<WavSampleFormat, string> = {
+  pcm8: '8-bit PCM',
+  pcm16: '16-bit PCM',
+  pcm24: '24-bit PCM',
+  pcm32: '32-bit PCM',
+  float32: '32-bit Float',
+};
+
+const BITS_PER_SAMPLE: Record<WavSampleFormat, number> = {
+  pcm8: 8,
+  pcm16: 16,
+  pcm24: 24,
+  pcm32: 32,
+  float32: 32,
+};
+
+const WAVE_FORMAT_PCM = 0x0001;
+const WAVE_FORMAT_IEEE_FLOAT = 0x0003;
+const WAVE_FORMAT_EXTENSIBLE = 0xFFFE;
+
 /**
- * Encodes an AudioBuffer to a WAV Blob
+ * Default speaker masks (dwChannelMask) for common channel counts.
+ * Web Audio's 4/6 channel layouts map onto quad and 5.1 in WAV order.
  */
-export function audioBufferToWav(buffer: AudioBuffer): Blob {
-  const numChannels = buffer.numberOfChannels;
-  const sampleRate = buffer.sampleRate;
-  const format = 1; // PCM
-  const bitDepth = 16;
+const CHANNEL_MASKS: Record<number, number> = {
+  1: 0x4,   // FC
+  2: 0x3,   // FL FR
+  3: 0x7,   // FL FR FC
+  4: 0x33,  // FL FR BL BR
+  5: 0x37,  // FL FR FC BL BR
+  6: 0x3F,  // FL FR FC LFE BL BR
+  7: 0x13F, // 5.1 + BC
+  8: 0x63F, // 5.1 + SL SR
+};
 
-  let result: Float32Array;
-  if (numChannels === 2) {
-    result = interleave(buffer.getChannelData(0), buffer.getChannelData(1));
-  } else {
-    result = buffer.getChannelData(0);
+/**
+ * Encodes an AudioBuffer to a WAV Blob.
+ * Defaults to 16-bit PCM; all channels are interleaved in buffer order.
+ */
+export function audioBufferToWav(buffer: AudioBuffer, options: WavEncodeOptions = {}): Blob {
+  const channels: Float32Array[] = [];
+  for (let i = 0; i < buffer.numberOfChannels; i++) {
+    channels.push(buffer.getChannelData(i));
   }
+  const metadata = hasTags(options.tags) ? buildWavTagChunks(options.tags) : [];
+  return encodeWAV(channels, buffer.sampleRate, options.format || 'pcm16', !!options.dither, metadata);
+}
 
-  return encodeWAV(result, numChannels, sampleRate, bitDepth);
+/**
+ * Encodes an AudioBuffer in the chosen export format, tags included. WAV is
+ * written directly; MP3, Opus and FLAC are encoded in a Web Worker, after
+ * resampling or downmixing when the encoder can't take the buffer as it is.
+ */
+export async function encodeAudio(
+  buffer: AudioBuffer,
+  options: ExportFormatOptions,
+  onProgress?: (fraction: number) => void,
+  tags: AudioTags = {}
+): Promise<Blob> {
+  if (options.format === 'wav') return audioBufferToWav(buffer, { ...options.wav, tags });
+
+  const format = options.format;
+  const { sampleRates, maxChannels } = ENCODER_CONSTRAINTS[format];
+  const sampleRate = !sampleRates || sampleRates.includes(buffer.sampleRate)
+    ? buffer.sampleRate
+    : sampleRates.find(rate => rate >= buffer.sampleRate) ?? sampleRates[sampleRates.length - 1];
+  const input = await conformBuffer(buffer, sampleRate, Math.min(buffer.numberOfChannels, maxChannels));
+
+  const parts = await new Promise<Uint8Array[]>((resolve, reject) => {
+    const worker = new Worker(new URL('../workers/encoderWorker.ts', import.meta.url), { type: 'module' });
+
+    // Copies are transferred so the editor's buffer stays usable
+    const channels: Float32Array[] = [];
+    for (let c = 0; c < input.numberOfChannels; c++) {
+      channels.push(input.getChannelData(c).slice());
+    }
+
+    worker.onmessage = (e: MessageEvent<EncoderWorkerResponse>) => {
+      const message = e.data;
+      if (message.type === 'progress') {
+        onProgress?.(message.value);
+        return;
+      }
+      worker.terminate();
+      if (message.type === 'result') {
+        resolve(message.parts);
+      } else {
+        reject(new Error(message.message));
+      }
+    };
+    worker.onerror = (e) => {
+      worker.terminate();
+      reject(new Error(e.message || 'Encoder worker failed'));
+    };
+
+    const common = { channels, sampleRate: input.sampleRate, tags };
+    const request: EncoderWorkerRequest =
+      format === 'mp3' ? { ...common, format, options: options.mp3 }
+      : format === 'opus' ? { ...common, format, options: options.opus }
+      : { ...common, format, options: options.flac };
+    worker.postMessage(request, channels.map(c => c.buffer));
+  });
+
+  return new Blob(parts, { type: EXPORT_MIME_TYPES[format] });
 }
 
-function interleave(inputL: Float32Array, inputR: Float32Array): Float32Array {
-  const length = inputL.length + inputR.length;
-  const result = new Float32Array(length);
+/**
+ * Interleaves planar channel data frame by frame: [c0 c1 ... cN-1][c0 c1 ...]...
+ */
+export function interleave(channels: Float32Array[]): Float32Array {
+  const numChannels = channels.length;
+  const frames = numChannels > 0 ? channels[0].length : 0;
+  const result = new Float32Array(frames * numChannels);
 
   let index = 0;
-  let inputIndex = 0;
-
-  while (index < length) {
-    result[index++] = inputL[inputIndex];
-    result[index++] = inputR[inputIndex];
-    inputIndex++;
+  for (let i = 0; i < frames; i++) {
+    for (let c = 0; c < numChannels; c++) {
+      result[index++] = channels[c][i];
+    }
   }
   return result;
 }
 
-function encodeWAV(samples: Float32Array, numChannels: number, sampleRate: number, bitDepth: number): Blob {
+function encodeWAV(
+  channels: Float32Array[],
+  sampleRate: number,
+  format: WavSampleFormat,
+  dither: boolean,
+  metadata: Uint8Array[] = []
+): Blob {
+  const numChannels = channels.length;
+  const frames = numChannels > 0 ? channels[0].length : 0;
+  const bitDepth = BITS_PER_SAMPLE[format];
+  const isFloat = format === 'float32';
+  // Plain WAVEFORMAT is only unambiguous for 8/16-bit PCM in mono or stereo;
+  // everything else gets WAVE_FORMAT_EXTENSIBLE with an explicit speaker mask.
+  const extensible = isFloat || bitDepth > 16 || numChannels > 2;
+
   const bytesPerSample = bitDepth / 8;
   const blockAlign = numChannels * bytesPerSample;
-  const buffer = new ArrayBuffer(44 + samples.length * bytesPerSample);
+  const dataLength = frames * blockAlign;
+  const fmtLength = extensible ? 40 : 16;
+  const factLength = isFloat ? 12 : 0;
+  const headerLength = 12 + 8 + fmtLength + factLength + 8;
+  const buffer = new ArrayBuffer(headerLength + dataLength + (dataLength % 2));
   const view = new DataView(buffer);
+  const metadataLength = metadata.reduce((sum, chunk) => sum + chunk.length, 0);
 
   /* RIFF identifier */
   writeString(view, 0, 'RIFF');
-  /* RIFF chunk length */
-  view.setUint32(4, 36 + samples.length * bytesPerSample, true);
+  /* RIFF chunk length (metadata chunks follow the data) */
+  view.setUint32(4, buffer.byteLength + metadataLength - 8, true);
   /* RIFF type */
   writeString(view, 8, 'WAVE');
   /* format chunk identifier */
   writeString(view, 12, 'fmt ');
   /* format chunk length */
-  view.setUint32(16, 16, true);
-  /* sample format (raw) */
-  view.setUint16(20, 1, true);
+  view.setUint32(16, fmtLength, true);
+  /* sample format */
+  view.setUint16(20, extensible ? WAVE_FORMAT_EXTENSIBLE : WAVE_FORMAT_PCM, true);
   /* channel count */
   view.setUint16(22, numChannels, true);
   /* sample rate */
@@ -69,21 +196,194 @@ function encodeWAV(samples: Float32Array, numChannels: number, sampleRate: numbe
   view.setUint16(32, blockAlign, true);
   /* bits per sample */
   view.setUint16(34, bitDepth, true);
+  let offset = 36;
+
+  if (extensible) {
+    /* size of the extension */
+    view.setUint16(36, 22, true);
+    /* valid bits per sample */
+    view.setUint16(38, bitDepth, true);
+    /* speaker position mask */
+    view.setUint32(40, CHANNEL_MASKS[numChannels] || 0, true);
+    /* sub format GUID: xxxxxxxx-0000-0010-8000-00aa00389b71 */
+    view.setUint32(44, isFloat ? WAVE_FORMAT_IEEE_FLOAT : WAVE_FORMAT_PCM, true);
+    view.setUint16(48, 0x0000, true);
+    view.setUint16(50, 0x0010, true);
+    [0x80, 0x00, 0x00, 0xAA, 0x00, 0x38, 0x9B, 0x71].forEach((b, i) => view.setUint8(52 + i, b));
+    offset = 60;
+  }
+
+  if (isFloat) {
+    /* fact chunk: sample frames per channel, required for non-PCM data */
+    writeString(view, offset, 'fact');
+    view.setUint32(offset + 4, 4, true);
+    view.setUint32(offset + 8, frames, true);
+    offset += 12;
+  }
+
   /* data chunk identifier */
-  writeString(view, 36, 'data');
+  writeString(view, offset, 'data');
   /* data chunk length */
-  view.setUint32(40, samples.length * bytesPerSample, true);
+  view.setUint32(offset + 4, dataLength, true);
+  offset += 8;
+
+  writeSamples(view, offset, channels, format, dither && !isFloat && bitDepth < 32);
+
+  return new Blob([view, ...metadata], { type: 'audio/wav' });
+}
+
+/**
+ * Triangular PDF noise spanning +/- 1 LSB
+ */
+const tpdf = () => Math.random() - Math.random();
+
+function writeSamples(output: DataView, offset: number, channels: Float32Array[], format: WavSampleFormat, dither: boolean) {
+  const numChannels = channels.length;
+  const frames = numChannels > 0 ? channels[0].length : 0;
+
+  if (format === 'float32') {
+    for (let i = 0; i < frames; i++) {
+      for (let c = 0; c < numChannels; c++, offset += 4) {
+        output.setFloat32(offset, channels[c][i], true);
+      }
+    }
+    return;
+  }
+
+  const bitDepth = BITS_PER_SAMPLE[format];
+  const negScale = 2 ** (bitDepth - 1);
+  const posScale = negScale - 1;
+
+  for (let i = 0; i < frames; i++) {
+    for (let c = 0; c < numChannels; c++) {
+      const s = Math.max(-1, Math.min(1, channels[c][i]));
+      let value = s < 0 ? s * negScale : s * posScale;
+      if (dither) value += tpdf();
+      value = Math.max(-negScale, Math.min(posScale, Math.round(value)));
+
+      switch (bitDepth) {
+        case 8:
+          // 8-bit WAV is unsigned with a 128 offset
+          output.setUint8(offset, value + 128);
+          offset += 1;
+          break;
+        case 16:
+          output.setInt16(offset, value, true);
+          offset += 2;
+          break;
+        case 24:
+          output.setUint8(offset, value & 0xFF);
+          output.setUint8(offset + 1, (value >> 8) & 0xFF);
+          output.setUint8(offset + 2, (value >> 16) & 0xFF);
+          offset += 3;
+          break;
+        default:
+          output.setInt32(offset, value, true);
+          offset += 4;
+      }
+    }
+  }
+}
+
+/**
+ * Copies the [start, end) range (in seconds) of a buffer into a new AudioBuffer.
+ * Returns null when the range is empty.
+ */
+export function sliceAudioBuffer(buffer: AudioBuffer, start: number, end: number): AudioBuffer | null {
+  const sampleRate = buffer.sampleRate;
+  const startFrame = Math.max(0, Math.floor(start * sampleRate));
+  const endFrame = Math.min(buffer.length, Math.floor(end * sampleRate));
+  const frameCount = endFrame - startFrame;
+
+  if (frameCount <= 0) return null;
+
+  const newBuffer = new AudioBuffer({
+    numberOfChannels: buffer.numberOfChannels,
+    length: frameCount,
+    sampleRate,
+  });
+
+  for (let i = 0; i < buffer.numberOfChannels; i++) {
+    newBuffer.copyToChannel(buffer.getChannelData(i).subarray(startFrame, endFrame), i);
+  }
+  return newBuffer;
+}
+
+/**
+ * Decodes a file at full resolution (WaveSurfer only keeps a low-rate copy for drawing).
+ * Pass the file's own sample rate to keep it: without one the browser
+ * resamples to the output device's rate. Formats the browser can't decode go
+ * through a WebAssembly decoder; errors name the format so the user knows why
+ * a file won't open.
+ */
+export async function decodeAudioFile(file: Blob, sampleRate?: number): Promise<AudioBuffer> {
+  let audioCtx: BaseAudioContext | null = null;
+  try {
+    // An offline context decodes at its own rate without opening the audio device
+    audioCtx = sampleRate ? new OfflineAudioContext(1, 1, sampleRate) : new AudioContext();
+    return await audioCtx.decodeAudioData(await file.arrayBuffer());
+  } catch (err) {
+    console.warn("Browser decoding failed, probing the file", err);
+  } finally {
+    if (audioCtx instanceof AudioContext) audioCtx.close().catch(() => undefined);
+  }
+
+  const format = await probeAudio(file);
+  if (!format) throw new Error('不是可识别的音频文件');
+  if (!hasWasmDecoder(format)) throw new Error(`浏览器无法解码此格式: ${describeAudioFormat(format)}`);
+  return decodeWithWasm(file, format, sampleRate);
+}
+
+/**
+ * Triggers a browser download for a Blob through a hidden anchor
+ */
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
 
-  floatTo16BitPCM(view, 44, samples);
+  const a = document.createElement('a');
+  a.style.display = 'none';
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
 
-  return new Blob([view], { type: 'audio/wav' });
+  setTimeout(() => {
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  }, 100);
 }
 
-function floatTo16BitPCM(output: DataView, offset: number, input: Float32Array) {
-  for (let i = 0; i < input.length; i++, offset += 2) {
-    const s = Math.max(-1, Math.min(1, input[i]));
-    output.setInt16(offset, s < 0 ? s * 0x8000 : s * 0x7FFF, true);
+/**
+ * Whether a picked or dropped file looks like audio. Some systems leave the MIME
+ * type empty, so common extensions count too.
+ */
+export const isAudioFile = (file: File): boolean =>
+  file.type.startsWith('audio/') || /\.(mp3|wav|ogg|oga|opus|flac|m4a|aac|webm|aiff?|caf)$/i.test(file.name);
+
+/**
+ * Strips the extension from a file name
+ */
+export const getBaseName = (fileName: string): string => fileName.replace(/\.[^/.]+$/, "");
+
+/**
+ * Replaces characters that are not allowed in file names on common platforms
+ */
+export const sanitizeFileName = (name: string): string =>
+  name.replace(/[\\/:*?"<>|\x00-\x1f]/g, '_').replace(/\s+/g, ' ').trim() || 'untitled';
+
+/**
+ * Appends _2, _3, ... before the extension until the name is not in `used`, then records it
+ */
+export function makeUniqueFileName(name: string, used: Set<string>): string {
+  const dot = name.lastIndexOf('.');
+  const stem = dot > 0 ? name.slice(0, dot) : name;
+  const ext = dot > 0 ? name.slice(dot) : '';
+  let candidate = name;
+  for (let n = 2; used.has(candidate.toLowerCase()); n++) {
+    candidate = `${stem}_${n}${ext}`;
   }
+  used.add(candidate.toLowerCase());
+  return candidate;
 }
 
 /**
@@ -95,3 +395,161 @@ export const formatTime = (seconds: number): string => {
   const ms = Math.floor((seconds % 1) * 100);
   return `${m.toString().padStart(2, '0')}:${s.toString().padStart(2, '0')}.${ms.toString().padStart(2, '0')}`;
 };
+
+export type TimecodeFormat = 'seconds' | 'clock' | 'smpte' | 'samples';
+
+export interface TimecodeOptions {
+  format: TimecodeFormat;
+  /** Frames per second for SMPTE display; 29.97 and 59.94 use drop-frame counting */
+  frameRate: number;
+  sampleRate: number;
+}
+
+export const TIMECODE_FORMAT_LABELS: Record<TimecodeFormat, string> = {
+  seconds: '秒',
+  clock: 'MM:SS.mmm',
+  smpte: 'HH:MM:SS:FF',
+  samples: '采样点',
+};
+
+export const FRAME_RATES = [23.976, 24, 25, 29.97, 30, 50, 59.94, 60];
+
+/**
+ * Frame numbers skipped at the start of every minute except each tenth one,
+ * for rates counted in drop-frame (0 otherwise). 23.976 has no drop-frame form.
+ */
+const getDroppedFrames = (frameRate: number): number =>
+  frameRate === 29.97 ? 2 : frameRate === 59.94 ? 4 : 0;
+
+/**
+ * Formats seconds in one of the timecode formats used by the numeric region fields
+ */
+export const formatTimecode = (seconds: number, options: TimecodeOptions): string => {
+  const t = Math.max(0, seconds);
+  switch (options.format) {
+    case 'seconds':
+      return t.toFixed(3);
+    case 'clock': {
+      const totalMs = Math.round(t * 1000);
+      const m = Math.floor(totalMs / 60000);
+      const s = Math.floor(totalMs / 1000) % 60;
+      const ms = totalMs % 1000;
+      return `${m.toString().padStart(2, '0')}:${s.toString().padStart(2, '0')}.${ms.toString().padStart(3, '0')}`;
+    }
+    case 'smpte': {
+      const nominal = Math.round(options.frameRate);
+      const dropped = getDroppedFrames(options.frameRate);
+      let totalFrames = Math.round(t * options.frameRate);
+      if (dropped) {
+        // Add back the frame numbers skipped so far, so the label matches wall-clock time
+        const perTenMinutes = Math.round(options.frameRate * 600);
+        const perMinute = nominal * 60 - dropped;
+        const tens = Math.floor(totalFrames / perTenMinutes);
+        const rest = totalFrames % perTenMinutes;
+        totalFrames += dropped * 9 * tens + (rest > dropped ? dropped * Math.floor((rest - dropped) / perMinute) : 0);
+      }
+      const ff = totalFrames % nominal;
+      const totalSeconds = Math.floor(totalFrames / nominal);
+      const hh = Math.floor(totalSeconds / 3600);
+      const mm = Math.floor(totalSeconds / 60) % 60;
+      const ss = totalSeconds % 60;
+      const [h, m, sec, f] = [hh, mm, ss, ff].map(n => n.toString().padStart(2, '0'));
+      // Drop-frame timecode is written with a semicolon before the frames
+      return `${h}:${m}:${sec}${dropped ? ';' : ':'}${f}`;
+    }
+    case 'samples':
+      return String(Math.round(t * options.sampleRate));
+  }
+};
+
+const UNSIGNED_INT = /^\d+$/;
+const UNSIGNED_DECIMAL = /^(\d+(\.\d*)?|\.\d+)$/;
+
+/**
+ * Parses any supported timecode back to seconds. The shape decides the format:
+ * HH:MM:SS:FF is SMPTE (HH:MM:SS;FF drop-frame, at 29.97 or 59.94 fps only),
+ * [HH:]MM:SS[.mmm] is clock time, and a bare number is
+ * read as seconds or samples depending on the selected format (a trailing "s"
+ * or "smp" forces one or the other). Returns null for invalid input.
+ */
+export const parseTimecode = (text: string, options: TimecodeOptions): number | null => {
+  const value = text.trim().toLowerCase();
+  if (!value) return null;
+
+  const dropFrame = value.match(/^(\d+):(\d+):(\d+);(\d+)$/);
+  if (dropFrame) {
+    const dropped = getDroppedFrames(options.frameRate);
+    const [hh, mm, ss, ff] = dropFrame.slice(1).map(Number);
+    const nominal = Math.round(options.frameRate);
+    if (!dropped || mm >= 60 || ss >= 60 || ff >= nominal) return null;
+    // Frame numbers that drop-frame counting skips don't exist
+    if (ss === 0 && ff < dropped && mm % 10 !== 0) return null;
+    const minutes = hh * 60 + mm;
+    const frames = (hh * 3600 + mm * 60 + ss) * nominal + ff - dropped * (minutes - Math.floor(minutes / 10));
+    return frames / options.frameRate;
+  }
+
+  const parts = value.split(':');
+
+  if (parts.length === 4) {
+    if (!parts.every(p => UNSIGNED_INT.test(p))) return null;
+    const [hh, mm, ss, ff] = parts.map(Number);
+    const nominal = Math.round(options.frameRate);
+    if (mm >= 60 || ss >= 60 || ff >= nominal) return null;
+    return ((hh * 3600 + mm * 60 + ss) * nominal + ff) / options.frameRate;
+  }
+
+  if (parts.length === 2 || parts.length === 3) {
+    const seconds = parts[parts.length - 1];
+    const units = parts.slice(0, -1);
+    if (!UNSIGNED_DECIMAL.test(seconds) || !units.every(p => UNSIGNED_INT.test(p))) return null;
+    const s = Number(seconds);
+    const [first, second] = units.map(Number);
+    if (s >= 60) return null;
+    if (units.length === 2) {
+      if (second >= 60) return null;
+      return first * 3600 + second * 60 + s;
+    }
+    return first * 60 + s;
+  }
+
+  if (parts.length === 1) {
+    const match = value.match(/^(.*?)\s*(smp|s)?$/);
+    if (!match || !UNSIGNED_DECIMAL.test(match[1])) return null;
+    const n = Number(match[1]);
+    const asSamples = match[2] === 'smp' || (!match[2] && options.format === 'samples');
+    if (asSamples) {
+      return UNSIGNED_INT.test(match[1]) ? n / options.sampleRate : null;
+    }
+    return n;
+  }
+
+  return null;
+};
+
+export type NudgeUnit = 'sample' | '10ms' | 'frame';
+
+export const NUDGE_UNIT_LABELS: Record<NudgeUnit, string> = {
+  sample: '1 采样点',
+  '10ms': '10 毫秒',
+  frame: '1 帧',
+};
+
+/**
+ * Length of one nudge step in seconds
+ */
+export const getNudgeStep = (unit: NudgeUnit, options: Pick<TimecodeOptions, 'frameRate' | 'sampleRate'>): number => {
+  switch (unit) {
+    case 'sample':
+      return 1 / options.sampleRate;
+    case '10ms':
+      return 0.01;
+    case 'frame':
+      return 1 / options.frameRate;
+  }
+};
+
+/**
+ * Rounds a time to the nearest multiple of `step` seconds
+ */
+export const snapToGrid = (seconds: number, step: number): number => Math.round(seconds / step) * step;
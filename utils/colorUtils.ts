@@ -0,0 +1,30 @@
+export const DEFAULT_REGION_COLOR = 'rgba(99, 102, 241, 0.3)';
+export const REGION_ALPHA = 0.3;
+
+/**
+ * Converts #rrggbb to an rgba() string with the given alpha
+ */
+export function hexToRgba(hex: string, alpha: number = REGION_ALPHA): string {
+  const value = hex.replace('#', '');
+  const r = parseInt(value.slice(0, 2), 16);
+  const g = parseInt(value.slice(2, 4), 16);
+  const b = parseInt(value.slice(4, 6), 16);
+  return `rgba(${r}, ${g}, ${b}, ${alpha})`;
+}
+
+/**
+ * Converts an rgb()/rgba()/#rgb/#rrggbb color to #rrggbb (alpha is dropped), for <input type="color">
+ */
+export function colorToHex(color: string | undefined, fallback: string = '#6366f1'): string {
+  if (!color) return fallback;
+  const rgb = color.match(/rgba?\(\s*(\d+)\s*,\s*(\d+)\s*,\s*(\d+)/i);
+  if (rgb) {
+    return '#' + rgb.slice(1, 4).map(n => Number(n).toString(16).padStart(2, '0')).join('');
+  }
+  const hex = color.match(/^#([0-9a-f]{3}|[0-9a-f]{6})$/i);
+  if (hex) {
+    const digits = hex[1].length === 3 ? hex[1].split('').map(d => d + d).join('') : hex[1];
+    return `#${digits.toLowerCase()}`;
+  }
+  return fallback;
+}
@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import { mapRangeThroughEdit, mapRangeThroughEdits, mapSegmentsThroughEdits } from './editUtils';
+import { EditOperation } from '../types';
+
+describe('mapRangeThroughEdit', () => {
+  const del: EditOperation = { type: 'delete', start: 10, end: 20 };
+
+  it('leaves ranges before a deletion alone and moves later ones back', () => {
+    expect(mapRangeThroughEdit(2, 8, del)).toEqual({ start: 2, end: 8 });
+    expect(mapRangeThroughEdit(25, 30, del)).toEqual({ start: 15, end: 20 });
+    expect(mapRangeThroughEdit(20, 22, del)).toEqual({ start: 10, end: 12 });
+  });
+
+  it('shortens ranges that overlap a deletion', () => {
+    expect(mapRangeThroughEdit(5, 15, del)).toEqual({ start: 5, end: 10 });
+    expect(mapRangeThroughEdit(15, 25, del)).toEqual({ start: 10, end: 15 });
+    expect(mapRangeThroughEdit(5, 25, del)).toEqual({ start: 5, end: 15 });
+  });
+
+  it('drops ranges inside a deletion', () => {
+    expect(mapRangeThroughEdit(12, 18, del)).toBeNull();
+    expect(mapRangeThroughEdit(10, 20, del)).toBeNull();
+  });
+
+  it('keeps what a crop keeps, relative to its start', () => {
+    const crop: EditOperation = { type: 'crop', start: 10, end: 20 };
+    expect(mapRangeThroughEdit(12, 15, crop)).toEqual({ start: 2, end: 5 });
+    expect(mapRangeThroughEdit(5, 25, crop)).toEqual({ start: 0, end: 10 });
+    expect(mapRangeThroughEdit(0, 9, crop)).toBeNull();
+    expect(mapRangeThroughEdit(21, 30, crop)).toBeNull();
+  });
+
+  it('pushes ranges after inserted silence and stretches ranges across it', () => {
+    const insert: EditOperation = { type: 'insertSilence', at: 10, duration: 3 };
+    expect(mapRangeThroughEdit(2, 8, insert)).toEqual({ start: 2, end: 8 });
+    expect(mapRangeThroughEdit(10, 12, insert)).toEqual({ start: 13, end: 15 });
+    expect(mapRangeThroughEdit(8, 12, insert)).toEqual({ start: 8, end: 15 });
+  });
+
+  it('leaves positions unchanged when silencing', () => {
+    expect(mapRangeThroughEdit(5, 25, { type: 'silence', start: 10, end: 20 })).toEqual({ start: 5, end: 25 });
+  });
+
+  it('treats anything under a millisecond as removed', () => {
+    expect(mapRangeThroughEdit(9.9995, 15, del)).toBeNull();
+  });
+});
+
+describe('mapRangeThroughEdits', () => {
+  it('applies edits in order', () => {
+    const edits: EditOperation[] = [
+      { type: 'delete', start: 0, end: 5 },
+      { type: 'insertSilence', at: 0, duration: 2 },
+      { type: 'crop', start: 1, end: 30 },
+    ];
+    // 10–20 → 5–15 → 7–17 → 6–16
+    expect(mapRangeThroughEdits(10, 20, edits)).toEqual({ start: 6, end: 16 });
+  });
+
+  it('stops at the edit that removes the range', () => {
+    const edits: EditOperation[] = [
+      { type: 'delete', start: 0, end: 10 },
+      { type: 'insertSilence', at: 0, duration: 5 },
+    ];
+    expect(mapRangeThroughEdits(2, 8, edits)).toBeNull();
+  });
+
+  it('returns the range itself without edits', () => {
+    expect(mapRangeThroughEdits(1, 2, [])).toEqual({ start: 1, end: 2 });
+  });
+});
+
+describe('mapSegmentsThroughEdits', () => {
+  it('moves segments, keeps their other fields and drops the ones cut away', () => {
+    const segments = [
+      { start: 0, end: 4, text: 'kept', speaker: 'A' },
+      { start: 5, end: 9, text: 'cut' },
+      { start: 12, end: 14, text: 'moved' },
+    ];
+    expect(mapSegmentsThroughEdits(segments, [{ type: 'delete', start: 5, end: 10 }])).toEqual([
+      { start: 0, end: 4, text: 'kept', speaker: 'A' },
+      { start: 7, end: 9, text: 'moved' },
+    ]);
+  });
+});
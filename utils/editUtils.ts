@@ -0,0 +1,146 @@
+import { EditOperation, TranscriptSegment } from '../types';
+
+export const EDIT_LABELS: Record<EditOperation['type'], string> = {
+  delete: '删除',
+  silence: '静音',
+  crop: '裁剪',
+  insertSilence: '插入静音',
+};
+
+function createBuffer(template: AudioBuffer, length: number): AudioBuffer {
+  return new AudioBuffer({
+    numberOfChannels: template.numberOfChannels,
+    // AudioBuffer cannot be empty, keep a single silent frame at minimum
+    length: Math.max(1, length),
+    sampleRate: template.sampleRate,
+  });
+}
+
+const toFrame = (buffer: AudioBuffer, time: number) =>
+  Math.max(0, Math.min(buffer.length, Math.round(time * buffer.sampleRate)));
+
+/**
+ * Applies one edit to a buffer, returning a new buffer (the input is never mutated)
+ */
+export function applyEdit(buffer: AudioBuffer, op: EditOperation): AudioBuffer {
+  const channels = buffer.numberOfChannels;
+
+  switch (op.type) {
+    case 'delete': {
+      const a = toFrame(buffer, op.start);
+      const b = toFrame(buffer, op.end);
+      const result = createBuffer(buffer, buffer.length - (b - a));
+      for (let c = 0; c < channels; c++) {
+        const src = buffer.getChannelData(c);
+        const dst = result.getChannelData(c);
+        dst.set(src.subarray(0, a), 0);
+        dst.set(src.subarray(b), a);
+      }
+      return result;
+    }
+    case 'silence': {
+      const a = toFrame(buffer, op.start);
+      const b = toFrame(buffer, op.end);
+      const result = createBuffer(buffer, buffer.length);
+      for (let c = 0; c < channels; c++) {
+        const dst = result.getChannelData(c);
+        dst.set(buffer.getChannelData(c));
+        dst.fill(0, a, b);
+      }
+      return result;
+    }
+    case 'crop': {
+      const a = toFrame(buffer, op.start);
+      const b = toFrame(buffer, op.end);
+      const result = createBuffer(buffer, b - a);
+      for (let c = 0; c < channels; c++) {
+        result.getChannelData(c).set(buffer.getChannelData(c).subarray(a, b));
+      }
+      return result;
+    }
+    case 'insertSilence': {
+      const at = toFrame(buffer, op.at);
+      const gap = Math.max(0, Math.round(op.duration * buffer.sampleRate));
+      const result = createBuffer(buffer, buffer.length + gap);
+      for (let c = 0; c < channels; c++) {
+        const src = buffer.getChannelData(c);
+        const dst = result.getChannelData(c);
+        dst.set(src.subarray(0, at), 0);
+        dst.set(src.subarray(at), at + gap);
+      }
+      return result;
+    }
+  }
+}
+
+/**
+ * Replays an edit list on top of the original buffer
+ */
+export function applyEdits(original: AudioBuffer, edits: EditOperation[]): AudioBuffer {
+  return edits.reduce((buffer, op) => applyEdit(buffer, op), original);
+}
+
+/**
+ * Moves a time range through an edit so regions and transcript segments follow
+ * the audio. Returns null when the range no longer exists after the edit.
+ */
+export function mapRangeThroughEdit(
+  start: number,
+  end: number,
+  op: EditOperation
+): { start: number; end: number } | null {
+  let result: { start: number; end: number };
+
+  switch (op.type) {
+    case 'delete': {
+      const removed = op.end - op.start;
+      if (end <= op.start) return { start, end };
+      if (start >= op.end) return { start: start - removed, end: end - removed };
+      result = {
+        start: Math.min(start, op.start),
+        end: end > op.end ? end - removed : op.start,
+      };
+      break;
+    }
+    case 'crop':
+      result = {
+        start: Math.max(start, op.start) - op.start,
+        end: Math.min(end, op.end) - op.start,
+      };
+      break;
+    case 'insertSilence':
+      if (start >= op.at) return { start: start + op.duration, end: end + op.duration };
+      return { start, end: end > op.at ? end + op.duration : end };
+    case 'silence':
+      return { start, end };
+  }
+
+  // Anything shorter than a millisecond is treated as removed
+  return result.end - result.start > 0.001 ? result : null;
+}
+
+/**
+ * Maps a range through a whole edit list, in order
+ */
+export function mapRangeThroughEdits(
+  start: number,
+  end: number,
+  edits: EditOperation[]
+): { start: number; end: number } | null {
+  let range: { start: number; end: number } | null = { start, end };
+  for (const op of edits) {
+    if (!range) break;
+    range = mapRangeThroughEdit(range.start, range.end, op);
+  }
+  return range;
+}
+
+/**
+ * Maps transcript segments through edits, dropping the ones that were cut away
+ */
+export function mapSegmentsThroughEdits(segments: TranscriptSegment[], edits: EditOperation[]): TranscriptSegment[] {
+  return segments.flatMap(seg => {
+    const mapped = mapRangeThroughEdits(seg.start, seg.end, edits);
+    return mapped ? [{ ...seg, ...mapped }] : [];
+  });
+}
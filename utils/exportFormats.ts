@@ -0,0 +1,116 @@
+import type { WavEncodeOptions } from './audioUtils';
+import type { AudioTags } from '../types';
+
+export type ExportFormat = 'wav' | 'mp3' | 'opus' | 'flac';
+
+/** Formats encoded in the encoder worker; WAV is written directly */
+export type CompressedFormat = Exclude<ExportFormat, 'wav'>;
+
+export type Mp3BitrateMode = 'cbr' | 'vbr';
+
+export interface Mp3Options {
+  mode: Mp3BitrateMode;
+  /** kbps, for constant bitrate */
+  bitrate: number;
+  /** LAME -V quality for variable bitrate, 0 (best) to 9 (smallest) */
+  vbrQuality: number;
+}
+
+export interface OpusOptions {
+  /** kbps */
+  bitrate: number;
+}
+
+export interface FlacOptions {
+  /** 0 (fastest) to 8 (smallest) */
+  compression: number;
+  bitDepth: 16 | 24;
+}
+
+/** Export format plus the settings of every format, so switching back keeps them */
+export interface ExportFormatOptions {
+  format: ExportFormat;
+  wav: WavEncodeOptions;
+  mp3: Mp3Options;
+  opus: OpusOptions;
+  flac: FlacOptions;
+}
+
+export const DEFAULT_EXPORT_FORMAT: ExportFormatOptions = {
+  format: 'wav',
+  wav: { format: 'pcm16', dither: false },
+  mp3: { mode: 'cbr', bitrate: 192, vbrQuality: 2 },
+  opus: { bitrate: 96 },
+  flac: { compression: 5, bitDepth: 16 },
+};
+
+export const EXPORT_FORMAT_LABELS: Record<ExportFormat, string> = {
+  wav: 'WAV',
+  mp3: 'MP3',
+  opus: 'Ogg Opus',
+  flac: 'FLAC',
+};
+
+export const EXPORT_EXTENSIONS: Record<ExportFormat, string> = {
+  wav: '.wav',
+  mp3: '.mp3',
+  opus: '.opus',
+  flac: '.flac',
+};
+
+export const EXPORT_MIME_TYPES: Record<ExportFormat, string> = {
+  wav: 'audio/wav',
+  mp3: 'audio/mpeg',
+  opus: 'audio/ogg; codecs=opus',
+  flac: 'audio/flac',
+};
+
+export const MP3_BITRATES = [64, 96, 128, 160, 192, 256, 320];
+export const OPUS_BITRATES = [24, 32, 48, 64, 96, 128, 160, 192, 256];
+
+export const MP3_MODE_LABELS: Record<Mp3BitrateMode, string> = {
+  cbr: '固定码率',
+  vbr: '可变码率',
+};
+
+/**
+ * What an encoder accepts. Audio outside these limits is resampled or downmixed
+ * before it is handed over.
+ */
+export interface EncoderConstraints {
+  /** Accepted sample rates, or null for any */
+  sampleRates: number[] | null;
+  maxChannels: number;
+}
+
+export const ENCODER_CONSTRAINTS: Record<CompressedFormat, EncoderConstraints> = {
+  mp3: { sampleRates: [8000, 11025, 12000, 16000, 22050, 24000, 32000, 44100, 48000], maxChannels: 2 },
+  opus: { sampleRates: [48000], maxChannels: 2 },
+  flac: { sampleRates: null, maxChannels: 8 },
+};
+
+/**
+ * Common shape of the compressed encoders: planar float channels and tags in,
+ * encoded file bytes out (as parts, ready for a Blob)
+ */
+export type EncodeFunction<O> = (
+  channels: Float32Array[],
+  sampleRate: number,
+  options: O,
+  tags: AudioTags,
+  onProgress: (fraction: number) => void
+) => Promise<Uint8Array[]>;
+
+/** Short description of the current settings, e.g. for buttons and tooltips */
+export function describeExportFormat(options: ExportFormatOptions): string {
+  switch (options.format) {
+    case 'wav':
+      return 'WAV';
+    case 'mp3':
+      return options.mp3.mode === 'vbr' ? `MP3 V${options.mp3.vbrQuality}` : `MP3 ${options.mp3.bitrate}k`;
+    case 'opus':
+      return `Opus ${options.opus.bitrate}k`;
+    case 'flac':
+      return 'FLAC';
+  }
+}
@@ -0,0 +1,98 @@
+import { FadeCurve } from '../types';
+
+export const FADE_CURVE_LABELS: Record<FadeCurve, string> = {
+  linear: '线性',
+  'equal-power': '等功率',
+  logarithmic: '对数',
+  's-curve': 'S 形',
+};
+
+// Floor of the logarithmic curve; it ramps linearly in dB from here to unity
+const LOG_FADE_FLOOR_DB = -60;
+
+/**
+ * Gain of a fade-in at position x (0 = silent start, 1 = full level).
+ * Fade-outs use the mirrored value fadeGain(1 - x).
+ */
+export function fadeGain(x: number, curve: FadeCurve): number {
+  const t = Math.max(0, Math.min(1, x));
+  switch (curve) {
+    case 'linear':
+      return t;
+    case 'equal-power':
+      return Math.sin((t * Math.PI) / 2);
+    case 'logarithmic':
+      return t === 0 ? 0 : Math.pow(10, ((1 - t) * LOG_FADE_FLOOR_DB) / 20);
+    case 's-curve':
+      return (1 - Math.cos(t * Math.PI)) / 2;
+  }
+}
+
+/**
+ * Scales both fades down proportionally when together they exceed the clip
+ */
+export function clampFades(duration: number, fadeIn = 0, fadeOut = 0): { fadeIn: number; fadeOut: number } {
+  const fin = Math.max(0, fadeIn);
+  const fout = Math.max(0, fadeOut);
+  const total = fin + fout;
+  if (total <= duration || total === 0) return { fadeIn: fin, fadeOut: fout };
+  const scale = duration / total;
+  return { fadeIn: fin * scale, fadeOut: fout * scale };
+}
+
+/**
+ * Applies fade-in and fade-out (in seconds) to a buffer in place
+ */
+export function applyFades(buffer: AudioBuffer, fadeIn: number | undefined, fadeOut: number | undefined, curve: FadeCurve = 'linear') {
+  const fades = clampFades(buffer.duration, fadeIn, fadeOut);
+  const inFrames = Math.round(fades.fadeIn * buffer.sampleRate);
+  const outFrames = Math.round(fades.fadeOut * buffer.sampleRate);
+  if (inFrames === 0 && outFrames === 0) return;
+
+  for (let c = 0; c < buffer.numberOfChannels; c++) {
+    const data = buffer.getChannelData(c);
+    for (let i = 0; i < inFrames; i++) {
+      data[i] *= fadeGain(i / inFrames, curve);
+    }
+    for (let i = 0; i < outFrames; i++) {
+      data[data.length - outFrames + i] *= fadeGain(1 - (i + 1) / outFrames, curve);
+    }
+  }
+}
+
+/**
+ * Concatenates buffers, overlapping neighbours by `crossfade` seconds (shortened
+ * when a clip is too short). Buffers must share the first buffer's sample rate;
+ * channels missing from a buffer are treated as silence.
+ */
+export function joinWithCrossfade(buffers: AudioBuffer[], crossfade: number, curve: FadeCurve = 'equal-power'): AudioBuffer {
+  const sampleRate = buffers[0].sampleRate;
+  const numberOfChannels = Math.max(...buffers.map(b => b.numberOfChannels));
+  const wanted = Math.max(0, Math.round(crossfade * sampleRate));
+
+  const overlaps = buffers.slice(1).map((b, i) => Math.min(wanted, buffers[i].length, b.length));
+  const length = buffers.reduce((sum, b) => sum + b.length, 0) - overlaps.reduce((sum, o) => sum + o, 0);
+  const result = new AudioBuffer({ numberOfChannels, length: Math.max(1, length), sampleRate });
+
+  let position = 0;
+  buffers.forEach((buffer, index) => {
+    const fadeInFrames = index > 0 ? overlaps[index - 1] : 0;
+    const fadeOutFrames = index < overlaps.length ? overlaps[index] : 0;
+    const offset = position - fadeInFrames;
+
+    for (let c = 0; c < numberOfChannels; c++) {
+      if (c >= buffer.numberOfChannels) continue;
+      const src = buffer.getChannelData(c);
+      const dst = result.getChannelData(c);
+      for (let i = 0; i < src.length; i++) {
+        let gain = 1;
+        if (i < fadeInFrames) gain *= fadeGain((i + 1) / (fadeInFrames + 1), curve);
+        if (i >= src.length - fadeOutFrames) gain *= fadeGain((src.length - i) / (fadeOutFrames + 1), curve);
+        dst[offset + i] += src[i] * gain;
+      }
+    }
+    position = offset + buffer.length;
+  });
+
+  return result;
+}
@@ -0,0 +1,361 @@
+import type { FlacOptions } from './exportFormats';
+import type { AudioTags } from '../types';
+import { hasTags } from './tagUtils';
+import { buildFlacPicture, buildVorbisComment } from './tagWriter';
+
+const BLOCK_SIZE = 4096;
+
+/**
+ * MSB-first bit packer growing as needed
+ */
+class BitWriter {
+  private bytes = new Uint8Array(1 << 16);
+  private length = 0;
+  private acc = 0;
+  private accBits = 0;
+
+  private push(byte: number) {
+    if (this.length === this.bytes.length) {
+      const grown = new Uint8Array(this.bytes.length * 2);
+      grown.set(this.bytes);
+      this.bytes = grown;
+    }
+    this.bytes[this.length++] = byte;
+  }
+
+  /** Writes the low `bits` bits of a non-negative `value` (up to 53 bits) */
+  write(value: number, bits: number) {
+    if (bits > 24) {
+      this.write(Math.floor(value / 2 ** 24), bits - 24);
+      this.write(value % 2 ** 24, 24);
+      return;
+    }
+    this.acc = (this.acc << bits) | value;
+    this.accBits += bits;
+    while (this.accBits >= 8) {
+      this.accBits -= 8;
+      this.push((this.acc >>> this.accBits) & 0xFF);
+    }
+    this.acc &= (1 << this.accBits) - 1;
+  }
+
+  writeSigned(value: number, bits: number) {
+    this.write(value < 0 ? value + 2 ** bits : value, bits);
+  }
+
+  writeZeros(count: number) {
+    for (; count > 0; count -= 24) this.write(0, Math.min(24, count));
+  }
+
+  alignToByte() {
+    if (this.accBits > 0) this.write(0, 8 - this.accBits);
+  }
+
+  /** Bytes written so far; only meaningful when byte aligned */
+  view(): Uint8Array {
+    return this.bytes.subarray(0, this.length);
+  }
+}
+
+const CRC8_TABLE = new Uint8Array(256);
+const CRC16_TABLE = new Uint16Array(256);
+for (let i = 0; i < 256; i++) {
+  let c8 = i;
+  let c16 = i << 8;
+  for (let b = 0; b < 8; b++) {
+    c8 = (c8 & 0x80 ? (c8 << 1) ^ 0x07 : c8 << 1) & 0xFF;
+    c16 = (c16 & 0x8000 ? (c16 << 1) ^ 0x8005 : c16 << 1) & 0xFFFF;
+  }
+  CRC8_TABLE[i] = c8;
+  CRC16_TABLE[i] = c16;
+}
+
+const crc8 = (data: Uint8Array) => data.reduce((crc, byte) => CRC8_TABLE[crc ^ byte], 0);
+const crc16 = (data: Uint8Array) => data.reduce((crc, byte) => ((crc << 8) & 0xFFFF) ^ CRC16_TABLE[(crc >> 8) ^ byte], 0);
+
+/** Frame numbers use the UTF-8 style variable-length coding */
+function writeFrameNumber(w: BitWriter, n: number) {
+  if (n < 0x80) {
+    w.write(n, 8);
+    return;
+  }
+  const extra = n < 0x800 ? 1 : n < 0x10000 ? 2 : n < 0x200000 ? 3 : n < 0x4000000 ? 4 : 5;
+  // extra + 1 leading ones, then the top bits of the number
+  w.write(((0xFF << (7 - extra)) & 0xFF) | Math.floor(n / 2 ** (6 * extra)), 8);
+  for (let i = extra - 1; i >= 0; i--) w.write(0x80 | (Math.floor(n / 2 ** (6 * i)) & 0x3F), 8);
+}
+
+/** Residual of the fixed polynomial predictor of the given order at sample i */
+function fixedResidual(x: Int32Array, i: number, order: number): number {
+  switch (order) {
+    case 0: return x[i];
+    case 1: return x[i] - x[i - 1];
+    case 2: return x[i] - 2 * x[i - 1] + x[i - 2];
+    case 3: return x[i] - 3 * x[i - 1] + 3 * x[i - 2] - x[i - 3];
+    default: return x[i] - 4 * x[i - 1] + 6 * x[i - 2] - 4 * x[i - 3] + x[i - 4];
+  }
+}
+
+const zigzag = (r: number) => (r >= 0 ? 2 * r : -2 * r - 1);
+
+interface RicePlan {
+  partitionOrder: number;
+  params: number[];
+  bits: number;
+}
+
+/**
+ * Picks the partition order and per-partition Rice parameters with the smallest
+ * estimated size
+ */
+function planRice(u: Float64Array, order: number, maxPartitionOrder: number, paramBits: number, paramLimit: number): RicePlan {
+  const n = u.length + order;
+  let best: RicePlan | null = null;
+
+  for (let p = 0; p <= maxPartitionOrder; p++) {
+    const size = n >> p;
+    if (n % (1 << p) !== 0 || size <= order) break;
+    const params: number[] = [];
+    let bits = 0;
+    for (let part = 0; part < 1 << p; part++) {
+      // The first partition is shorter by the warm-up samples
+      const from = part === 0 ? 0 : part * size - order;
+      const to = (part + 1) * size - order;
+      let sum = 0;
+      for (let i = from; i < to; i++) sum += u[i];
+      const count = to - from;
+      const guess = sum > count ? Math.floor(Math.log2(sum / count)) : 0;
+      let bestK = 0;
+      let bestBits = Infinity;
+      for (let k = Math.min(paramLimit, Math.max(0, guess - 1)); k <= Math.min(paramLimit, guess + 1); k++) {
+        const estimate = count * (k + 1) + sum / 2 ** k;
+        if (estimate < bestBits) {
+          bestBits = estimate;
+          bestK = k;
+        }
+      }
+      params.push(bestK);
+      bits += paramBits + bestBits;
+    }
+    if (!best || bits < best.bits) best = { partitionOrder: p, params, bits };
+  }
+  return best!;
+}
+
+interface SubframePlan {
+  kind: 'constant' | 'verbatim' | 'fixed';
+  order: number;
+  residual?: Float64Array;
+  rice?: RicePlan;
+  bits: number;
+}
+
+interface EncoderSettings {
+  maxOrder: number;
+  maxPartitionOrder: number;
+}
+
+function planSubframe(x: Int32Array, bps: number, settings: EncoderSettings): SubframePlan {
+  const n = x.length;
+  if (x.every(v => v === x[0])) return { kind: 'constant', order: 0, bits: 8 + bps };
+
+  const verbatim: SubframePlan = { kind: 'verbatim', order: 0, bits: 8 + n * bps };
+  // Order is chosen by the smallest absolute residual sum, as the reference encoder does
+  let order = 0;
+  let bestSum = Infinity;
+  for (let o = 0; o <= Math.min(settings.maxOrder, n - 1); o++) {
+    let sum = 0;
+    for (let i = o; i < n; i++) sum += Math.abs(fixedResidual(x, i, o));
+    if (sum < bestSum) {
+      bestSum = sum;
+      order = o;
+    }
+  }
+
+  const residual = new Float64Array(n - order);
+  for (let i = order; i < n; i++) residual[i - order] = zigzag(fixedResidual(x, i, order));
+  const rice2 = bps > 16;
+  const rice = planRice(residual, order, settings.maxPartitionOrder, rice2 ? 5 : 4, rice2 ? 30 : 14);
+  const bits = 8 + order * bps + 6 + rice.bits;
+  return bits < verbatim.bits ? { kind: 'fixed', order, residual, rice, bits } : verbatim;
+}
+
+function writeSubframe(w: BitWriter, x: Int32Array, bps: number, plan: SubframePlan) {
+  switch (plan.kind) {
+    case 'constant':
+      w.write(0, 8);
+      w.writeSigned(x[0], bps);
+      return;
+    case 'verbatim':
+      w.write(0b00000010, 8);
+      for (let i = 0; i < x.length; i++) w.writeSigned(x[i], bps);
+      return;
+    case 'fixed': {
+      const { order, residual, rice } = plan;
+      w.write(0b00010000 | (order << 1), 8);
+      for (let i = 0; i < order; i++) w.writeSigned(x[i], bps);
+
+      const rice2 = bps > 16;
+      w.write(rice2 ? 1 : 0, 2);
+      w.write(rice!.partitionOrder, 4);
+      const size = x.length >> rice!.partitionOrder;
+      rice!.params.forEach((k, part) => {
+        w.write(k, rice2 ? 5 : 4);
+        const from = part === 0 ? 0 : part * size - order;
+        const to = (part + 1) * size - order;
+        const scale = 2 ** k;
+        for (let i = from; i < to; i++) {
+          const u = residual![i];
+          const q = Math.floor(u / scale);
+          w.writeZeros(q);
+          w.write(1, 1);
+          if (k > 0) w.write(u - q * scale, k);
+        }
+      });
+    }
+  }
+}
+
+// Channel assignment codes from the frame header
+const INDEPENDENT = -1;
+const LEFT_SIDE = 8;
+const RIGHT_SIDE = 9;
+const MID_SIDE = 10;
+
+/**
+ * Encodes planar float channels as a FLAC stream using fixed predictors and
+ * partitioned Rice coding. Higher compression levels search more predictor
+ * orders, partition orders and stereo modes.
+ */
+export async function encodeFlac(
+  channels: Float32Array[],
+  sampleRate: number,
+  options: FlacOptions,
+  tags: AudioTags,
+  onProgress: (fraction: number) => void
+): Promise<Uint8Array[]> {
+  const numChannels = channels.length;
+  if (numChannels < 1 || numChannels > 8) throw new Error('FLAC 最多支持 8 个声道');
+  const bps: number = options.bitDepth;
+  const level = Math.max(0, Math.min(8, Math.round(options.compression)));
+  const settings: EncoderSettings = {
+    maxOrder: level <= 1 ? 2 : level <= 3 ? 3 : 4,
+    maxPartitionOrder: Math.min(level, 8),
+  };
+  const tryStereo = numChannels === 2 && level > 0;
+
+  const totalFrames = channels[0].length;
+  const negScale = 2 ** (bps - 1);
+  const posScale = negScale - 1;
+  const quantized = channels.map(data => {
+    const out = new Int32Array(data.length);
+    for (let i = 0; i < data.length; i++) {
+      const s = Math.max(-1, Math.min(1, data[i]));
+      out[i] = Math.max(-negScale, Math.min(posScale, Math.round(s < 0 ? s * negScale : s * posScale)));
+    }
+    return out;
+  });
+
+  const frames: Uint8Array[] = [];
+  let minFrameSize = Infinity;
+  let maxFrameSize = 0;
+  const frameCount = Math.ceil(totalFrames / BLOCK_SIZE);
+
+  for (let f = 0; f < frameCount; f++) {
+    const start = f * BLOCK_SIZE;
+    const n = Math.min(BLOCK_SIZE, totalFrames - start);
+    const block = quantized.map(q => q.subarray(start, start + n));
+
+    // Pick the channel layout with the smallest estimated size
+    let assignment = INDEPENDENT;
+    let coded = block.map(x => ({ x, bps }));
+    let plans = coded.map(c => planSubframe(c.x, c.bps, settings));
+    if (tryStereo) {
+      const [l, r] = block;
+      const side = new Int32Array(n);
+      const mid = new Int32Array(n);
+      for (let i = 0; i < n; i++) {
+        side[i] = l[i] - r[i];
+        mid[i] = Math.floor((l[i] + r[i]) / 2);
+      }
+      const planL = plans[0];
+      const planR = plans[1];
+      const planS = planSubframe(side, bps + 1, settings);
+      const planM = planSubframe(mid, bps, settings);
+      const layouts = [
+        { code: INDEPENDENT, bits: planL.bits + planR.bits },
+        { code: LEFT_SIDE, bits: planL.bits + planS.bits },
+        { code: RIGHT_SIDE, bits: planS.bits + planR.bits },
+        { code: MID_SIDE, bits: planM.bits + planS.bits },
+      ];
+      assignment = layouts.reduce((a, b) => (b.bits < a.bits ? b : a)).code;
+      if (assignment === LEFT_SIDE) {
+        coded = [{ x: l, bps }, { x: side, bps: bps + 1 }];
+        plans = [planL, planS];
+      } else if (assignment === RIGHT_SIDE) {
+        coded = [{ x: side, bps: bps + 1 }, { x: r, bps }];
+        plans = [planS, planR];
+      } else if (assignment === MID_SIDE) {
+        coded = [{ x: mid, bps }, { x: side, bps: bps + 1 }];
+        plans = [planM, planS];
+      }
+    }
+
+    const w = new BitWriter();
+    w.write(0xFFF8, 16);
+    const sizeCode = n === BLOCK_SIZE ? 12 : n <= 256 ? 6 : 7;
+    w.write(sizeCode, 4);
+    w.write(0, 4); // sample rate: from STREAMINFO
+    w.write(assignment === INDEPENDENT ? numChannels - 1 : assignment, 4);
+    w.write(bps === 24 ? 0b110 : 0b100, 3);
+    w.write(0, 1);
+    writeFrameNumber(w, f);
+    if (sizeCode === 6) w.write(n - 1, 8);
+    if (sizeCode === 7) w.write(n - 1, 16);
+    w.write(crc8(w.view()), 8);
+
+    coded.forEach((c, i) => writeSubframe(w, c.x, c.bps, plans[i]));
+    w.alignToByte();
+    w.write(crc16(w.view()), 16);
+
+    const frame = w.view().slice();
+    frames.push(frame);
+    minFrameSize = Math.min(minFrameSize, frame.length);
+    maxFrameSize = Math.max(maxFrameSize, frame.length);
+
+    if (f % 32 === 0) onProgress(f / frameCount);
+  }
+
+  // Tags follow STREAMINFO as VORBIS_COMMENT and PICTURE blocks
+  const blocks: { type: number; body: Uint8Array }[] = [];
+  if (hasTags(tags)) {
+    blocks.push({ type: 4, body: buildVorbisComment(tags, 'AudioCutter Pro', false) });
+    if (tags.cover) blocks.push({ type: 6, body: buildFlacPicture(tags.cover) });
+  }
+
+  // fLaC marker and the STREAMINFO block
+  const head = new BitWriter();
+  head.write(0x664C6143, 32);
+  head.write(blocks.length === 0 ? 1 : 0, 1);
+  head.write(0, 7);
+  head.write(34, 24);
+  head.write(BLOCK_SIZE, 16);
+  head.write(BLOCK_SIZE, 16);
+  head.write(frames.length ? minFrameSize : 0, 24);
+  head.write(maxFrameSize, 24);
+  head.write(sampleRate, 20);
+  head.write(numChannels - 1, 3);
+  head.write(bps - 1, 5);
+  head.write(totalFrames, 36);
+  head.writeZeros(128); // MD5 of the audio: not computed
+  const metadata = blocks.flatMap(({ type, body }, i) => {
+    const header = Uint8Array.of(
+      (i === blocks.length - 1 ? 0x80 : 0) | type,
+      (body.length >>> 16) & 0xFF, (body.length >>> 8) & 0xFF, body.length & 0xFF
+    );
+    return [header, body];
+  });
+  onProgress(1);
+
+  return [head.view().slice(), ...metadata, ...frames];
+}
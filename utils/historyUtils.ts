@@ -0,0 +1,44 @@
+export interface HistoryEntry<T> {
+  label: string;
+  timestamp: number;
+  state: T;
+}
+
+export interface HistoryState<T> {
+  entries: HistoryEntry<T>[];
+  /** Index of the entry that matches what is on screen */
+  index: number;
+}
+
+export const MAX_HISTORY_ENTRIES = 100;
+
+/**
+ * Starts a history with a single entry for the initial state
+ */
+export function createHistory<T>(label: string, state: T): HistoryState<T> {
+  return { entries: [{ label, timestamp: Date.now(), state }], index: 0 };
+}
+
+/**
+ * Records a new state after the current one, discarding any redo branch
+ */
+export function pushHistory<T>(history: HistoryState<T>, label: string, state: T): HistoryState<T> {
+  const entries = [
+    ...history.entries.slice(0, history.index + 1),
+    { label, timestamp: Date.now(), state },
+  ].slice(-MAX_HISTORY_ENTRIES);
+  return { entries, index: entries.length - 1 };
+}
+
+/**
+ * Moves the cursor to an entry, clamped to the available range
+ */
+export function jumpHistory<T>(history: HistoryState<T>, index: number): HistoryState<T> {
+  return { ...history, index: Math.max(0, Math.min(history.entries.length - 1, index)) };
+}
+
+export const getCurrentState = <T>(history: HistoryState<T>): T => history.entries[history.index].state;
+
+export const canUndo = <T>(history: HistoryState<T>) => history.index > 0;
+
+export const canRedo = <T>(history: HistoryState<T>) => history.index < history.entries.length - 1;
@@ -0,0 +1,40 @@
+import { TimeRange } from '../types';
+import { LoudnessStats } from './loudnessUtils';
+import type { LoudnessWorkerRequest, LoudnessWorkerResponse } from '../workers/loudnessWorker';
+
+export interface LoudnessAnalysis {
+  file: LoudnessStats;
+  ranges: LoudnessStats[];
+}
+
+/**
+ * Measures a buffer, and optionally sub-ranges of it, in a Web Worker
+ */
+export function analyzeLoudness(buffer: AudioBuffer, ranges: TimeRange[] = []): Promise<LoudnessAnalysis> {
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL('../workers/loudnessWorker.ts', import.meta.url), { type: 'module' });
+
+    // Copies are transferred so the editor's buffer stays usable
+    const channels: Float32Array[] = [];
+    for (let c = 0; c < buffer.numberOfChannels; c++) {
+      channels.push(buffer.getChannelData(c).slice());
+    }
+
+    worker.onmessage = (e: MessageEvent<LoudnessWorkerResponse>) => {
+      const message = e.data;
+      worker.terminate();
+      if (message.type === 'result') {
+        resolve({ file: message.file, ranges: message.ranges });
+      } else {
+        reject(new Error(message.message));
+      }
+    };
+    worker.onerror = (e) => {
+      worker.terminate();
+      reject(new Error(e.message || 'Loudness worker failed'));
+    };
+
+    const request: LoudnessWorkerRequest = { channels, sampleRate: buffer.sampleRate, ranges };
+    worker.postMessage(request, channels.map(c => c.buffer));
+  });
+}
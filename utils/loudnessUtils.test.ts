@@ -0,0 +1,116 @@
+import { describe, expect, it } from 'vitest';
+import { getNormalizationGain, measureLoudness } from './loudnessUtils';
+
+const RATE = 48000;
+
+// Ramps at both ends of every test signal: a sine switched on mid-cycle is a step,
+// and any true-peak interpolator rings on steps
+const RAMP = RATE / 100;
+
+/** Sine segments at the given peak level in dBFS, back to back */
+function sine(segments: { dbfs: number; seconds: number }[], frequency = 1000, phaseDegrees = 0): Float32Array {
+  const total = segments.reduce((sum, s) => sum + s.seconds, 0) * RATE;
+  const data = new Float32Array(total);
+  let i = 0;
+  for (const { dbfs, seconds } of segments) {
+    const amplitude = Math.pow(10, dbfs / 20);
+    for (const end = i + seconds * RATE; i < end; i++) {
+      data[i] = amplitude * Math.sin((2 * Math.PI * frequency * i) / RATE + (phaseDegrees * Math.PI) / 180);
+    }
+  }
+  for (let j = 0; j < Math.min(RAMP, total / 2); j++) {
+    data[j] *= j / RAMP;
+    data[total - 1 - j] *= j / RAMP;
+  }
+  return data;
+}
+
+const stereo = (data: Float32Array) => [data, data.slice()];
+
+// Reference signals and tolerances from EBU Tech 3341 (loudness, true peak) and Tech 3342 (LRA)
+describe('measureLoudness', () => {
+  it('reads a stereo 1 kHz sine at -23 dBFS as -23 LUFS', () => {
+    const stats = measureLoudness(stereo(sine([{ dbfs: -23, seconds: 20 }])), RATE);
+    expect(stats.integrated).toBeGreaterThan(-23.1);
+    expect(stats.integrated).toBeLessThan(-22.9);
+  });
+
+  it('reads a stereo 1 kHz sine at -33 dBFS as -33 LUFS', () => {
+    const stats = measureLoudness(stereo(sine([{ dbfs: -33, seconds: 20 }])), RATE);
+    expect(stats.integrated).toBeCloseTo(-33, 1);
+  });
+
+  it('leaves quieter passages out through the relative gate', () => {
+    const signal = sine([{ dbfs: -36, seconds: 10 }, { dbfs: -23, seconds: 60 }, { dbfs: -36, seconds: 10 }]);
+    const stats = measureLoudness(stereo(signal), RATE);
+    expect(Math.abs(stats.integrated + 23)).toBeLessThanOrEqual(0.1);
+  });
+
+  it('leaves near-silence out through the absolute gate', () => {
+    const signal = sine([
+      { dbfs: -72, seconds: 10 }, { dbfs: -36, seconds: 10 }, { dbfs: -23, seconds: 60 },
+      { dbfs: -36, seconds: 10 }, { dbfs: -72, seconds: 10 },
+    ]);
+    const stats = measureLoudness(stereo(signal), RATE);
+    expect(Math.abs(stats.integrated + 23)).toBeLessThanOrEqual(0.1);
+  });
+
+  it('reports silence and signals below the absolute gate as -Infinity', () => {
+    expect(measureLoudness(stereo(new Float32Array(RATE * 2)), RATE).integrated).toBe(-Infinity);
+    expect(measureLoudness(stereo(sine([{ dbfs: -75, seconds: 5 }])), RATE).integrated).toBe(-Infinity);
+  });
+
+  it('reports -Infinity for clips shorter than one 400 ms block', () => {
+    expect(measureLoudness(stereo(sine([{ dbfs: -23, seconds: 0.3 }])), RATE).integrated).toBe(-Infinity);
+  });
+
+  it.each([
+    { first: -20, second: -30, lra: 10 },
+    { first: -20, second: -15, lra: 5 },
+    { first: -40, second: -20, lra: 20 },
+  ])('measures a loudness range of $lra LU between $first and $second dBFS', ({ first, second, lra }) => {
+    const signal = sine([{ dbfs: first, seconds: 20 }, { dbfs: second, seconds: 20 }]);
+    const stats = measureLoudness(stereo(signal), RATE);
+    expect(Math.abs(stats.range - lra)).toBeLessThanOrEqual(1);
+  });
+
+  it('reports no loudness range for a steady tone', () => {
+    expect(measureLoudness(stereo(sine([{ dbfs: -23, seconds: 20 }])), RATE).range).toBeCloseTo(0, 1);
+  });
+
+  it.each([
+    { frequency: RATE / 4, phase: 0 },
+    { frequency: RATE / 4, phase: 45 },
+    { frequency: RATE / 6, phase: 60 },
+    { frequency: RATE / 8, phase: 67.5 },
+  ])('finds the -6 dBTP peak of a $frequency Hz sine at $phase° phase', ({ frequency, phase }) => {
+    const stats = measureLoudness(stereo(sine([{ dbfs: -6.02, seconds: 1 }], frequency, phase)), RATE);
+    expect(stats.truePeak).toBeGreaterThanOrEqual(-6.4);
+    expect(stats.truePeak).toBeLessThanOrEqual(-5.8);
+  });
+
+  it('finds peaks between samples that the sample peak misses', () => {
+    // fs/4 at 45°: every sample lands at ±0.707 of the crest
+    const stats = measureLoudness(stereo(sine([{ dbfs: -6.02, seconds: 1 }], RATE / 4, 45)), RATE);
+    expect(stats.samplePeak).toBeCloseTo(-9.03, 1);
+    expect(stats.truePeak - stats.samplePeak).toBeGreaterThan(2.5);
+  });
+});
+
+describe('getNormalizationGain', () => {
+  const stats = { integrated: -23, range: 0, truePeak: -10, samplePeak: -10.5 };
+
+  it('moves integrated loudness to the target', () => {
+    expect(getNormalizationGain(stats, { mode: 'loudness', targetLufs: -16, truePeakLimit: -1, targetPeak: -1 })).toBe(7);
+  });
+
+  it('holds the loudness gain back at the true-peak ceiling', () => {
+    expect(getNormalizationGain(stats, { mode: 'loudness', targetLufs: -14, truePeakLimit: -2, targetPeak: -1 })).toBe(8);
+  });
+
+  it('leaves silence alone', () => {
+    const silent = { integrated: -Infinity, range: 0, truePeak: -Infinity, samplePeak: -Infinity };
+    expect(getNormalizationGain(silent, { mode: 'loudness', targetLufs: -16, truePeakLimit: -1, targetPeak: -1 })).toBe(0);
+    expect(getNormalizationGain(silent, { mode: 'peak', targetLufs: -16, truePeakLimit: -1, targetPeak: -1 })).toBe(0);
+  });
+});
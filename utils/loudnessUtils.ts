@@ -0,0 +1,252 @@
+export interface LoudnessStats {
+  /** Gated integrated loudness (ITU-R BS.1770-4), LUFS */
+  integrated: number;
+  /** Loudness range (EBU Tech 3342), LU */
+  range: number;
+  /** Highest inter-sample peak, dBTP */
+  truePeak: number;
+  /** Highest sample value, dBFS */
+  samplePeak: number;
+}
+
+export type NormalizeMode = 'off' | 'loudness' | 'peak';
+
+export interface NormalizeOptions {
+  mode: NormalizeMode;
+  /** Integrated loudness target for 'loudness', LUFS */
+  targetLufs: number;
+  /** True-peak ceiling the loudness gain may not push past, dBTP */
+  truePeakLimit: number;
+  /** Sample peak target for 'peak', dBFS */
+  targetPeak: number;
+}
+
+export const NORMALIZE_MODE_LABELS: Record<NormalizeMode, string> = {
+  off: '不标准化',
+  loudness: '响度 (LUFS)',
+  peak: '峰值 (dBFS)',
+};
+
+export const DEFAULT_NORMALIZE_OPTIONS: NormalizeOptions = {
+  mode: 'off',
+  targetLufs: -16,
+  truePeakLimit: -1,
+  targetPeak: -1,
+};
+
+const ABSOLUTE_GATE = -70;
+const RELATIVE_GATE = -10;
+const RANGE_RELATIVE_GATE = -20;
+// Gating blocks are built from 100 ms steps: 400 ms momentary and 3 s short-term windows
+const STEPS_PER_BLOCK = 4;
+const STEPS_PER_SHORT_TERM = 30;
+// Taps per polyphase branch of the true-peak interpolator
+const TRUE_PEAK_TAPS = 12;
+
+type Biquad = { b0: number; b1: number; b2: number; a1: number; a2: number };
+
+/**
+ * K-weighting (high shelf + high pass) for any sample rate, using the analogue
+ * prototype the BS.1770 48 kHz coefficients were derived from.
+ */
+function getKWeightingFilters(sampleRate: number): Biquad[] {
+  let K = Math.tan((Math.PI * 1681.974450955533) / sampleRate);
+  let Q = 0.7071752369554196;
+  const Vh = Math.pow(10, 3.999843853973347 / 20);
+  const Vb = Math.pow(Vh, 0.4996667741545416);
+  let a0 = 1 + K / Q + K * K;
+  const shelf = {
+    b0: (Vh + (Vb * K) / Q + K * K) / a0,
+    b1: (2 * (K * K - Vh)) / a0,
+    b2: (Vh - (Vb * K) / Q + K * K) / a0,
+    a1: (2 * (K * K - 1)) / a0,
+    a2: (1 - K / Q + K * K) / a0,
+  };
+
+  K = Math.tan((Math.PI * 38.13547087602444) / sampleRate);
+  Q = 0.5003270373238773;
+  a0 = 1 + K / Q + K * K;
+  const highPass = {
+    b0: 1,
+    b1: -2,
+    b2: 1,
+    a1: (2 * (K * K - 1)) / a0,
+    a2: (1 - K / Q + K * K) / a0,
+  };
+  return [shelf, highPass];
+}
+
+/** BS.1770 channel weights; the LFE of a 5.1 layout is left out */
+function getChannelWeight(channel: number, channelCount: number): number {
+  if (channelCount !== 6) return 1;
+  if (channel === 3) return 0;
+  return channel >= 4 ? 1.41 : 1;
+}
+
+/**
+ * Sum of squared K-weighted samples per 100 ms step, weighted and summed over channels
+ */
+function getStepEnergies(channels: Float32Array[], sampleRate: number, stepSize: number): Float64Array {
+  const length = channels[0]?.length || 0;
+  const energies = new Float64Array(Math.floor(length / stepSize));
+  const filters = getKWeightingFilters(sampleRate);
+
+  channels.forEach((data, c) => {
+    const weight = getChannelWeight(c, channels.length);
+    if (weight === 0) return;
+    // Direct form II transposed state for both stages
+    const state = filters.map(() => ({ z1: 0, z2: 0 }));
+    for (let i = 0; i < energies.length * stepSize; i++) {
+      let y = data[i];
+      for (let f = 0; f < filters.length; f++) {
+        const { b0, b1, b2, a1, a2 } = filters[f];
+        const s = state[f];
+        const x = y;
+        y = b0 * x + s.z1;
+        s.z1 = b1 * x - a1 * y + s.z2;
+        s.z2 = b2 * x - a2 * y;
+      }
+      energies[Math.floor(i / stepSize)] += weight * y * y;
+    }
+  });
+  return energies;
+}
+
+/** Mean-square loudness of every window of `steps` steps, advancing one step at a time */
+function getBlockLoudness(energies: Float64Array, steps: number, stepSize: number): number[] {
+  const blocks: number[] = [];
+  let sum = 0;
+  for (let i = 0; i < energies.length; i++) {
+    sum += energies[i];
+    if (i >= steps) sum -= energies[i - steps];
+    if (i >= steps - 1) blocks.push(toLufs(Math.max(0, sum) / (steps * stepSize)));
+  }
+  return blocks;
+}
+
+const toLufs = (meanSquare: number) => -0.691 + 10 * Math.log10(meanSquare);
+const fromLufs = (lufs: number) => Math.pow(10, (lufs + 0.691) / 10);
+const meanLufs = (blocks: number[]) => toLufs(blocks.reduce((sum, l) => sum + fromLufs(l), 0) / blocks.length);
+
+function percentile(sorted: number[], p: number): number {
+  const position = (sorted.length - 1) * p;
+  const lower = Math.floor(position);
+  const upper = Math.min(sorted.length - 1, lower + 1);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+}
+
+function measureIntegrated(blocks: number[]): number {
+  const absolute = blocks.filter(l => l > ABSOLUTE_GATE);
+  if (absolute.length === 0) return -Infinity;
+  const threshold = meanLufs(absolute) + RELATIVE_GATE;
+  const gated = absolute.filter(l => l > threshold);
+  return gated.length > 0 ? meanLufs(gated) : -Infinity;
+}
+
+function measureRange(blocks: number[]): number {
+  const absolute = blocks.filter(l => l > ABSOLUTE_GATE);
+  if (absolute.length < 2) return 0;
+  const threshold = meanLufs(absolute) + RANGE_RELATIVE_GATE;
+  const gated = absolute.filter(l => l > threshold).sort((a, b) => a - b);
+  if (gated.length < 2) return 0;
+  return percentile(gated, 0.95) - percentile(gated, 0.1);
+}
+
+/** Windowed-sinc interpolator split into one branch per oversampling phase */
+function getTruePeakPhases(factor: number): Float64Array[] {
+  const length = TRUE_PEAK_TAPS * factor;
+  const center = (length - 1) / 2;
+  const prototype = Array.from({ length }, (_, n) => {
+    const t = (n - center) / factor;
+    const sinc = t === 0 ? 1 : Math.sin(Math.PI * t) / (Math.PI * t);
+    const window = 0.5 - 0.5 * Math.cos((2 * Math.PI * (n + 0.5)) / length);
+    return sinc * window;
+  });
+  return Array.from({ length: factor }, (_, p) => {
+    const phase = new Float64Array(TRUE_PEAK_TAPS);
+    for (let k = 0; k < TRUE_PEAK_TAPS; k++) phase[k] = prototype[k * factor + p];
+    // Unity gain per branch so DC passes every phase unchanged
+    const sum = phase.reduce((s, v) => s + v, 0);
+    return phase.map(v => v / sum);
+  });
+}
+
+/**
+ * Highest sample and inter-sample peaks (linear). Rates below 96 kHz are oversampled
+ * 4x as BS.1770 recommends, 96-192 kHz 2x, higher rates are used as they are.
+ */
+function measurePeaks(channels: Float32Array[], sampleRate: number): { sample: number; truePeak: number } {
+  const factor = sampleRate < 96000 ? 4 : sampleRate < 192000 ? 2 : 1;
+  const phases = factor > 1 ? getTruePeakPhases(factor) : [];
+  let sample = 0;
+  let truePeak = 0;
+
+  for (const data of channels) {
+    for (let i = 0; i < data.length; i++) {
+      const v = Math.abs(data[i]);
+      if (v > sample) sample = v;
+    }
+    for (let i = 0; i < data.length + TRUE_PEAK_TAPS; i++) {
+      for (const phase of phases) {
+        let y = 0;
+        for (let k = 0; k < TRUE_PEAK_TAPS; k++) {
+          const j = i - k;
+          if (j >= 0 && j < data.length) y += phase[k] * data[j];
+        }
+        const v = Math.abs(y);
+        if (v > truePeak) truePeak = v;
+      }
+    }
+  }
+  return { sample, truePeak: Math.max(sample, truePeak) };
+}
+
+const toDb = (linear: number) => 20 * Math.log10(linear);
+
+/**
+ * Measures integrated loudness, loudness range and peaks of raw channel data.
+ * Silence and clips shorter than one 400 ms block report -Infinity loudness.
+ */
+export function measureLoudness(channels: Float32Array[], sampleRate: number): LoudnessStats {
+  const stepSize = Math.round(sampleRate / 10);
+  const energies = getStepEnergies(channels, sampleRate, stepSize);
+  const peaks = measurePeaks(channels, sampleRate);
+  return {
+    integrated: measureIntegrated(getBlockLoudness(energies, STEPS_PER_BLOCK, stepSize)),
+    range: measureRange(getBlockLoudness(energies, STEPS_PER_SHORT_TERM, stepSize)),
+    truePeak: toDb(peaks.truePeak),
+    samplePeak: toDb(peaks.sample),
+  };
+}
+
+/**
+ * Gain in dB that brings a clip to the normalization target. Loudness targets are
+ * lowered when they would push the true peak over the ceiling; no limiting is applied.
+ */
+export function getNormalizationGain(stats: LoudnessStats, options: NormalizeOptions): number {
+  switch (options.mode) {
+    case 'off':
+      return 0;
+    case 'loudness':
+      if (!isFinite(stats.integrated)) return 0;
+      return Math.min(options.targetLufs - stats.integrated, options.truePeakLimit - stats.truePeak);
+    case 'peak':
+      if (!isFinite(stats.samplePeak)) return 0;
+      return options.targetPeak - stats.samplePeak;
+  }
+}
+
+/**
+ * Scales a buffer by `gainDb` in place
+ */
+export function applyGain(buffer: AudioBuffer, gainDb: number) {
+  if (gainDb === 0 || !isFinite(gainDb)) return;
+  const gain = Math.pow(10, gainDb / 20);
+  for (let c = 0; c < buffer.numberOfChannels; c++) {
+    const data = buffer.getChannelData(c);
+    for (let i = 0; i < data.length; i++) data[i] *= gain;
+  }
+}
+
+/** "-16.2" style display value, "-∞" for silence */
+export const formatLevel = (value: number) => (isFinite(value) ? value.toFixed(1) : '-∞');
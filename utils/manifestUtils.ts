@@ -0,0 +1,69 @@
+export interface ManifestEntry {
+  file: string;
+  label: string;
+  start: number;
+  end: number;
+  source: string;
+}
+
+/**
+ * Quotes a CSV field when it contains separators, quotes or line breaks
+ */
+function escapeCsv(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * Serializes the export manifest as pretty-printed JSON
+ */
+export function buildManifestJson(entries: ManifestEntry[]): string {
+  return JSON.stringify(
+    entries.map(e => ({ ...e, duration: +(e.end - e.start).toFixed(6) })),
+    null,
+    2
+  );
+}
+
+/**
+ * Serializes the export manifest as CSV (UTF-8 BOM so spreadsheet apps keep CJK text intact)
+ */
+export function buildManifestCsv(entries: ManifestEntry[]): string {
+  const header = 'file,label,start,end,duration,source';
+  const rows = entries.map(e => [
+    escapeCsv(e.file),
+    escapeCsv(e.label),
+    e.start.toFixed(6),
+    e.end.toFixed(6),
+    (e.end - e.start).toFixed(6),
+    escapeCsv(e.source),
+  ].join(','));
+  return '﻿' + [header, ...rows].join('\r\n') + '\r\n';
+}
+
+/** Where a clip of a joined export came from and where it landed */
+export interface CueEntry {
+  label: string;
+  source: string;
+  sourceStart: number;
+  sourceEnd: number;
+  /** Position in the joined file, in seconds */
+  start: number;
+  end: number;
+}
+
+/**
+ * Serializes the cue list of a joined export as CSV, one row per clip
+ */
+export function buildCueListCsv(entries: CueEntry[]): string {
+  const header = 'index,label,start,end,source,source_start,source_end';
+  const rows = entries.map((e, i) => [
+    String(i + 1),
+    escapeCsv(e.label),
+    e.start.toFixed(6),
+    e.end.toFixed(6),
+    escapeCsv(e.source),
+    e.sourceStart.toFixed(6),
+    e.sourceEnd.toFixed(6),
+  ].join(','));
+  return '﻿' + [header, ...rows].join('\r\n') + '\r\n';
+}
@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { buildMarkers, detectMarkerFormat, MARKER_EXTENSIONS, MarkerFormat, parseMarkers } from './markerUtils';
+import { RegionData } from '../types';
+
+// Sample-accurate bounds at 44.1 kHz, none of which is a round decimal
+const at = (sample: number) => sample / 44100;
+
+const regions: RegionData[] = [
+  { id: 'a', start: at(12345), end: at(987654), label: 'Intro, part "one"', note: 'first\nnote' },
+  { id: 'b', start: at(1000001), end: at(2345679), label: '访谈' },
+  { id: 'c', start: 3600 + at(7), end: 3725.5 + at(1) },
+];
+
+const FORMATS = Object.keys(MARKER_EXTENSIONS) as MarkerFormat[];
+const options = { duration: 4000, frameRate: 25 };
+
+const roundTrip = (format: MarkerFormat) =>
+  parseMarkers(buildMarkers(regions, format, 'interview.wav'), `markers${MARKER_EXTENSIONS[format]}`, options);
+
+describe('buildMarkers / parseMarkers', () => {
+  it.each(FORMATS)('round-trips sample-accurate bounds exactly through %s', (format) => {
+    const markers = roundTrip(format);
+    expect(markers.map(m => [m.start, m.end])).toEqual(regions.map(r => [r.start, r.end]));
+  });
+
+  it.each(FORMATS)('round-trips labels through %s, numbering unlabelled regions', (format) => {
+    expect(roundTrip(format).map(m => m.label)).toEqual(
+      format === 'cue' ? ["Intro, part 'one'", '访谈', '片段 03'] : ['Intro, part "one"', '访谈', '片段 03']
+    );
+  });
+
+  it('keeps notes in the CSV, on one field', () => {
+    expect(roundTrip('edl').map(m => m.note)).toEqual(['first\nnote', undefined, undefined]);
+  });
+
+  it.each(FORMATS)('detects %s from its content alone', (format) => {
+    expect(detectMarkerFormat('markers', buildMarkers(regions, format, 'interview.wav').replace(/^﻿/, ''))).toBe(format);
+  });
+
+  it('reads CUE sheets without REM lines from their 1/75 s INDEX times', () => {
+    const cue = 'FILE "a.wav" WAVE\n  TRACK 01 AUDIO\n    INDEX 01 00:01:30\n  TRACK 02 AUDIO\n    TITLE "B"\n    INDEX 01 01:00:00\n';
+    expect(parseMarkers(cue, 'a.cue', options)).toEqual([
+      { start: 1.4, end: 60, label: undefined },
+      { start: 60, end: 4000, label: 'B' },
+    ]);
+  });
+
+  it('reads chapters without end times up to the next chapter and skips malformed entries', () => {
+    const json = JSON.stringify({ chapters: [{ startTime: 0, title: 'A' }, null, { title: 'no time' }, { startTime: 30 }] });
+    expect(parseMarkers(json, 'c.json', options)).toEqual([
+      { start: 0, end: 30, label: 'A' },
+      { start: 30, end: 4000, label: undefined },
+    ]);
+  });
+
+  it('rejects chapters that are not JSON', () => {
+    expect(() => parseMarkers('{oops', 'c.json', options)).toThrow();
+  });
+});
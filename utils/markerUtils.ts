@@ -0,0 +1,302 @@
+import { RegionData, TimeRange } from '../types';
+import { parseTimecode } from './audioUtils';
+
+/**
+ * Interchange formats for the region list. Times are written with full
+ * precision (shortest round-trip decimal) so a file exported here imports back
+ * to the same region bounds.
+ */
+export type MarkerFormat = 'audacity' | 'cue' | 'edl' | 'chapters';
+
+export const MARKER_FORMAT_LABELS: Record<MarkerFormat, string> = {
+  audacity: 'Audacity 标签',
+  cue: 'CUE 表',
+  edl: 'EDL 表格 (CSV)',
+  chapters: '播客章节 (JSON)',
+};
+
+export const MARKER_EXTENSIONS: Record<MarkerFormat, string> = {
+  audacity: '.txt',
+  cue: '.cue',
+  edl: '.csv',
+  chapters: '.json',
+};
+
+export const MARKER_MIME_TYPES: Record<MarkerFormat, string> = {
+  audacity: 'text/plain',
+  cue: 'application/x-cue',
+  edl: 'text/csv',
+  chapters: 'application/json+chapters',
+};
+
+/** A region read from a marker file, ready for createUserRegions */
+export type ImportedMarker = TimeRange & Pick<RegionData, 'label' | 'note'>;
+
+export interface MarkerImportOptions {
+  /** Audio length, closing the last CUE track */
+  duration: number;
+  /** Frame rate for HH:MM:SS:FF timecodes in CSV files */
+  frameRate: number;
+}
+
+/** Shortest decimal that parses back to the same number */
+const exact = (seconds: number) => String(seconds);
+
+const regionLabel = (region: RegionData, index: number) =>
+  region.label || `片段 ${String(index + 1).padStart(2, '0')}`;
+
+const oneLine = (text: string) => text.replace(/[\t\r\n]+/g, ' ').trim();
+
+/**
+ * Quotes a CSV field when it contains separators, quotes or line breaks
+ */
+function escapeCsv(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+// CUE INDEX times are MM:SS:FF with 75 frames per second (CD sectors)
+const CUE_FRAMES = 75;
+
+function formatCueIndex(seconds: number): string {
+  const frames = Math.round(seconds * CUE_FRAMES);
+  const mm = Math.floor(frames / (60 * CUE_FRAMES));
+  const ss = Math.floor(frames / CUE_FRAMES) % 60;
+  const ff = frames % CUE_FRAMES;
+  return [mm, ss, ff].map(n => String(n).padStart(2, '0')).join(':');
+}
+
+/**
+ * Serializes regions in one of the marker formats. `audioFileName` is what the
+ * CUE sheet's FILE line and the CSV's source column point at.
+ */
+export function buildMarkers(regions: RegionData[], format: MarkerFormat, audioFileName: string): string {
+  switch (format) {
+    case 'audacity':
+      // start <tab> end <tab> label, one label per line
+      return regions.map((r, i) => `${exact(r.start)}\t${exact(r.end)}\t${oneLine(regionLabel(r, i))}\n`).join('');
+
+    case 'cue': {
+      // INDEX only has 1/75 s resolution and no end; the exact bounds ride along in REM lines
+      const quote = (text: string) => `"${oneLine(text).replace(/"/g, "'")}"`;
+      const ext = audioFileName.split('.').pop()?.toUpperCase();
+      const lines = [`FILE ${quote(audioFileName)} ${ext === 'MP3' ? 'MP3' : 'WAVE'}`];
+      regions.forEach((r, i) => {
+        lines.push(`  TRACK ${String(i + 1).padStart(2, '0')} AUDIO`);
+        lines.push(`    TITLE ${quote(regionLabel(r, i))}`);
+        lines.push(`    REM START ${exact(r.start)}`);
+        lines.push(`    REM END ${exact(r.end)}`);
+        lines.push(`    INDEX 01 ${formatCueIndex(r.start)}`);
+      });
+      return lines.join('\r\n') + '\r\n';
+    }
+
+    case 'edl': {
+      const header = 'index,label,source,start,end,duration,note';
+      const rows = regions.map((r, i) => [
+        String(i + 1),
+        escapeCsv(regionLabel(r, i)),
+        escapeCsv(audioFileName),
+        exact(r.start),
+        exact(r.end),
+        (r.end - r.start).toFixed(6),
+        escapeCsv(r.note || ''),
+      ].join(','));
+      return '﻿' + [header, ...rows].join('\r\n') + '\r\n';
+    }
+
+    case 'chapters':
+      // Podcasting 2.0 JSON chapters
+      return JSON.stringify({
+        version: '1.2.0',
+        chapters: regions.map((r, i) => ({ startTime: r.start, endTime: r.end, title: regionLabel(r, i) })),
+      }, null, 2);
+  }
+}
+
+/**
+ * Picks the format from the extension, falling back to the content
+ */
+export function detectMarkerFormat(fileName: string, text: string): MarkerFormat {
+  const ext = fileName.toLowerCase().match(/\.[^.]+$/)?.[0];
+  const byExtension = (Object.keys(MARKER_EXTENSIONS) as MarkerFormat[]).find(f => MARKER_EXTENSIONS[f] === ext);
+  if (byExtension) return byExtension;
+
+  const body = text.replace(/^﻿/, '').trimStart();
+  if (body.startsWith('{') || body.startsWith('[')) return 'chapters';
+  if (/^\s*TRACK\s+\d+/im.test(body)) return 'cue';
+  if (/^[^\t\n]*,/.test(body)) return 'edl';
+  return 'audacity';
+}
+
+function parseAudacity(text: string): ImportedMarker[] {
+  return text.split(/\r?\n/).flatMap(line => {
+    // Lines starting with "\" carry the frequency range of spectral labels
+    if (!line.trim() || line.startsWith('\\')) return [];
+    const [start, end, ...label] = line.split('\t');
+    const range = { start: Number(start), end: Number(end) };
+    if (!Number.isFinite(range.start) || !Number.isFinite(range.end)) return [];
+    return [{ ...range, label: label.join('\t').trim() || undefined }];
+  });
+}
+
+function parseCue(text: string, duration: number): ImportedMarker[] {
+  const tracks: { label?: string; start?: number; end?: number; index?: number }[] = [];
+  const unquote = (value: string) => value.trim().replace(/^"(.*)"$/, '$1');
+
+  text.split(/\r?\n/).forEach(raw => {
+    const line = raw.trim();
+    const [keyword, ...rest] = line.split(/\s+/);
+    const args = line.slice(keyword.length).trim();
+    const track = tracks[tracks.length - 1];
+    switch (keyword.toUpperCase()) {
+      case 'TRACK':
+        tracks.push({});
+        break;
+      case 'TITLE':
+        if (track) track.label = unquote(args);
+        break;
+      case 'REM':
+        if (track && /^(START|END)$/i.test(rest[0]) && Number.isFinite(Number(rest[1]))) {
+          track[rest[0].toLowerCase() as 'start' | 'end'] = Number(rest[1]);
+        }
+        break;
+      case 'INDEX': {
+        const match = rest[1]?.match(/^(\d+):(\d{2}):(\d{2})$/);
+        // INDEX 01 is where the track starts; INDEX 00 only marks its pregap
+        if (track && match && Number(rest[0]) === 1) {
+          const [, mm, ss, ff] = match.map(Number);
+          track.index = mm * 60 + ss + ff / CUE_FRAMES;
+        }
+        break;
+      }
+    }
+  });
+
+  return tracks.flatMap((t, i) => {
+    const start = t.start ?? t.index;
+    if (start === undefined) return [];
+    const next = tracks[i + 1];
+    const end = t.end ?? next?.start ?? next?.index ?? duration;
+    return [{ start, end, label: t.label || undefined }];
+  });
+}
+
+/**
+ * Splits CSV text into rows of fields, honouring quoted fields with embedded
+ * separators, quotes and line breaks
+ */
+function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (quoted) {
+      if (c === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (c === '"') {
+        quoted = false;
+      } else {
+        field += c;
+      }
+    } else if (c === '"') {
+      quoted = true;
+    } else if (c === ',') {
+      row.push(field);
+      field = '';
+    } else if (c === '\n' || c === '\r') {
+      if (c === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += c;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(r => r.some(f => f.trim()));
+}
+
+// Header names accepted for each column, lower-cased
+const CSV_COLUMNS = {
+  start: ['start', 'in', 'start time', 'record in', 'source in'],
+  end: ['end', 'out', 'end time', 'record out', 'source out'],
+  duration: ['duration', 'length'],
+  label: ['label', 'name', 'title', 'clip name'],
+  note: ['note', 'notes', 'comment', 'description'],
+};
+
+function parseEdlCsv(text: string, frameRate: number): ImportedMarker[] {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) return [];
+  const names = header.map(h => h.trim().toLowerCase());
+  const column = (key: keyof typeof CSV_COLUMNS) => names.findIndex(n => CSV_COLUMNS[key].includes(n));
+  const cols = {
+    start: column('start'),
+    end: column('end'),
+    duration: column('duration'),
+    label: column('label'),
+    note: column('note'),
+  };
+  if (cols.start < 0 || (cols.end < 0 && cols.duration < 0)) {
+    throw new Error('CSV 缺少起止时间列 (start / end)');
+  }
+
+  const timecode = { format: 'seconds' as const, frameRate, sampleRate: 48000 };
+  const time = (row: string[], col: number) => (col < 0 ? null : parseTimecode(row[col] || '', timecode));
+  return rows.flatMap(row => {
+    const start = time(row, cols.start);
+    const length = time(row, cols.duration);
+    const end = time(row, cols.end) ?? (start !== null && length !== null ? start + length : null);
+    if (start === null || end === null) return [];
+    return [{
+      start,
+      end,
+      label: cols.label < 0 ? undefined : row[cols.label]?.trim() || undefined,
+      note: cols.note < 0 ? undefined : row[cols.note]?.trim() || undefined,
+    }];
+  });
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+
+function parseChapters(text: string, duration: number): ImportedMarker[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('章节文件不是有效的 JSON');
+  }
+  const list: unknown[] = Array.isArray(data) ? data : isObject(data) && Array.isArray(data.chapters) ? data.chapters : [];
+  const chapters = list.filter(isObject);
+  const starts = chapters.map(c => (typeof c.startTime === 'number' || typeof c.startTime === 'string' ? Number(c.startTime) : NaN));
+  return chapters.flatMap((c, i) => {
+    if (!Number.isFinite(starts[i])) return [];
+    // endTime is optional; a chapter then runs until the next one
+    const endTime = typeof c.endTime === 'number' || typeof c.endTime === 'string' ? Number(c.endTime) : NaN;
+    const end = Number.isFinite(endTime) ? endTime : starts.slice(i + 1).find(Number.isFinite) ?? duration;
+    return [{ start: starts[i], end, label: typeof c.title === 'string' && c.title.trim() ? c.title.trim() : undefined }];
+  });
+}
+
+/**
+ * Reads regions from a marker file in any of the supported formats. Entries
+ * without a usable time span are dropped.
+ */
+export function parseMarkers(text: string, fileName: string, options: MarkerImportOptions): ImportedMarker[] {
+  const body = text.replace(/^﻿/, '');
+  const format = detectMarkerFormat(fileName, body);
+  const markers =
+    format === 'audacity' ? parseAudacity(body)
+    : format === 'cue' ? parseCue(body, options.duration)
+    : format === 'edl' ? parseEdlCsv(body, options.frameRate)
+    : parseChapters(body, options.duration);
+  // Point labels (start == end) have nothing to cut and are skipped
+  return markers.filter(m => m.start >= 0 && m.end > m.start);
+}
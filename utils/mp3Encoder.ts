@@ -0,0 +1,39 @@
+// LAME compiled to WebAssembly; only the encoder worker imports this module
+import { createMp3Encoder } from 'wasm-media-encoders';
+import type { EncodeFunction, Mp3Options } from './exportFormats';
+import { hasTags } from './tagUtils';
+import { buildId3v2 } from './tagWriter';
+
+// Frames handed to LAME per call (a multiple of the 1152-sample MP3 frame)
+const INPUT_BLOCK = 1152 * 64;
+
+/** The part of the library's encoder used here, with the bitrate as any number of kbps */
+interface WasmMp3Encoder {
+  configure(params: { sampleRate: number; channels: 1 | 2; bitrate?: number; vbrQuality?: number }): void;
+  /** Returned bytes live in WebAssembly memory and are overwritten by the next call */
+  encode(samples: Float32Array[]): Uint8Array;
+  finalize(): Uint8Array;
+}
+
+/**
+ * Encodes mono or stereo audio to MP3 with LAME, at a constant bitrate or with
+ * VBR quality
+ */
+export const encodeMp3: EncodeFunction<Mp3Options> = async (channels, sampleRate, options, tags, onProgress) => {
+  const encoder: WasmMp3Encoder = await createMp3Encoder();
+  encoder.configure({
+    sampleRate,
+    channels: channels.length === 1 ? 1 : 2,
+    ...(options.mode === 'vbr' ? { vbrQuality: options.vbrQuality } : { bitrate: options.bitrate }),
+  });
+
+  const parts: Uint8Array[] = hasTags(tags) ? [buildId3v2(tags)] : [];
+  const totalFrames = channels[0]?.length ?? 0;
+  for (let start = 0; start < totalFrames; start += INPUT_BLOCK) {
+    parts.push(encoder.encode(channels.map(c => c.subarray(start, start + INPUT_BLOCK))).slice());
+    onProgress(start / totalFrames);
+  }
+  parts.push(encoder.finalize().slice());
+  onProgress(1);
+  return parts;
+};
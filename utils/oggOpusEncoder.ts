@@ -0,0 +1,204 @@
+import type { EncodeFunction, OpusOptions } from './exportFormats';
+import type { AudioTags } from '../types';
+import { buildVorbisComment } from './tagWriter';
+
+const OPUS_SAMPLE_RATE = 48000;
+// libopus lookahead at 48 kHz, used when the encoder doesn't report its own
+const DEFAULT_PRE_SKIP = 312;
+// Audio handed to the encoder per AudioData, in frames
+const INPUT_BLOCK = OPUS_SAMPLE_RATE;
+// Body size at which a page is closed; keeps the per-page overhead small
+const PAGE_TARGET = 4096;
+
+const OGG_CRC_TABLE = new Uint32Array(256);
+for (let i = 0; i < 256; i++) {
+  let c = i << 24;
+  for (let b = 0; b < 8; b++) c = c & 0x80000000 ? (c << 1) ^ 0x04C11DB7 : c << 1;
+  OGG_CRC_TABLE[i] = c >>> 0;
+}
+
+const oggCrc = (data: Uint8Array) =>
+  data.reduce((crc, byte) => ((crc << 8) ^ OGG_CRC_TABLE[((crc >>> 24) ^ byte) & 0xFF]) >>> 0, 0);
+
+const ascii = (text: string) => Uint8Array.from(text, c => c.charCodeAt(0));
+
+/**
+ * Packs packets into Ogg pages of one logical stream
+ */
+class OggWriter {
+  readonly pages: Uint8Array[] = [];
+  private readonly serial = (Math.random() * 0xFFFFFFFF) >>> 0;
+  private sequence = 0;
+  private packets: Uint8Array[] = [];
+  private lacing: number[] = [];
+  private bodySize = 0;
+  private granule = 0;
+
+  /** Adds a packet; `granule` is the stream position once it is decoded */
+  addPacket(packet: Uint8Array, granule: number) {
+    const lacing: number[] = [];
+    for (let left = packet.length; ; left -= 255) {
+      lacing.push(Math.min(left, 255));
+      if (left < 255) break;
+    }
+    // Packets that need several pages (e.g. tags with cover art) start on their own
+    if (this.lacing.length + lacing.length > 255 || this.bodySize >= PAGE_TARGET) this.flush(0);
+    this.packets.push(packet);
+    this.lacing.push(...lacing);
+    this.bodySize += packet.length;
+    this.granule = granule;
+  }
+
+  /** Writes the pending packets as pages; `flags` marks beginning or end of stream */
+  flush(flags: number, granule = this.granule) {
+    if (this.packets.length === 0) return;
+    const body = new Uint8Array(this.bodySize);
+    this.packets.reduce((at, p) => (body.set(p, at), at + p.length), 0);
+
+    let bodyOffset = 0;
+    for (let seg = 0; seg < this.lacing.length; seg += 255) {
+      const table = this.lacing.slice(seg, seg + 255);
+      const size = table.reduce((sum, n) => sum + n, 0);
+      const first = seg === 0;
+      const last = seg + 255 >= this.lacing.length;
+
+      const page = new Uint8Array(27 + table.length + size);
+      const view = new DataView(page.buffer);
+      page.set(ascii('OggS'), 0);
+      page[4] = 0; // version
+      // Continued packet, plus beginning of stream on the first page and end of stream on the last
+      page[5] = (first ? 0 : 0x01) | (first ? flags & 0x02 : 0) | (last ? flags & 0x04 : 0);
+      if (last) {
+        view.setUint32(6, granule % 2 ** 32, true);
+        view.setUint32(10, Math.floor(granule / 2 ** 32), true);
+      } else {
+        // No packet ends on this page
+        view.setUint32(6, 0xFFFFFFFF, true);
+        view.setUint32(10, 0xFFFFFFFF, true);
+      }
+      view.setUint32(14, this.serial, true);
+      view.setUint32(18, this.sequence++, true);
+      page[26] = table.length;
+      page.set(table, 27);
+      page.set(body.subarray(bodyOffset, bodyOffset + size), 27 + table.length);
+      view.setUint32(22, oggCrc(page), true);
+      this.pages.push(page);
+      bodyOffset += size;
+    }
+
+    this.packets = [];
+    this.lacing = [];
+    this.bodySize = 0;
+  }
+}
+
+function opusHead(channels: number, preSkip: number, inputRate: number): Uint8Array {
+  const head = new Uint8Array(19);
+  const view = new DataView(head.buffer);
+  head.set(ascii('OpusHead'), 0);
+  head[8] = 1; // version
+  head[9] = channels;
+  view.setUint16(10, preSkip, true);
+  view.setUint32(12, inputRate, true);
+  view.setInt16(16, 0, true); // output gain
+  head[18] = 0; // mapping family: mono/stereo
+  return head;
+}
+
+function opusTags(tags: AudioTags): Uint8Array {
+  const comments = buildVorbisComment(tags, 'AudioCutter Pro', true);
+  const packet = new Uint8Array(8 + comments.length);
+  packet.set(ascii('OpusTags'), 0);
+  packet.set(comments, 8);
+  return packet;
+}
+
+/** Pre-skip from an OpusHead the encoder put in its decoder config, if any */
+function readPreSkip(description: AllowSharedBufferSource | undefined): number | null {
+  if (!description) return null;
+  const bytes = ArrayBuffer.isView(description)
+    ? new Uint8Array(description.buffer, description.byteOffset, description.byteLength)
+    : new Uint8Array(description);
+  if (bytes.length < 12 || String.fromCharCode(...bytes.subarray(0, 8)) !== 'OpusHead') return null;
+  return bytes[10] | (bytes[11] << 8);
+}
+
+/**
+ * Encodes 48 kHz mono or stereo audio to Ogg Opus with the browser's WebCodecs
+ * encoder, muxing the packets into Ogg pages here
+ */
+export const encodeOggOpus: EncodeFunction<OpusOptions> = async (channels, sampleRate, options, tags, onProgress) => {
+  if (typeof AudioEncoder === 'undefined') {
+    throw new Error('当前浏览器不支持 Opus 编码 (需要 WebCodecs)，请改用其他格式');
+  }
+  if (sampleRate !== OPUS_SAMPLE_RATE) throw new Error('Opus 编码需要 48 kHz 音频');
+
+  const numberOfChannels = channels.length;
+  const config: AudioEncoderConfig = {
+    codec: 'opus',
+    sampleRate: OPUS_SAMPLE_RATE,
+    numberOfChannels,
+    bitrate: options.bitrate * 1000,
+  };
+  const support = await AudioEncoder.isConfigSupported(config);
+  if (!support.supported) throw new Error('当前浏览器不支持此 Opus 编码设置');
+
+  const packets: { data: Uint8Array; samples: number }[] = [];
+  let preSkip = DEFAULT_PRE_SKIP;
+  let failure: unknown = null;
+  const encoder = new AudioEncoder({
+    output: (chunk, metadata) => {
+      const data = new Uint8Array(chunk.byteLength);
+      chunk.copyTo(data);
+      // Durations are in microseconds; 20 ms frames unless told otherwise
+      const samples = chunk.duration ? Math.round((chunk.duration * OPUS_SAMPLE_RATE) / 1e6) : 960;
+      packets.push({ data, samples });
+      preSkip = readPreSkip(metadata?.decoderConfig?.description) ?? preSkip;
+    },
+    error: (err) => {
+      failure = err;
+    },
+  });
+  encoder.configure(config);
+
+  const totalFrames = channels[0]?.length ?? 0;
+  for (let start = 0; start < totalFrames && !failure; start += INPUT_BLOCK) {
+    const frames = Math.min(INPUT_BLOCK, totalFrames - start);
+    const planar = new Float32Array(frames * numberOfChannels);
+    channels.forEach((data, c) => planar.set(data.subarray(start, start + frames), c * frames));
+    const audio = new AudioData({
+      format: 'f32-planar',
+      sampleRate: OPUS_SAMPLE_RATE,
+      numberOfFrames: frames,
+      numberOfChannels,
+      timestamp: Math.round((start / OPUS_SAMPLE_RATE) * 1e6),
+      data: planar,
+    });
+    encoder.encode(audio);
+    audio.close();
+    // Let the encoder catch up instead of queueing the whole file
+    while (encoder.encodeQueueSize > 4) {
+      await new Promise(resolve => setTimeout(resolve, 5));
+    }
+    onProgress(start / totalFrames);
+  }
+  await encoder.flush();
+  encoder.close();
+  if (failure) throw failure;
+
+  const ogg = new OggWriter();
+  ogg.addPacket(opusHead(numberOfChannels, preSkip, sampleRate), 0);
+  ogg.flush(0x02); // beginning of stream
+  ogg.addPacket(opusTags(tags), 0);
+  ogg.flush(0);
+
+  let granule = 0;
+  packets.forEach(p => {
+    granule += p.samples;
+    ogg.addPacket(p.data, granule);
+  });
+  // The last granule position trims the encoder's padding off the end
+  ogg.flush(0x04, Math.min(granule, preSkip + totalFrames));
+  onProgress(1);
+  return ogg.pages;
+};
@@ -0,0 +1,62 @@
+import { AudioFormatInfo } from '../types';
+import { WaveformPeaks } from './peaksUtils';
+import { loadPeaks, savePeaks } from './projectStore';
+import type { PeaksWorkerRequest, PeaksWorkerResponse } from '../workers/peaksWorker';
+
+/**
+ * Computes waveform peaks in a Web Worker, which streams the file rather than
+ * decoding it in one piece
+ */
+export function generatePeaks(
+  file: Blob,
+  format: AudioFormatInfo,
+  onProgress?: (fraction: number) => void
+): Promise<WaveformPeaks> {
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL('../workers/peaksWorker.ts', import.meta.url), { type: 'module' });
+
+    worker.onmessage = (e: MessageEvent<PeaksWorkerResponse>) => {
+      const message = e.data;
+      if (message.type === 'progress') {
+        onProgress?.(message.value);
+        return;
+      }
+      worker.terminate();
+      if (message.type === 'result') {
+        resolve(message.peaks);
+      } else {
+        reject(new Error(message.message));
+      }
+    };
+    worker.onerror = (e) => {
+      worker.terminate();
+      reject(new Error(e.message || 'Peaks worker failed'));
+    };
+
+    const request: PeaksWorkerRequest = { file, format };
+    worker.postMessage(request);
+  });
+}
+
+/**
+ * Peaks from the IndexedDB cache, or generated and then cached. Cache failures
+ * only cost the time to generate them again.
+ */
+export async function getWaveformPeaks(
+  file: Blob,
+  format: AudioFormatInfo,
+  fingerprint: string,
+  onProgress?: (fraction: number) => void
+): Promise<WaveformPeaks> {
+  try {
+    const cached = await loadPeaks(fingerprint);
+    if (cached) return cached.peaks;
+  } catch (err) {
+    console.warn("Reading cached peaks failed", err);
+  }
+
+  const peaks = await generatePeaks(file, format, onProgress);
+  savePeaks({ fingerprint, peaks, createdAt: Date.now() })
+    .catch(err => console.warn("Caching peaks failed", err));
+  return peaks;
+}
@@ -0,0 +1,107 @@
+import { AudioFormatInfo } from '../types';
+import { streamAudio } from './audioStream';
+
+/** One resolution of the waveform: the loudest sample (with its sign) per `samplesPerPeak` frames */
+export interface PeaksLevel {
+  samplesPerPeak: number;
+  /** One array per channel, at most two */
+  data: Float32Array[];
+}
+
+/** Waveform overview of a recording at several resolutions, finest first */
+export interface WaveformPeaks {
+  sampleRate: number;
+  duration: number;
+  levels: PeaksLevel[];
+}
+
+// Finest level; at 48 kHz that's still one peak per pixel at 190 px/s
+const BASE_SAMPLES_PER_PEAK = 256;
+// Each coarser level merges this many peaks of the one before
+const LEVEL_FACTOR = 4;
+// Coarsening stops once a level would drop below this many peaks
+const MIN_LEVEL_PEAKS = 2048;
+
+/** Keeps whichever of two samples is further from zero */
+const louder = (a: number, b: number) => (Math.abs(b) > Math.abs(a) ? b : a);
+
+/** Merges groups of `factor` peaks into one */
+function coarsen(data: Float32Array, factor: number): Float32Array {
+  const out = new Float32Array(Math.ceil(data.length / factor));
+  for (let i = 0; i < out.length; i++) {
+    let peak = 0;
+    const end = Math.min(data.length, (i + 1) * factor);
+    for (let j = i * factor; j < end; j++) peak = louder(peak, data[j]);
+    out[i] = peak;
+  }
+  return out;
+}
+
+/**
+ * Streams a file and builds its peak levels. Memory use is the peaks themselves
+ * plus one decoded chunk, however long the recording.
+ */
+export async function computeWaveformPeaks(
+  file: Blob,
+  format: AudioFormatInfo,
+  onProgress?: (fraction: number) => void
+): Promise<WaveformPeaks> {
+  const sampleRate = format.sampleRate!;
+  const expectedFrames = (format.duration || 0) * sampleRate;
+  let peaks: number[][] = [];
+  // Loudest sample so far in the peak being filled, and how many frames it has
+  let current: number[] = [];
+  let filled = 0;
+  let frames = 0;
+
+  for await (const { channels } of streamAudio(file, format)) {
+    if (peaks.length === 0) {
+      peaks = channels.slice(0, 2).map(() => []);
+      current = peaks.map(() => 0);
+    }
+    const length = channels[0].length;
+    for (let i = 0; i < length; i++) {
+      for (let c = 0; c < peaks.length; c++) current[c] = louder(current[c], channels[c][i]);
+      if (++filled === BASE_SAMPLES_PER_PEAK) {
+        peaks.forEach((data, c) => data.push(current[c]));
+        current.fill(0);
+        filled = 0;
+      }
+    }
+    frames += length;
+    if (expectedFrames > 0) onProgress?.(Math.min(1, frames / expectedFrames));
+  }
+  if (frames === 0) throw new Error('文件已损坏或不包含音频数据');
+  if (filled > 0) peaks.forEach((data, c) => data.push(current[c]));
+
+  const levels: PeaksLevel[] = [{ samplesPerPeak: BASE_SAMPLES_PER_PEAK, data: peaks.map(p => Float32Array.from(p)) }];
+  while (levels[levels.length - 1].data[0].length / LEVEL_FACTOR >= MIN_LEVEL_PEAKS) {
+    const prev = levels[levels.length - 1];
+    levels.push({ samplesPerPeak: prev.samplesPerPeak * LEVEL_FACTOR, data: prev.data.map(d => coarsen(d, LEVEL_FACTOR)) });
+  }
+  return { sampleRate, duration: frames / sampleRate, levels };
+}
+
+/**
+ * The coarsest level that still has a peak for every device pixel at this zoom
+ * (WaveSurfer's minPxPerSec), or the finest one when zoomed in further
+ */
+export function pickPeaksLevel(peaks: WaveformPeaks, pxPerSec: number): PeaksLevel {
+  const samplesPerPixel = peaks.sampleRate / (pxPerSec * (globalThis.devicePixelRatio || 1));
+  return [...peaks.levels].reverse().find(level => level.samplesPerPeak <= samplesPerPixel) || peaks.levels[0];
+}
+
+/**
+ * The finest level in the shape of an AudioBuffer, for analysis that only
+ * needs the level envelope (e.g. silence detection on long recordings)
+ */
+export function peaksAsBuffer(peaks: WaveformPeaks): AudioBuffer {
+  const { data, samplesPerPeak } = peaks.levels[0];
+  return {
+    duration: peaks.duration,
+    length: data[0].length,
+    sampleRate: peaks.sampleRate / samplesPerPeak,
+    numberOfChannels: data.length,
+    getChannelData: (channel: number) => data[channel],
+  } as AudioBuffer;
+}
@@ -0,0 +1,108 @@
+import { ProjectData, TranscriptSegment } from '../types';
+import { WaveformPeaks } from './peaksUtils';
+
+const DB_NAME = 'audiocutter-pro';
+const DB_VERSION = 3;
+const PROJECT_STORE = 'projects';
+const TRANSCRIPT_CHUNK_STORE = 'transcriptChunks';
+const PEAKS_STORE = 'peaks';
+
+/** Transcription result for one chunk of a file, so failed runs can resume */
+export interface TranscriptChunkRecord {
+  key: string;
+  /** Times relative to the chunk start */
+  segments: TranscriptSegment[];
+  createdAt: number;
+}
+
+/** Waveform peaks of a long recording, so reopening it doesn't decode it again */
+export interface PeaksRecord {
+  fingerprint: string;
+  peaks: WaveformPeaks;
+  createdAt: number;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Opens (and on first use creates) the IndexedDB database
+ */
+function openDatabase(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(PROJECT_STORE)) {
+        db.createObjectStore(PROJECT_STORE, { keyPath: 'fingerprint' });
+      }
+      if (!db.objectStoreNames.contains(TRANSCRIPT_CHUNK_STORE)) {
+        db.createObjectStore(TRANSCRIPT_CHUNK_STORE, { keyPath: 'key' });
+      }
+      if (!db.objectStoreNames.contains(PEAKS_STORE)) {
+        db.createObjectStore(PEAKS_STORE, { keyPath: 'fingerprint' });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+  return dbPromise;
+}
+
+function runRequest<T>(storeName: string, mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  return openDatabase().then(db => new Promise<T>((resolve, reject) => {
+    const tx = db.transaction(storeName, mode);
+    const request = action(tx.objectStore(storeName));
+    tx.oncomplete = () => resolve(request.result);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  }));
+}
+
+/**
+ * Loads the autosaved project for a file fingerprint, if any
+ */
+export async function loadProject(fingerprint: string): Promise<ProjectData | null> {
+  const project = await runRequest<ProjectData | undefined>(PROJECT_STORE, 'readonly', store => store.get(fingerprint));
+  return project || null;
+}
+
+/**
+ * Inserts or replaces the autosaved project for its fingerprint
+ */
+export async function saveProject(project: ProjectData): Promise<void> {
+  await runRequest(PROJECT_STORE, 'readwrite', store => store.put(project));
+}
+
+/**
+ * Cached transcription of one chunk, keyed by file, engine settings and time range
+ */
+export async function loadTranscriptChunk(key: string): Promise<TranscriptChunkRecord | null> {
+  const record = await runRequest<TranscriptChunkRecord | undefined>(TRANSCRIPT_CHUNK_STORE, 'readonly', store => store.get(key));
+  return record || null;
+}
+
+/**
+ * Stores a finished chunk so an interrupted transcription can pick up from it
+ */
+export async function saveTranscriptChunk(record: TranscriptChunkRecord): Promise<void> {
+  await runRequest(TRANSCRIPT_CHUNK_STORE, 'readwrite', store => store.put(record));
+}
+
+/**
+ * Cached waveform peaks for a file fingerprint, if any
+ */
+export async function loadPeaks(fingerprint: string): Promise<PeaksRecord | null> {
+  const record = await runRequest<PeaksRecord | undefined>(PEAKS_STORE, 'readonly', store => store.get(fingerprint));
+  return record || null;
+}
+
+/**
+ * Stores computed peaks under the file's fingerprint
+ */
+export async function savePeaks(record: PeaksRecord): Promise<void> {
+  await runRequest(PEAKS_STORE, 'readwrite', store => store.put(record));
+}
@@ -0,0 +1,91 @@
+import { ProjectData, EditOperation } from '../types';
+
+export const PROJECT_VERSION = 1;
+export const PROJECT_EXTENSION = '.acproj';
+
+// Hashing multi-hour recordings end to end is slow; head + tail + size is enough to tell files apart
+const FINGERPRINT_SAMPLE_BYTES = 1024 * 1024;
+
+const toHex = (buffer: ArrayBuffer) =>
+  Array.from(new Uint8Array(buffer), b => b.toString(16).padStart(2, '0')).join('');
+
+/**
+ * Identifies a file by name, size and a SHA-256 over its first and last megabyte
+ */
+export async function computeFingerprint(file: File): Promise<string> {
+  const head = file.slice(0, FINGERPRINT_SAMPLE_BYTES);
+  const tail = file.size > FINGERPRINT_SAMPLE_BYTES
+    ? file.slice(Math.max(FINGERPRINT_SAMPLE_BYTES, file.size - FINGERPRINT_SAMPLE_BYTES))
+    : new Blob();
+  const bytes = await new Blob([head, tail]).arrayBuffer();
+  const hash = toHex(await crypto.subtle.digest('SHA-256', bytes));
+  return `${file.name}:${file.size}:${hash}`;
+}
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const isObject = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+
+const isTimedItem = (value: unknown): value is Record<string, unknown> & { start: number; end: number } =>
+  isObject(value) && isNumber(value.start) && isNumber(value.end);
+
+const isEditOperation = (value: unknown): value is EditOperation => {
+  if (!isObject(value)) return false;
+  switch (value.type) {
+    case 'delete':
+    case 'silence':
+    case 'crop':
+      return isTimedItem(value);
+    case 'insertSilence':
+      return isNumber(value.at) && isNumber(value.duration);
+    default:
+      return false;
+  }
+};
+
+const isRegion = (value: unknown) => isTimedItem(value) && typeof value.id === 'string';
+
+const isTranscriptSegment = (value: unknown) =>
+  isTimedItem(value) && typeof value.text === 'string' && (value.speaker === undefined || typeof value.speaker === 'string');
+
+/**
+ * Serializes a project for a .acproj download
+ */
+export function serializeProject(project: ProjectData): string {
+  return JSON.stringify(project, null, 2);
+}
+
+/**
+ * Parses and validates .acproj content, throwing a readable error when it is malformed
+ */
+export function parseProject(text: string): ProjectData {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('项目文件不是有效的 JSON');
+  }
+
+  if (!isObject(data) || !isNumber(data.version)) {
+    throw new Error('无法识别的项目文件');
+  }
+  if (data.version > PROJECT_VERSION) {
+    throw new Error('项目文件版本过新，请升级后再导入');
+  }
+  const { file, regions, transcript, edits, view } = data;
+  if (
+    typeof data.fingerprint !== 'string' ||
+    !isObject(file) || typeof file.name !== 'string' ||
+    (file.tags !== undefined && !isObject(file.tags)) ||
+    !Array.isArray(regions) || !regions.every(isRegion) ||
+    !Array.isArray(transcript) || !transcript.every(isTranscriptSegment) ||
+    !Array.isArray(edits) || !edits.every(isEditOperation)
+  ) {
+    throw new Error('项目文件内容不完整或已损坏');
+  }
+
+  return {
+    ...data,
+    view: { zoom: isObject(view) && isNumber(view.zoom) ? view.zoom : 20 },
+  } as unknown as ProjectData;
+}
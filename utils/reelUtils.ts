@@ -0,0 +1,67 @@
+import { joinWithCrossfade } from './fadeUtils';
+
+export type ClipSpacingMode = 'gap' | 'crossfade';
+
+/** What goes between neighbouring clips of a joined export */
+export interface ClipSpacing {
+  mode: ClipSpacingMode;
+  /** Silence length or crossfade overlap, in seconds */
+  seconds: number;
+}
+
+export const CLIP_SPACING_LABELS: Record<ClipSpacingMode, string> = {
+  gap: '静音间隔',
+  crossfade: '交叉淡化',
+};
+
+export const DEFAULT_CLIP_SPACING: ClipSpacing = { mode: 'gap', seconds: 0 };
+
+/**
+ * Resamples and up/down-mixes a clip so clips from different files can be joined.
+ * Returns the buffer itself when it already matches.
+ */
+export async function conformBuffer(buffer: AudioBuffer, sampleRate: number, numberOfChannels: number): Promise<AudioBuffer> {
+  if (buffer.sampleRate === sampleRate && buffer.numberOfChannels === numberOfChannels) return buffer;
+  const ctx = new OfflineAudioContext(numberOfChannels, Math.max(1, Math.round(buffer.duration * sampleRate)), sampleRate);
+  const node = ctx.createBufferSource();
+  node.buffer = buffer;
+  node.connect(ctx.destination);
+  node.start();
+  return ctx.startRendering();
+}
+
+/**
+ * Concatenates clips with silence or crossfades between them. `starts` holds
+ * where each clip begins in the result, in seconds. Clips must share a sample
+ * rate and channel count (see conformBuffer).
+ */
+export function joinClips(buffers: AudioBuffer[], spacing: ClipSpacing): { buffer: AudioBuffer; starts: number[] } {
+  const sampleRate = buffers[0].sampleRate;
+  const starts: number[] = [];
+
+  if (spacing.mode === 'crossfade') {
+    // Same overlap rule as joinWithCrossfade: never more than either neighbour
+    const wanted = Math.max(0, Math.round(spacing.seconds * sampleRate));
+    let position = 0;
+    buffers.forEach((b, i) => {
+      if (i > 0) position -= Math.min(wanted, buffers[i - 1].length, b.length);
+      starts.push(position / sampleRate);
+      position += b.length;
+    });
+    return { buffer: joinWithCrossfade(buffers, spacing.seconds), starts };
+  }
+
+  const gapFrames = Math.max(0, Math.round(spacing.seconds * sampleRate));
+  const parts: AudioBuffer[] = [];
+  let position = 0;
+  buffers.forEach((b, i) => {
+    if (i > 0 && gapFrames > 0) {
+      parts.push(new AudioBuffer({ numberOfChannels: b.numberOfChannels, length: gapFrames, sampleRate }));
+      position += gapFrames;
+    }
+    starts.push(position / sampleRate);
+    parts.push(b);
+    position += b.length;
+  });
+  return { buffer: joinWithCrossfade(parts, 0), starts };
+}
@@ -0,0 +1,43 @@
+import { TimeRange } from '../types';
+import { SilenceDetectionOptions } from './silenceUtils';
+import type { SilenceWorkerRequest, SilenceWorkerResponse } from '../workers/silenceWorker';
+
+/**
+ * Runs silence detection on a buffer in a Web Worker so long files don't block the UI
+ */
+export function runSilenceDetection(
+  buffer: AudioBuffer,
+  options: SilenceDetectionOptions,
+  onProgress?: (fraction: number) => void
+): Promise<TimeRange[]> {
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL('../workers/silenceWorker.ts', import.meta.url), { type: 'module' });
+
+    // Copies are transferred so the editor's buffer stays usable
+    const channels: Float32Array[] = [];
+    for (let c = 0; c < buffer.numberOfChannels; c++) {
+      channels.push(buffer.getChannelData(c).slice());
+    }
+
+    worker.onmessage = (e: MessageEvent<SilenceWorkerResponse>) => {
+      const message = e.data;
+      if (message.type === 'progress') {
+        onProgress?.(message.value);
+        return;
+      }
+      worker.terminate();
+      if (message.type === 'result') {
+        resolve(message.ranges);
+      } else {
+        reject(new Error(message.message));
+      }
+    };
+    worker.onerror = (e) => {
+      worker.terminate();
+      reject(new Error(e.message || 'Silence detection worker failed'));
+    };
+
+    const request: SilenceWorkerRequest = { channels, sampleRate: buffer.sampleRate, options };
+    worker.postMessage(request, channels.map(c => c.buffer));
+  });
+}
@@ -0,0 +1,92 @@
+import { TimeRange } from '../types';
+
+export interface SilenceDetectionOptions {
+  /** Level below which audio counts as silence, in dBFS */
+  thresholdDb: number;
+  /** Shortest gap that splits two segments, in seconds */
+  minSilence: number;
+  /** Extra audio kept on both sides of each segment, in seconds */
+  padding: number;
+}
+
+export const DEFAULT_SILENCE_OPTIONS: SilenceDetectionOptions = {
+  thresholdDb: -40,
+  minSilence: 0.5,
+  padding: 0.1,
+};
+
+// RMS analysis window, in seconds
+const ANALYSIS_WINDOW = 0.01;
+
+/**
+ * Finds the non-silent parts of a signal. The loudest channel decides whether a
+ * 10 ms window is silent; silent runs shorter than `minSilence` are ignored.
+ * Padding never makes neighbouring segments overlap.
+ */
+export function detectNonSilentRanges(
+  channels: Float32Array[],
+  sampleRate: number,
+  options: SilenceDetectionOptions,
+  onProgress?: (fraction: number) => void
+): TimeRange[] {
+  const length = channels[0]?.length || 0;
+  const windowSize = Math.max(1, Math.round(ANALYSIS_WINDOW * sampleRate));
+  const windowCount = Math.ceil(length / windowSize);
+  const threshold = Math.pow(10, options.thresholdDb / 20);
+  const minSilentWindows = Math.max(1, Math.round(options.minSilence / ANALYSIS_WINDOW));
+  const duration = length / sampleRate;
+
+  const silent = new Uint8Array(windowCount);
+  const progressEvery = Math.max(1, Math.floor(windowCount / 100));
+  for (let w = 0; w < windowCount; w++) {
+    const from = w * windowSize;
+    const to = Math.min(length, from + windowSize);
+    let loudest = 0;
+    for (const data of channels) {
+      let sum = 0;
+      for (let i = from; i < to; i++) sum += data[i] * data[i];
+      loudest = Math.max(loudest, Math.sqrt(sum / (to - from)));
+    }
+    silent[w] = loudest < threshold ? 1 : 0;
+    if (onProgress && w % progressEvery === 0) onProgress(w / windowCount);
+  }
+
+  // Collect sound runs, merging across silences that are too short to count
+  const ranges: TimeRange[] = [];
+  let w = 0;
+  while (w < windowCount) {
+    if (silent[w]) {
+      w++;
+      continue;
+    }
+    const startWindow = w;
+    let endWindow = w;
+    while (w < windowCount) {
+      if (!silent[w]) {
+        endWindow = ++w;
+        continue;
+      }
+      let run = 0;
+      while (w + run < windowCount && silent[w + run]) run++;
+      if (run >= minSilentWindows || w + run >= windowCount) break;
+      w += run;
+    }
+    w = Math.max(w, endWindow);
+    ranges.push({
+      start: (startWindow * windowSize) / sampleRate,
+      end: Math.min(duration, (endWindow * windowSize) / sampleRate),
+    });
+  }
+
+  onProgress?.(1);
+  return ranges.map((range, i) => {
+    const prev = ranges[i - 1];
+    const next = ranges[i + 1];
+    const minStart = prev ? (prev.end + range.start) / 2 : 0;
+    const maxEnd = next ? (range.end + next.start) / 2 : duration;
+    return {
+      start: Math.max(minStart, range.start - options.padding),
+      end: Math.min(maxEnd, range.end + options.padding),
+    };
+  });
+}
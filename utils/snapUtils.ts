@@ -0,0 +1,106 @@
+export type SnapMode = 'off' | 'zero-crossing' | 'transient';
+
+export interface SnapSettings {
+  mode: SnapMode;
+  /** Search distance on either side of the boundary, in milliseconds */
+  windowMs: number;
+}
+
+export const SNAP_MODE_LABELS: Record<SnapMode, string> = {
+  off: '关闭',
+  'zero-crossing': '过零点',
+  transient: '瞬态',
+};
+
+// Onset detection frame size and hop, in samples
+const ONSET_FRAME = 512;
+const ONSET_HOP = 128;
+// Minimum log-energy rise (in nepers per hop) treated as an onset
+const ONSET_THRESHOLD = 1.0;
+
+/**
+ * Sums all channels of a frame range into a mono signal
+ */
+function mixDown(buffer: AudioBuffer, from: number, to: number): Float32Array {
+  const mono = new Float32Array(Math.max(0, to - from));
+  for (let c = 0; c < buffer.numberOfChannels; c++) {
+    const data = buffer.getChannelData(c);
+    for (let i = from; i < to; i++) mono[i - from] += data[i];
+  }
+  return mono;
+}
+
+function getSearchRange(buffer: AudioBuffer, time: number, windowMs: number) {
+  const center = Math.round(time * buffer.sampleRate);
+  const radius = Math.max(1, Math.round((windowMs / 1000) * buffer.sampleRate));
+  return {
+    center,
+    from: Math.max(0, center - radius),
+    to: Math.min(buffer.length, center + radius + 1),
+  };
+}
+
+/**
+ * Finds the zero crossing (of the mono mix) closest to `time` within the window.
+ * Returns null when the signal never changes sign there.
+ */
+export function findNearestZeroCrossing(buffer: AudioBuffer, time: number, windowMs: number): number | null {
+  const { center, from, to } = getSearchRange(buffer, time, windowMs);
+  const mono = mixDown(buffer, from, to);
+
+  let best = -1;
+  for (let i = 0; i < mono.length - 1; i++) {
+    const a = mono[i];
+    const b = mono[i + 1];
+    if (a === 0 || (a < 0) !== (b < 0)) {
+      // Pick whichever side of the crossing is closer to zero
+      const frame = from + (a === 0 || Math.abs(a) <= Math.abs(b) ? i : i + 1);
+      if (best < 0 || Math.abs(frame - center) < Math.abs(best - center)) best = frame;
+    }
+  }
+  return best < 0 ? null : best / buffer.sampleRate;
+}
+
+/**
+ * Finds the strongest onset (largest rise in short-time log energy) within the window.
+ * Returns null when nothing in the window rises above the onset threshold.
+ */
+export function findNearestTransient(buffer: AudioBuffer, time: number, windowMs: number): number | null {
+  const { from, to } = getSearchRange(buffer, time, windowMs);
+  // Include one frame of history so an onset right at the window edge can be measured
+  const start = Math.max(0, from - ONSET_FRAME);
+  const mono = mixDown(buffer, start, to);
+
+  let previous: number | null = null;
+  let bestFlux = ONSET_THRESHOLD;
+  let bestFrame = -1;
+
+  for (let offset = 0; offset + ONSET_FRAME <= mono.length; offset += ONSET_HOP) {
+    let energy = 0;
+    for (let i = offset; i < offset + ONSET_FRAME; i++) energy += mono[i] * mono[i];
+    const logEnergy = Math.log(energy / ONSET_FRAME + 1e-10);
+
+    if (previous !== null) {
+      const flux = logEnergy - previous;
+      // The new energy enters through the last hop of the frame
+      const frame = start + offset + ONSET_FRAME - ONSET_HOP;
+      if (flux > bestFlux && frame >= from && frame < to) {
+        bestFlux = flux;
+        bestFrame = frame;
+      }
+    }
+    previous = logEnergy;
+  }
+  return bestFrame < 0 ? null : bestFrame / buffer.sampleRate;
+}
+
+/**
+ * Moves a boundary according to the snap settings, leaving it untouched when nothing qualifies
+ */
+export function snapBoundary(buffer: AudioBuffer, time: number, settings: SnapSettings): number {
+  if (settings.mode === 'off' || settings.windowMs <= 0) return time;
+  const snapped = settings.mode === 'zero-crossing'
+    ? findNearestZeroCrossing(buffer, time, settings.windowMs)
+    : findNearestTransient(buffer, time, settings.windowMs);
+  return snapped ?? time;
+}
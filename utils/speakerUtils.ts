@@ -0,0 +1,68 @@
+import { TimeRange, TranscriptSegment } from '../types';
+
+/** Colors handed to speakers in order of first appearance */
+export const SPEAKER_COLORS = ['#6366f1', '#10b981', '#f59e0b', '#ec4899', '#0ea5e9', '#8b5cf6', '#ef4444', '#84cc16'];
+
+/**
+ * Speaker labels in the order they first speak
+ */
+export function getSpeakers(segments: TranscriptSegment[]): string[] {
+  const speakers: string[] = [];
+  segments.forEach(s => {
+    if (s.speaker && !speakers.includes(s.speaker)) speakers.push(s.speaker);
+  });
+  return speakers;
+}
+
+/**
+ * Color per speaker label, cycling through the palette
+ */
+export function getSpeakerColors(speakers: string[]): Record<string, string> {
+  return Object.fromEntries(speakers.map((speaker, i) => [speaker, SPEAKER_COLORS[i % SPEAKER_COLORS.length]]));
+}
+
+/**
+ * Relabels every segment of a speaker. Renaming to an existing label merges the two.
+ */
+export function renameSpeaker(segments: TranscriptSegment[], from: string, to: string): TranscriptSegment[] {
+  const name = to.trim();
+  if (!name || name === from) return segments;
+  return segments.map(s => (s.speaker === from ? { ...s, speaker: name } : s));
+}
+
+/**
+ * Time spans where a speaker talks: consecutive lines by them form one span,
+ * widened by `padding` and kept within [0, duration]. Spans that touch after
+ * padding are joined.
+ */
+export function getSpeakerRanges(
+  segments: TranscriptSegment[], speaker: string, padding: number, duration: number
+): (TimeRange & { note: string })[] {
+  const runs: TranscriptSegment[][] = [];
+  let current: TranscriptSegment[] | null = null;
+  segments.forEach(s => {
+    if (s.speaker !== speaker) {
+      current = null;
+    } else if (current) {
+      current.push(s);
+    } else {
+      current = [s];
+      runs.push(current);
+    }
+  });
+
+  const ranges: (TimeRange & { note: string })[] = [];
+  runs.forEach(run => {
+    const start = Math.max(0, Math.min(...run.map(s => s.start)) - padding);
+    const end = Math.min(duration, Math.max(...run.map(s => s.end)) + padding);
+    const text = run.map(s => s.text).join(' ');
+    const last = ranges[ranges.length - 1];
+    if (last && start <= last.end) {
+      last.end = Math.max(last.end, end);
+      last.note += ` ${text}`;
+    } else {
+      ranges.push({ start, end, note: text });
+    }
+  });
+  return ranges.map(r => ({ ...r, note: `${speaker}: ${r.note}` }));
+}
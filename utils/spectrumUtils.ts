@@ -0,0 +1,153 @@
+export type SpectrumWindow = 'hann' | 'hamming' | 'blackman' | 'rectangular';
+
+export type SpectrogramColorMap = 'roseus' | 'magma' | 'viridis' | 'gray' | 'igray';
+
+export interface SpectrogramSettings {
+  /** Whether the spectrogram lane is shown under the waveform */
+  visible: boolean;
+  fftSize: number;
+  window: SpectrumWindow;
+  colorMap: SpectrogramColorMap;
+}
+
+export const DEFAULT_SPECTROGRAM_SETTINGS: SpectrogramSettings = {
+  visible: false,
+  fftSize: 1024,
+  window: 'hann',
+  colorMap: 'roseus',
+};
+
+export const FFT_SIZES = [256, 512, 1024, 2048, 4096];
+
+export const WINDOW_LABELS: Record<SpectrumWindow, string> = {
+  hann: 'Hann',
+  hamming: 'Hamming',
+  blackman: 'Blackman',
+  rectangular: '矩形',
+};
+
+export const COLOR_MAP_LABELS: Record<SpectrogramColorMap, string> = {
+  roseus: 'Roseus',
+  magma: 'Magma',
+  viridis: 'Viridis',
+  gray: '灰度',
+  igray: '反相灰度',
+};
+
+// WaveSurfer draws the waveform from audio at 8 kHz, which leaves nothing
+// above 4 kHz to show; with the lane on it gets audio at this rate instead
+export const SPECTROGRAM_SAMPLE_RATE = 22050;
+
+// Color stops of the maps the spectrogram plugin doesn't ship, from matplotlib
+const COLOR_STOPS: Partial<Record<SpectrogramColorMap, string[]>> = {
+  magma: ['#000004', '#3b0f70', '#8c2981', '#de4968', '#fe9f6d', '#fcfdbf'],
+  viridis: ['#440154', '#3b528b', '#21918c', '#5ec962', '#fde725'],
+};
+
+/** Interpolates color stops into the 256 RGBA entries (0–1) the spectrogram plugin takes */
+function buildColorMap(stops: string[]): number[][] {
+  const rgb = stops.map(hex => [1, 3, 5].map(i => parseInt(hex.slice(i, i + 2), 16) / 255));
+  return Array.from({ length: 256 }, (_, i) => {
+    const pos = (i / 255) * (rgb.length - 1);
+    const lower = Math.min(rgb.length - 2, Math.floor(pos));
+    const t = pos - lower;
+    return [...rgb[lower].map((c, k) => c + (rgb[lower + 1][k] - c) * t), 1];
+  });
+}
+
+/** The colorMap option for the spectrogram plugin */
+export const getColorMap = (name: SpectrogramColorMap): number[][] | 'roseus' | 'gray' | 'igray' => {
+  const stops = COLOR_STOPS[name];
+  return stops ? buildColorMap(stops) : (name as 'roseus' | 'gray' | 'igray');
+};
+
+/** Window coefficients for one FFT frame */
+export function createWindow(type: SpectrumWindow, size: number): Float32Array {
+  const w = new Float32Array(size);
+  for (let i = 0; i < size; i++) {
+    const x = (2 * Math.PI * i) / (size - 1);
+    switch (type) {
+      case 'hann': w[i] = 0.5 - 0.5 * Math.cos(x); break;
+      case 'hamming': w[i] = 0.54 - 0.46 * Math.cos(x); break;
+      case 'blackman': w[i] = 0.42 - 0.5 * Math.cos(x) + 0.08 * Math.cos(2 * x); break;
+      default: w[i] = 1;
+    }
+  }
+  return w;
+}
+
+/** In-place radix-2 FFT; the length must be a power of two */
+export function fft(re: Float32Array, im: Float32Array): void {
+  const n = re.length;
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+  for (let len = 2; len <= n; len <<= 1) {
+    const angle = (-2 * Math.PI) / len;
+    const wRe = Math.cos(angle);
+    const wIm = Math.sin(angle);
+    for (let start = 0; start < n; start += len) {
+      let curRe = 1;
+      let curIm = 0;
+      for (let k = 0; k < len / 2; k++) {
+        const a = start + k;
+        const b = a + len / 2;
+        const tRe = re[b] * curRe - im[b] * curIm;
+        const tIm = re[b] * curIm + im[b] * curRe;
+        re[b] = re[a] - tRe;
+        im[b] = im[a] - tIm;
+        re[a] += tRe;
+        im[a] += tIm;
+        const nextRe = curRe * wRe - curIm * wIm;
+        curIm = curRe * wIm + curIm * wRe;
+        curRe = nextRe;
+      }
+    }
+  }
+}
+
+// Frames averaged at most; longer selections are sampled evenly
+const MAX_SPECTRUM_FRAMES = 2000;
+
+/** Floor of the spectrum display, matching AnalyserNode's default minDecibels */
+export const SPECTRUM_MIN_DB = -100;
+
+/**
+ * Average power spectrum of the channels mixed to mono, in dBFS per bin
+ * (fftSize / 2 bins, bin k at k * sampleRate / fftSize). A full-scale sine
+ * reads about 0 dB whatever the window.
+ */
+export function averageSpectrum(channels: Float32Array[], fftSize: number, window: SpectrumWindow): Float32Array {
+  const bins = fftSize / 2;
+  const power = new Float64Array(bins);
+  const length = channels[0]?.length || 0;
+  const coefficients = createWindow(window, fftSize);
+  const windowSum = coefficients.reduce((sum, c) => sum + c, 0);
+
+  const frameCount = Math.max(1, Math.floor(length / fftSize));
+  const used = Math.min(frameCount, MAX_SPECTRUM_FRAMES);
+  const step = frameCount / used;
+  const re = new Float32Array(fftSize);
+  const im = new Float32Array(fftSize);
+
+  for (let f = 0; f < used; f++) {
+    const offset = Math.floor(f * step) * fftSize;
+    for (let i = 0; i < fftSize; i++) {
+      let sample = 0;
+      for (const data of channels) sample += data[offset + i] || 0;
+      re[i] = (sample / channels.length) * coefficients[i];
+      im[i] = 0;
+    }
+    fft(re, im);
+    for (let k = 0; k < bins; k++) power[k] += re[k] * re[k] + im[k] * im[k];
+  }
+
+  const scale = 2 / windowSum;
+  return Float32Array.from(power, p => Math.max(SPECTRUM_MIN_DB, 10 * Math.log10((p / used) * scale * scale || 1e-20)));
+}
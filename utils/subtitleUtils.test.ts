@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { buildSubtitles } from './subtitleUtils';
+import { TranscriptSegment } from '../types';
+
+const segments: TranscriptSegment[] = [
+  { start: 1, end: 2.5, text: 'Hello', speaker: 'Ann' },
+  { start: 3661.25, end: 3662, text: 'World' },
+];
+
+describe('buildSubtitles', () => {
+  it('writes numbered SRT cues with comma milliseconds', () => {
+    expect(buildSubtitles(segments, 'srt')).toBe(
+      '1\n00:00:01,000 --> 00:00:02,500\nHello\n\n2\n01:01:01,250 --> 01:01:02,000\nWorld\n'
+    );
+  });
+
+  it('prefixes speakers in SRT and text only when asked', () => {
+    expect(buildSubtitles(segments, 'txt', true)).toBe('Ann: Hello\nWorld\n');
+    expect(buildSubtitles(segments, 'txt')).toBe('Hello\nWorld\n');
+  });
+
+  it('writes WebVTT cues with voice tags for speakers', () => {
+    expect(buildSubtitles(segments, 'vtt', true)).toBe(
+      'WEBVTT\n\n00:00:01.000 --> 00:00:02.500\n<v Ann>Hello\n\n01:01:01.250 --> 01:01:02.000\nWorld\n'
+    );
+  });
+
+  it('escapes WebVTT cue text and drops arrows from it', () => {
+    const tricky = [{ start: 0, end: 1, text: 'Tom & Jerry <3 a --> b', speaker: 'A<b>' }];
+    expect(buildSubtitles(tricky, 'vtt', true)).toBe(
+      'WEBVTT\n\n00:00:00.000 --> 00:00:01.000\n<v Ab>Tom &amp; Jerry &lt;3 a  b\n'
+    );
+  });
+
+  it('keeps blank lines out of cues', () => {
+    expect(buildSubtitles([{ start: 0, end: 1, text: 'one\n\ntwo' }], 'vtt')).toBe(
+      'WEBVTT\n\n00:00:00.000 --> 00:00:01.000\none\ntwo\n'
+    );
+  });
+});
@@ -0,0 +1,105 @@
+import { TimeRange, TranscriptSegment } from '../types';
+
+export type SubtitleFormat = 'srt' | 'vtt' | 'lrc' | 'txt';
+
+export const SUBTITLE_FORMAT_LABELS: Record<SubtitleFormat, string> = {
+  srt: 'SRT',
+  vtt: 'WebVTT',
+  lrc: 'LRC 歌词',
+  txt: '纯文本',
+};
+
+export const SUBTITLE_MIME_TYPES: Record<SubtitleFormat, string> = {
+  srt: 'application/x-subrip',
+  vtt: 'text/vtt',
+  lrc: 'text/plain',
+  txt: 'text/plain',
+};
+
+export interface SubtitleOptions {
+  /** Added to every timestamp, in seconds (may be negative) */
+  offset: number;
+  /** Keep only segments inside this range and make times relative to its start */
+  range?: TimeRange;
+}
+
+/**
+ * Applies range clipping, re-basing and offset. Segments pushed entirely before
+ * zero are dropped; ones straddling zero are cut.
+ */
+export function prepareSegments(segments: TranscriptSegment[], { offset, range }: SubtitleOptions): TranscriptSegment[] {
+  const base = range ? range.start : 0;
+  return segments
+    .filter(s => !range || (s.end > range.start && s.start < range.end))
+    .map(s => ({
+      ...s,
+      text: s.text.trim(),
+      start: (range ? Math.max(s.start, range.start) : s.start) - base + offset,
+      end: (range ? Math.min(s.end, range.end) : s.end) - base + offset,
+    }))
+    .filter(s => s.end > 0 && s.end > s.start && s.text)
+    .map(s => ({ ...s, start: Math.max(0, s.start) }))
+    .sort((a, b) => a.start - b.start);
+}
+
+const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+
+/** HH:MM:SS plus milliseconds after `separator` (',' for SRT, '.' for WebVTT) */
+function formatCueTime(seconds: number, separator: string): string {
+  const ms = Math.round(seconds * 1000);
+  const h = Math.floor(ms / 3600000);
+  const m = Math.floor((ms % 3600000) / 60000);
+  const s = Math.floor((ms % 60000) / 1000);
+  return `${pad(h)}:${pad(m)}:${pad(s)}${separator}${pad(ms % 1000, 3)}`;
+}
+
+/** [mm:ss.xx] LRC tag; minutes keep counting past an hour */
+function formatLrcTime(seconds: number): string {
+  const cs = Math.round(seconds * 100);
+  return `[${pad(Math.floor(cs / 6000))}:${pad(Math.floor((cs % 6000) / 100))}.${pad(cs % 100)}]`;
+}
+
+// Cue text may not contain blank lines, they would end the cue early
+const cueText = (text: string) => text.replace(/\r?\n\s*\r?\n/g, '\n');
+
+/**
+ * WebVTT cue payload: `&` and `<` start entities and tags there, and `-->` can't
+ * appear in a cue at all
+ */
+const vttText = (text: string) =>
+  cueText(text).replace(/-->/g, '').replace(/&/g, '&amp;').replace(/</g, '&lt;');
+
+/** "Speaker: text" when asked for and the segment has a speaker */
+const withSpeaker = (s: TranscriptSegment, include: boolean) =>
+  include && s.speaker ? `${s.speaker}: ${s.text}` : s.text;
+
+/**
+ * Serializes prepared segments in the given subtitle format. With `speakers`,
+ * SRT and text lines are prefixed with the speaker name and WebVTT cues get a
+ * voice tag.
+ */
+export function buildSubtitles(segments: TranscriptSegment[], format: SubtitleFormat, speakers = false): string {
+  switch (format) {
+    case 'srt':
+      return segments
+        .map((s, i) => `${i + 1}\n${formatCueTime(s.start, ',')} --> ${formatCueTime(s.end, ',')}\n${cueText(withSpeaker(s, speakers))}\n`)
+        .join('\n');
+    case 'vtt':
+      return ['WEBVTT', '', ...segments.map(s => {
+        const voice = speakers && s.speaker ? `<v ${s.speaker.replace(/[<>&]/g, '')}>` : '';
+        return `${formatCueTime(s.start, '.')} --> ${formatCueTime(s.end, '.')}\n${voice}${vttText(s.text)}\n`;
+      })].join('\n');
+    case 'lrc': {
+      const lines: string[] = [];
+      segments.forEach((s, i) => {
+        lines.push(`${formatLrcTime(s.start)}${s.text.replace(/\s*\n\s*/g, ' ')}`);
+        // An empty line clears the lyric during gaps between segments
+        const next = segments[i + 1];
+        if (!next || next.start - s.end > 0.01) lines.push(formatLrcTime(s.end));
+      });
+      return lines.join('\n') + '\n';
+    }
+    case 'txt':
+      return segments.map(s => withSpeaker(s, speakers)).join('\n') + '\n';
+  }
+}
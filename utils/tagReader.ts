@@ -0,0 +1,374 @@
+import { AudioTags, CoverArt } from '../types';
+import { base64ToBytes, bytesToBase64, TagField, VORBIS_KEYS } from './tagUtils';
+
+// Ogg comment headers sit in the first pages; large cover art can push them further
+const OGG_HEADER_LIMIT = 4 * 1024 * 1024;
+// Chunks bigger than this are audio, not metadata
+const METADATA_CHUNK_LIMIT = 16 * 1024 * 1024;
+
+const readBytes = async (file: Blob, start: number, end: number) =>
+  new Uint8Array(await file.slice(start, end).arrayBuffer());
+
+const latin1 = new TextDecoder('latin1');
+const utf8 = new TextDecoder('utf-8');
+
+const ascii = (bytes: Uint8Array) => latin1.decode(bytes);
+
+/** Drops trailing NULs; inner NULs separate multiple values (ID3v2.4) */
+const cleanText = (text: string) => text.replace(/\0+$/, '').replace(/\0/g, '/').trim();
+
+const uint32BE = (b: Uint8Array, o: number) => ((b[o] << 24) | (b[o + 1] << 16) | (b[o + 2] << 8) | b[o + 3]) >>> 0;
+const uint32LE = (b: Uint8Array, o: number) => ((b[o + 3] << 24) | (b[o + 2] << 16) | (b[o + 1] << 8) | b[o]) >>> 0;
+const syncsafe = (b: Uint8Array, o: number) => (b[o] << 21) | (b[o + 1] << 14) | (b[o + 2] << 7) | b[o + 3];
+
+/** Sets a field unless an earlier source already filled it */
+function assign(tags: AudioTags, field: TagField, value: string | undefined) {
+  if (value && !tags[field]) tags[field] = value;
+}
+
+// ---------------------------------------------------------------------------
+// ID3v2 (MP3, and the "id3 " chunk some WAV writers add)
+
+const ID3_FIELDS: Record<string, TagField> = {
+  TIT2: 'title', TT2: 'title',
+  TPE1: 'artist', TP1: 'artist',
+  TALB: 'album', TAL: 'album',
+  TPE2: 'albumArtist', TP2: 'albumArtist',
+  TCON: 'genre', TCO: 'genre',
+  TYER: 'year', TYE: 'year', TDRC: 'year',
+  TRCK: 'track', TRK: 'track',
+};
+
+function decodeId3Text(encoding: number, bytes: Uint8Array): string {
+  switch (encoding) {
+    case 1: {
+      // UTF-16 with a byte order mark, little-endian if it's missing
+      const bigEndian = bytes[0] === 0xFE && bytes[1] === 0xFF;
+      return new TextDecoder(bigEndian ? 'utf-16be' : 'utf-16le').decode(bytes);
+    }
+    case 2:
+      return new TextDecoder('utf-16be').decode(bytes);
+    case 3:
+      return utf8.decode(bytes);
+    default:
+      return latin1.decode(bytes);
+  }
+}
+
+/** Length of a NUL-terminated string, counting the terminator (two bytes for UTF-16) */
+function terminatedLength(encoding: number, bytes: Uint8Array, start: number): number {
+  const wide = encoding === 1 || encoding === 2;
+  for (let i = start; i < bytes.length; i += wide ? 2 : 1) {
+    if (bytes[i] === 0 && (!wide || bytes[i + 1] === 0)) return i - start + (wide ? 2 : 1);
+  }
+  return bytes.length - start;
+}
+
+/** Undoes the unsynchronisation scheme (0xFF 0x00 -> 0xFF) */
+function removeUnsync(bytes: Uint8Array): Uint8Array {
+  const out: number[] = [];
+  for (let i = 0; i < bytes.length; i++) {
+    out.push(bytes[i]);
+    if (bytes[i] === 0xFF && bytes[i + 1] === 0x00) i++;
+  }
+  return Uint8Array.from(out);
+}
+
+function parsePicture(major: number, data: Uint8Array): { type: number; cover: CoverArt } | null {
+  const encoding = data[0];
+  let pos = 1;
+  let mimeType: string;
+  if (major === 2) {
+    // ID3v2.2 PIC has a three letter image format instead of a MIME type
+    const format = ascii(data.subarray(1, 4)).toLowerCase();
+    mimeType = format === 'png' ? 'image/png' : 'image/jpeg';
+    pos = 4;
+  } else {
+    const length = terminatedLength(0, data, pos);
+    mimeType = cleanText(ascii(data.subarray(pos, pos + length))) || 'image/jpeg';
+    if (!mimeType.includes('/')) mimeType = `image/${mimeType.toLowerCase()}`;
+    pos += length;
+  }
+  const type = data[pos++];
+  pos += terminatedLength(encoding, data, pos);
+  if (pos >= data.length) return null;
+  return { type, cover: { mimeType, data: bytesToBase64(data.subarray(pos)) } };
+}
+
+/** Parses a complete ID3v2 tag, header included */
+export function parseId3v2(tag: Uint8Array): AudioTags {
+  const tags: AudioTags = {};
+  const major = tag[3];
+  const flags = tag[5];
+  let body = tag.subarray(10);
+  if (flags & 0x80 && major < 4) body = removeUnsync(body);
+
+  let pos = 0;
+  if (flags & 0x40 && major > 2) {
+    pos = major === 4 ? syncsafe(body, 0) : uint32BE(body, 0) + 4;
+  }
+
+  const idLength = major === 2 ? 3 : 4;
+  const headerLength = major === 2 ? 6 : 10;
+  let coverType = -1;
+  while (pos + headerLength <= body.length) {
+    const id = ascii(body.subarray(pos, pos + idLength));
+    if (!/^[A-Z0-9]+$/.test(id)) break; // padding
+    const size = major === 2
+      ? (body[pos + 3] << 16) | (body[pos + 4] << 8) | body[pos + 5]
+      : major === 4 ? syncsafe(body, pos + 4) : uint32BE(body, pos + 4);
+    const formatFlags = major === 2 ? 0 : body[pos + 9];
+    let data = body.subarray(pos + headerLength, pos + headerLength + size);
+    pos += headerLength + size;
+
+    if (major === 3 && formatFlags & 0xC0) continue; // compressed or encrypted
+    if (major === 4) {
+      if (formatFlags & 0x0C) continue;
+      if (formatFlags & 0x01) data = data.subarray(4); // data length indicator
+      if (formatFlags & 0x02) data = removeUnsync(data);
+    }
+    if (data.length === 0) continue;
+
+    const field = ID3_FIELDS[id];
+    if (field) {
+      assign(tags, field, cleanText(decodeId3Text(data[0], data.subarray(1))));
+    } else if (id === 'COMM' || id === 'COM') {
+      const encoding = data[0];
+      // Skip the language code and the short description
+      const textStart = 4 + terminatedLength(encoding, data, 4);
+      assign(tags, 'comment', cleanText(decodeId3Text(encoding, data.subarray(textStart))));
+    } else if (id === 'APIC' || id === 'PIC') {
+      const picture = parsePicture(major, data);
+      // Prefer the front cover (type 3) over any other picture
+      if (picture && (coverType !== 3 && (picture.type === 3 || coverType < 0))) {
+        tags.cover = picture.cover;
+        coverType = picture.type;
+      }
+    }
+  }
+  return tags;
+}
+
+function parseId3v1(bytes: Uint8Array): AudioTags {
+  const text = (start: number, length: number) => cleanText(ascii(bytes.subarray(start, start + length)).split('\0')[0]);
+  const tags: AudioTags = {
+    title: text(3, 30),
+    artist: text(33, 30),
+    album: text(63, 30),
+    year: text(93, 4),
+  };
+  // ID3v1.1 keeps the track number in the last byte of the comment
+  if (bytes[125] === 0 && bytes[126] !== 0) {
+    tags.comment = text(97, 28);
+    tags.track = String(bytes[126]);
+  } else {
+    tags.comment = text(97, 30);
+  }
+  return tags;
+}
+
+// ---------------------------------------------------------------------------
+// Vorbis comments (FLAC, Ogg Vorbis, Opus)
+
+const VORBIS_FIELDS: Record<string, TagField> = {
+  ...Object.fromEntries(Object.entries(VORBIS_KEYS).map(([field, key]) => [key, field as TagField])),
+  'ALBUM ARTIST': 'albumArtist',
+  YEAR: 'year',
+  DESCRIPTION: 'comment',
+};
+
+/** Parses a FLAC PICTURE block, also used base64-encoded in Ogg comments */
+function parseFlacPicture(data: Uint8Array): { type: number; cover: CoverArt } | null {
+  if (data.length < 32) return null;
+  const type = uint32BE(data, 0);
+  const mimeLength = uint32BE(data, 4);
+  const mimeType = ascii(data.subarray(8, 8 + mimeLength)) || 'image/jpeg';
+  let pos = 8 + mimeLength;
+  pos += 4 + uint32BE(data, pos); // description
+  pos += 16; // width, height, depth, colors
+  const length = uint32BE(data, pos);
+  pos += 4;
+  if (pos + length > data.length) return null;
+  return { type, cover: { mimeType, data: bytesToBase64(data.subarray(pos, pos + length)) } };
+}
+
+function parseVorbisComment(bytes: Uint8Array, tags: AudioTags = {}): AudioTags {
+  let pos = 4 + uint32LE(bytes, 0); // vendor string
+  const count = uint32LE(bytes, pos);
+  pos += 4;
+  let trackTotal = '';
+  let coverType = -1;
+  for (let i = 0; i < count && pos + 4 <= bytes.length; i++) {
+    const length = uint32LE(bytes, pos);
+    const entry = utf8.decode(bytes.subarray(pos + 4, pos + 4 + length));
+    pos += 4 + length;
+    const eq = entry.indexOf('=');
+    if (eq < 0) continue;
+    const key = entry.slice(0, eq).toUpperCase();
+    const value = entry.slice(eq + 1).trim();
+
+    if (key === 'METADATA_BLOCK_PICTURE') {
+      try {
+        const picture = parseFlacPicture(base64ToBytes(value));
+        if (picture && coverType !== 3 && (picture.type === 3 || coverType < 0)) {
+          tags.cover = picture.cover;
+          coverType = picture.type;
+        }
+      } catch (err) {
+        console.warn("Unreadable cover art in tags", err);
+      }
+    } else if (key === 'TRACKTOTAL' || key === 'TOTALTRACKS') {
+      trackTotal = value;
+    } else if (VORBIS_FIELDS[key]) {
+      assign(tags, VORBIS_FIELDS[key], value);
+    }
+  }
+  if (trackTotal && tags.track && !tags.track.includes('/')) tags.track = `${tags.track}/${trackTotal}`;
+  return tags;
+}
+
+async function readFlacTags(file: Blob, start: number): Promise<AudioTags> {
+  const tags: AudioTags = {};
+  let pos = start + 4;
+  for (let last = false; !last && pos + 4 <= file.size;) {
+    const header = await readBytes(file, pos, pos + 4);
+    last = (header[0] & 0x80) !== 0;
+    const type = header[0] & 0x7F;
+    const length = (header[1] << 16) | (header[2] << 8) | header[3];
+    pos += 4;
+    if (type === 4) {
+      parseVorbisComment(await readBytes(file, pos, pos + length), tags);
+    } else if (type === 6 && !tags.cover) {
+      tags.cover = parseFlacPicture(await readBytes(file, pos, pos + length))?.cover;
+    }
+    pos += length;
+  }
+  return tags;
+}
+
+/** Reassembles the first packets of an Ogg stream from its pages */
+function readOggPackets(bytes: Uint8Array, count: number): Uint8Array[] {
+  const packets: Uint8Array[] = [];
+  let current: Uint8Array[] = [];
+  let pos = 0;
+  while (packets.length < count && pos + 27 <= bytes.length && ascii(bytes.subarray(pos, pos + 4)) === 'OggS') {
+    const segments = bytes[pos + 26];
+    const lacing = bytes.subarray(pos + 27, pos + 27 + segments);
+    let offset = pos + 27 + segments;
+    let start = offset;
+    for (const size of lacing) {
+      offset += size;
+      if (size < 255) {
+        current.push(bytes.subarray(start, offset));
+        const length = current.reduce((sum, part) => sum + part.length, 0);
+        const packet = new Uint8Array(length);
+        current.reduce((at, part) => (packet.set(part, at), at + part.length), 0);
+        packets.push(packet);
+        current = [];
+        start = offset;
+      }
+    }
+    if (start < offset) current.push(bytes.subarray(start, offset));
+    pos = offset;
+  }
+  return packets;
+}
+
+async function readOggTags(file: Blob): Promise<AudioTags> {
+  const bytes = await readBytes(file, 0, Math.min(file.size, OGG_HEADER_LIMIT));
+  const comments = readOggPackets(bytes, 2)[1];
+  if (!comments) return {};
+  if (ascii(comments.subarray(0, 8)) === 'OpusTags') return parseVorbisComment(comments.subarray(8));
+  if (ascii(comments.subarray(0, 7)) === '\x03vorbis') return parseVorbisComment(comments.subarray(7));
+  return {};
+}
+
+// ---------------------------------------------------------------------------
+// RIFF INFO and Broadcast Wave bext (WAV)
+
+const INFO_FIELDS: Record<string, TagField> = {
+  INAM: 'title',
+  IART: 'artist',
+  IPRD: 'album',
+  IGNR: 'genre',
+  ICRD: 'year',
+  ITRK: 'track',
+  IPRT: 'track',
+  ICMT: 'comment',
+};
+
+async function readWavTags(file: Blob): Promise<AudioTags> {
+  const tags: AudioTags = {};
+  let id3: AudioTags = {};
+  let pos = 12;
+  while (pos + 8 <= file.size) {
+    const header = await readBytes(file, pos, pos + 8);
+    const id = ascii(header.subarray(0, 4));
+    const size = uint32LE(header, 4);
+    const body = pos + 8;
+    pos = body + size + (size % 2);
+    if (size > METADATA_CHUNK_LIMIT || id === 'data') continue;
+
+    if (id === 'LIST') {
+      const list = await readBytes(file, body, body + size);
+      if (ascii(list.subarray(0, 4)) !== 'INFO') continue;
+      for (let at = 4; at + 8 <= list.length;) {
+        const key = ascii(list.subarray(at, at + 4));
+        const length = uint32LE(list, at + 4);
+        const field = INFO_FIELDS[key];
+        if (field) assign(tags, field, cleanText(utf8.decode(list.subarray(at + 8, at + 8 + length))));
+        at += 8 + length + (length % 2);
+      }
+    } else if (id === 'bext') {
+      const bext = await readBytes(file, body, body + Math.min(size, 330));
+      assign(tags, 'comment', cleanText(ascii(bext.subarray(0, 256)).split('\0')[0]));
+      assign(tags, 'year', cleanText(ascii(bext.subarray(320, 324))));
+    } else if (id === 'id3 ' || id === 'ID3 ') {
+      const tag = await readBytes(file, body, body + size);
+      if (ascii(tag.subarray(0, 3)) === 'ID3') id3 = parseId3v2(tag);
+    }
+  }
+  // INFO is the native WAV location; the ID3 chunk fills what it lacks
+  const { cover, ...text } = id3;
+  (Object.keys(text) as TagField[]).forEach(field => assign(tags, field, text[field]));
+  if (cover) tags.cover = cover;
+  return tags;
+}
+
+/**
+ * Reads the tags of an audio file, choosing the tag format from the container.
+ * Unknown containers and damaged tags give an empty result rather than an error.
+ */
+export async function readTags(file: Blob): Promise<AudioTags> {
+  try {
+    const head = await readBytes(file, 0, 12);
+    const magic = ascii(head.subarray(0, 4));
+
+    if (magic === 'RIFF' && ascii(head.subarray(8, 12)) === 'WAVE') return await readWavTags(file);
+    if (magic === 'fLaC') return await readFlacTags(file, 0);
+    if (magic === 'OggS') return await readOggTags(file);
+
+    let tags: AudioTags = {};
+    if (ascii(head.subarray(0, 3)) === 'ID3') {
+      const length = 10 + syncsafe(head, 6);
+      tags = parseId3v2(await readBytes(file, 0, length));
+      // FLAC files occasionally carry an ID3 tag in front
+      const after = await readBytes(file, length, length + 4);
+      if (ascii(after) === 'fLaC') {
+        const flac = await readFlacTags(file, length);
+        return { ...tags, ...flac };
+      }
+    }
+    if (file.size >= 128) {
+      const tail = await readBytes(file, file.size - 128, file.size);
+      if (ascii(tail.subarray(0, 3)) === 'TAG') {
+        const v1 = parseId3v1(tail);
+        (Object.keys(v1) as TagField[]).forEach(field => assign(tags, field, v1[field]));
+      }
+    }
+    return tags;
+  } catch (err) {
+    console.warn("Reading tags failed", err);
+    return {};
+  }
+}
@@ -0,0 +1,112 @@
+import { AudioTags } from '../types';
+
+export type TagField = Exclude<keyof AudioTags, 'cover'>;
+
+export const TAG_FIELD_LABELS: Record<TagField, string> = {
+  title: '标题',
+  artist: '艺术家',
+  album: '专辑',
+  albumArtist: '专辑艺术家',
+  genre: '流派',
+  year: '年份',
+  track: '音轨号',
+  comment: '注释',
+};
+
+/** Vorbis comment field names, as used by FLAC, Ogg Vorbis and Opus */
+export const VORBIS_KEYS: Record<TagField, string> = {
+  title: 'TITLE',
+  artist: 'ARTIST',
+  album: 'ALBUM',
+  albumArtist: 'ALBUMARTIST',
+  genre: 'GENRE',
+  year: 'DATE',
+  track: 'TRACKNUMBER',
+  comment: 'COMMENT',
+};
+
+/**
+ * How the source tags are adapted for each exported region
+ */
+export interface ClipTagSettings {
+  /** Title of each clip; placeholders are listed in TEMPLATE_PLACEHOLDERS */
+  titleTemplate: string;
+  /** Number the clips 1/N, 2/N, ... in region order */
+  autoTrack: boolean;
+}
+
+export const DEFAULT_CLIP_TAG_SETTINGS: ClipTagSettings = {
+  titleTemplate: '{title} - {label}',
+  autoTrack: true,
+};
+
+export const TEMPLATE_PLACEHOLDERS: Record<string, string> = {
+  title: '原标题',
+  artist: '艺术家',
+  album: '专辑',
+  label: '片段名称',
+  note: '片段备注',
+  index: '片段序号',
+  file: '文件名',
+};
+
+/** The region a clip comes from, for the title template */
+export interface ClipTagContext {
+  label: string;
+  note?: string;
+  /** 0-based position in the region list */
+  index: number;
+  total: number;
+  fileName: string;
+}
+
+/**
+ * Fills `{placeholder}` fields. Unknown placeholders stay as typed, and
+ * separators left dangling by empty fields (e.g. " - " without a title) are trimmed.
+ */
+export function fillTagTemplate(template: string, values: Record<string, string | undefined>): string {
+  return template
+    .replace(/\{(\w+)\}/g, (match, key: string) => (key in values ? values[key] || '' : match))
+    .replace(/^[\s\-–—:|·,]+|[\s\-–—:|·,]+$/g, '');
+}
+
+/**
+ * Tags written into one exported region: the source tags with a templated
+ * title and, if enabled, the clip's track number
+ */
+export function getClipTags(tags: AudioTags, settings: ClipTagSettings, clip: ClipTagContext): AudioTags {
+  const title = fillTagTemplate(settings.titleTemplate, {
+    title: tags.title,
+    artist: tags.artist,
+    album: tags.album,
+    label: clip.label,
+    note: clip.note,
+    index: String(clip.index + 1).padStart(String(clip.total).length, '0'),
+    file: clip.fileName.replace(/\.[^/.]+$/, ''),
+  });
+  return {
+    ...tags,
+    title: title || clip.label,
+    track: settings.autoTrack ? `${clip.index + 1}/${clip.total}` : tags.track,
+  };
+}
+
+/** Whether there is anything to write */
+export const hasTags = (tags: AudioTags | undefined): tags is AudioTags =>
+  !!tags && Object.values(tags).some(value => !!value);
+
+export function bytesToBase64(bytes: Uint8Array): string {
+  let binary = '';
+  // Chunked so large pictures don't overflow the argument limit
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+export function base64ToBytes(base64: string): Uint8Array {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
@@ -0,0 +1,152 @@
+import { AudioTags, CoverArt } from '../types';
+import { base64ToBytes, bytesToBase64, TagField, VORBIS_KEYS } from './tagUtils';
+
+const utf8 = new TextEncoder();
+
+const ascii = (text: string) => Uint8Array.from(text, c => c.charCodeAt(0) & 0xFF);
+
+function concat(parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+  parts.reduce((at, p) => (out.set(p, at), at + p.length), 0);
+  return out;
+}
+
+const uint32BE = (n: number) => Uint8Array.of(n >>> 24, (n >>> 16) & 0xFF, (n >>> 8) & 0xFF, n & 0xFF);
+const uint32LE = (n: number) => Uint8Array.of(n & 0xFF, (n >>> 8) & 0xFF, (n >>> 16) & 0xFF, n >>> 24);
+
+/** Non-empty text fields in a stable order */
+const textEntries = (tags: AudioTags) =>
+  (Object.keys(VORBIS_KEYS) as TagField[])
+    .map(field => [field, tags[field]?.trim()] as const)
+    .filter((entry): entry is readonly [TagField, string] => !!entry[1]);
+
+// ---------------------------------------------------------------------------
+// ID3v2.3, the version most players read; text is stored as UTF-16 so CJK survives
+
+const ID3_FRAMES: Record<TagField, string> = {
+  title: 'TIT2',
+  artist: 'TPE1',
+  album: 'TALB',
+  albumArtist: 'TPE2',
+  genre: 'TCON',
+  year: 'TYER',
+  track: 'TRCK',
+  comment: 'COMM',
+};
+
+/** UTF-16LE with byte order mark */
+function utf16(text: string): Uint8Array {
+  const out = new Uint8Array(2 + text.length * 2);
+  out[0] = 0xFF;
+  out[1] = 0xFE;
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+    out[2 + i * 2] = code & 0xFF;
+    out[3 + i * 2] = code >>> 8;
+  }
+  return out;
+}
+
+const id3Frame = (id: string, body: Uint8Array) => concat([ascii(id), uint32BE(body.length), new Uint8Array(2), body]);
+
+/** An ID3v2.3 tag, for the start of an MP3 or a WAV "id3 " chunk */
+export function buildId3v2(tags: AudioTags): Uint8Array {
+  const UTF16 = Uint8Array.of(1);
+  const frames = textEntries(tags).map(([field, value]) =>
+    field === 'comment'
+      // Encoding, language, empty short description, text
+      ? id3Frame('COMM', concat([UTF16, ascii('und'), utf16(''), new Uint8Array(2), utf16(value)]))
+      : id3Frame(ID3_FRAMES[field], concat([UTF16, utf16(value)]))
+  );
+  if (tags.cover) {
+    // Latin-1, MIME type, picture type 3 (front cover), empty description, image
+    frames.push(id3Frame('APIC', concat([
+      Uint8Array.of(0), ascii(tags.cover.mimeType), Uint8Array.of(0, 3, 0), base64ToBytes(tags.cover.data),
+    ])));
+  }
+
+  const body = concat(frames);
+  const size = body.length;
+  const header = Uint8Array.of(
+    0x49, 0x44, 0x33, 3, 0, 0,
+    (size >>> 21) & 0x7F, (size >>> 14) & 0x7F, (size >>> 7) & 0x7F, size & 0x7F
+  );
+  return concat([header, body]);
+}
+
+// ---------------------------------------------------------------------------
+// RIFF INFO for WAV
+
+const INFO_IDS: Partial<Record<TagField, string>> = {
+  title: 'INAM',
+  artist: 'IART',
+  album: 'IPRD',
+  genre: 'IGNR',
+  year: 'ICRD',
+  track: 'ITRK',
+  comment: 'ICMT',
+};
+
+/** A RIFF chunk, padded to an even length */
+const riffChunk = (id: string, body: Uint8Array) =>
+  concat([ascii(id), uint32LE(body.length), body, new Uint8Array(body.length % 2)]);
+
+/**
+ * Chunks appended after the WAV data: LIST/INFO for the text fields and an
+ * "id3 " chunk, which is where many players look for WAV tags and cover art
+ */
+export function buildWavTagChunks(tags: AudioTags): Uint8Array[] {
+  const info = textEntries(tags)
+    .filter(([field]) => INFO_IDS[field])
+    .map(([field, value]) => riffChunk(INFO_IDS[field]!, concat([utf8.encode(value), Uint8Array.of(0)])));
+  const chunks: Uint8Array[] = [];
+  if (info.length > 0) chunks.push(riffChunk('LIST', concat([ascii('INFO'), ...info])));
+  chunks.push(riffChunk('id3 ', buildId3v2(tags)));
+  return chunks;
+}
+
+// ---------------------------------------------------------------------------
+// Vorbis comments for FLAC and Opus
+
+/** FLAC PICTURE block body; Ogg streams carry it base64-encoded in a comment */
+export function buildFlacPicture(cover: CoverArt): Uint8Array {
+  const mime = ascii(cover.mimeType);
+  const data = base64ToBytes(cover.data);
+  return concat([
+    uint32BE(3), // front cover
+    uint32BE(mime.length), mime,
+    uint32BE(0), // description
+    new Uint8Array(16), // width, height, depth, colors: unknown
+    uint32BE(data.length), data,
+  ]);
+}
+
+/**
+ * Vorbis comment body (vendor string and fields, without framing). The cover
+ * goes in METADATA_BLOCK_PICTURE when `withCover` is set; FLAC stores it in its
+ * own block instead.
+ */
+export function buildVorbisComment(tags: AudioTags, vendor: string, withCover: boolean): Uint8Array {
+  const comments: string[] = [];
+  textEntries(tags).forEach(([field, value]) => {
+    const [track, total] = value.split('/');
+    if (field === 'track' && total) {
+      comments.push(`TRACKNUMBER=${track.trim()}`, `TRACKTOTAL=${total.trim()}`);
+    } else {
+      comments.push(`${VORBIS_KEYS[field]}=${value}`);
+    }
+  });
+  if (withCover && tags.cover) {
+    comments.push(`METADATA_BLOCK_PICTURE=${bytesToBase64(buildFlacPicture(tags.cover))}`);
+  }
+
+  const vendorBytes = utf8.encode(vendor);
+  return concat([
+    uint32LE(vendorBytes.length), vendorBytes,
+    uint32LE(comments.length),
+    ...comments.flatMap(c => {
+      const bytes = utf8.encode(c);
+      return [uint32LE(bytes.length), bytes];
+    }),
+  ]);
+}
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { joinSegmentTexts, searchSegments } from './transcriptUtils';
+import { TranscriptSegment } from '../types';
+
+const segments = (...texts: string[]): TranscriptSegment[] =>
+  texts.map((text, i) => ({ start: i, end: i + 1, text }));
+
+describe('searchSegments', () => {
+  it('finds matches inside single segments, ignoring case', () => {
+    expect(searchSegments(segments('Hello there', 'nothing', 'say HELLO'), 'hello')).toEqual([
+      { from: 0, to: 0 },
+      { from: 2, to: 2 },
+    ]);
+  });
+
+  it('finds a phrase split across segments', () => {
+    const transcript = segments('we will meet at the', 'train station tomorrow', 'at noon');
+    expect(searchSegments(transcript, 'the train station')).toEqual([{ from: 0, to: 1 }]);
+    expect(searchSegments(transcript, 'the train station tomorrow at noon')).toEqual([{ from: 0, to: 2 }]);
+  });
+
+  it('joins CJK segments without a space', () => {
+    const transcript = segments('我们明天在火车', '站见面');
+    expect(searchSegments(transcript, '火车站')).toEqual([{ from: 0, to: 1 }]);
+    expect(joinSegmentTexts(['火车', '站'])).toBe('火车站');
+    expect(joinSegmentTexts(['train', 'station'])).toBe('train station');
+  });
+
+  it('treats runs of whitespace as one space', () => {
+    expect(searchSegments(segments('good   morning  ', '  everyone'), 'morning   everyone')).toEqual([{ from: 0, to: 1 }]);
+  });
+
+  it('reports repeated hits over the same segments once', () => {
+    expect(searchSegments(segments('la la la'), 'la')).toEqual([{ from: 0, to: 0 }]);
+  });
+
+  it('skips empty segments between the parts of a phrase', () => {
+    expect(searchSegments(segments('open the', '', 'door'), 'the door')).toEqual([{ from: 0, to: 2 }]);
+  });
+
+  it('returns nothing for an empty query', () => {
+    expect(searchSegments(segments('anything'), '   ')).toEqual([]);
+  });
+});
@@ -0,0 +1,156 @@
+import { TimeRange, TranscriptSegment } from '../types';
+
+/** Shortest segment that splitting or boundary edits may leave behind, in seconds */
+export const MIN_SEGMENT_LENGTH = 0.05;
+
+/**
+ * Index of the segment playing at `time`, or -1 between segments
+ */
+export function findSegmentAt(segments: TranscriptSegment[], time: number): number {
+  return segments.findIndex(s => time >= s.start && time < s.end);
+}
+
+export function setSegmentText(segments: TranscriptSegment[], index: number, text: string): TranscriptSegment[] {
+  return segments.map((s, i) => (i === index ? { ...s, text } : s));
+}
+
+/**
+ * Moves a segment's boundaries. It may not grow into its neighbours, but overlaps
+ * already present in the recognition result are left alone.
+ */
+export function setSegmentBounds(segments: TranscriptSegment[], index: number, start: number, end: number): TranscriptSegment[] {
+  const current = segments[index];
+  if (!current) return segments;
+  const prev = segments[index - 1];
+  const next = segments[index + 1];
+
+  const minStart = prev ? Math.min(prev.end, current.start) : 0;
+  const maxEnd = next ? Math.max(next.start, current.end) : Infinity;
+  const nextStart = Math.max(minStart, Math.min(start, maxEnd - MIN_SEGMENT_LENGTH));
+  const nextEnd = Math.min(maxEnd, Math.max(end, nextStart + MIN_SEGMENT_LENGTH));
+  return segments.map((s, i) => (i === index ? { ...s, start: nextStart, end: nextEnd } : s));
+}
+
+/**
+ * Splits a segment at a character offset. The cut time is `time` when it falls
+ * inside the segment, otherwise it is estimated from the share of characters.
+ */
+export function splitSegment(segments: TranscriptSegment[], index: number, caret: number, time?: number): TranscriptSegment[] {
+  const s = segments[index];
+  if (!s || s.end - s.start < 2 * MIN_SEGMENT_LENGTH) return segments;
+  const offset = Math.max(0, Math.min(s.text.length, caret));
+
+  const estimated = s.start + (s.end - s.start) * (s.text.length > 0 ? offset / s.text.length : 0.5);
+  const cut = Math.max(
+    s.start + MIN_SEGMENT_LENGTH,
+    Math.min(s.end - MIN_SEGMENT_LENGTH, time !== undefined && time > s.start && time < s.end ? time : estimated)
+  );
+
+  return [
+    ...segments.slice(0, index),
+    { ...s, start: s.start, end: cut, text: s.text.slice(0, offset).trim() },
+    { ...s, start: cut, end: s.end, text: s.text.slice(offset).trim() },
+    ...segments.slice(index + 1),
+  ];
+}
+
+/**
+ * Joins a segment with the one after it. A space is kept between Latin words;
+ * CJK text is joined directly. The first segment's speaker is kept.
+ */
+export function mergeWithNext(segments: TranscriptSegment[], index: number): TranscriptSegment[] {
+  const a = segments[index];
+  const b = segments[index + 1];
+  if (!a || !b) return segments;
+  const needsSpace = /[A-Za-z0-9]$/.test(a.text) && /^[A-Za-z0-9]/.test(b.text);
+  return [
+    ...segments.slice(0, index),
+    {
+      ...a,
+      start: Math.min(a.start, b.start),
+      end: Math.max(a.end, b.end),
+      text: a.text + (needsSpace ? ' ' : '') + b.text,
+    },
+    ...segments.slice(index + 2),
+  ];
+}
+
+/** A search hit, from the segment it starts in to the one it ends in (inclusive) */
+export interface TranscriptMatch {
+  from: number;
+  to: number;
+}
+
+const CJK = /[\u2e80-\u9fff\uac00-\ud7af\uf900-\ufaff\uff00-\uffef]/;
+
+/** Collapses runs of whitespace and lower-cases, which is how search compares text */
+const normalizeText = (text: string) => text.trim().replace(/\s+/g, ' ').toLowerCase();
+
+/** What goes between two segments read as one text: nothing between two CJK characters, else a space */
+const segmentSeparator = (before: string, after: string) =>
+  !before || !after || (CJK.test(before[before.length - 1]) && CJK.test(after[0])) ? '' : ' ';
+
+/** Text of consecutive segments read as one, the way search sees it */
+export function joinSegmentTexts(texts: string[]): string {
+  return texts.reduce((joined, text) => joined + segmentSeparator(joined, text) + text, '');
+}
+
+/**
+ * Occurrences of `query` in the transcript read as continuous text, so a phrase
+ * split across segment boundaries is found too. Case and runs of whitespace are
+ * ignored. Hits covering the same segments are reported once.
+ */
+export function searchSegments(segments: TranscriptSegment[], query: string): TranscriptMatch[] {
+  const needle = normalizeText(query);
+  if (!needle) return [];
+
+  // The joined text, and where each segment starts in it
+  const parts: string[] = [];
+  const starts: number[] = [];
+  let length = 0;
+  let previous = '';
+  segments.forEach(s => {
+    const text = normalizeText(s.text);
+    const separator = segmentSeparator(previous, text);
+    parts.push(separator, text);
+    starts.push(length + separator.length);
+    length += separator.length + text.length;
+    if (text) previous = text;
+  });
+  const haystack = parts.join('');
+
+  /** Last segment starting at or before `pos` */
+  const segmentAt = (pos: number) => {
+    let lo = 0;
+    let hi = starts.length - 1;
+    while (lo < hi) {
+      const mid = (lo + hi + 1) >> 1;
+      if (starts[mid] <= pos) lo = mid; else hi = mid - 1;
+    }
+    return lo;
+  };
+
+  const matches: TranscriptMatch[] = [];
+  for (let at = haystack.indexOf(needle); at >= 0; at = haystack.indexOf(needle, at + 1)) {
+    const from = segmentAt(at);
+    const to = segmentAt(at + needle.length - 1);
+    const last = matches[matches.length - 1];
+    if (!last || last.from !== from || last.to !== to) matches.push({ from, to });
+  }
+  return matches;
+}
+
+/**
+ * Time span covering segments `from`..`to` (inclusive), widened by `padding`
+ * seconds on both sides and kept within [0, duration]
+ */
+export function getSegmentSpan(
+  segments: TranscriptSegment[], from: number, to: number, padding: number, duration: number
+): TimeRange | null {
+  const span = segments.slice(Math.min(from, to), Math.max(from, to) + 1);
+  if (span.length === 0) return null;
+  return {
+    start: Math.max(0, Math.min(...span.map(s => s.start)) - padding),
+    end: Math.min(duration, Math.max(...span.map(s => s.end)) + padding),
+  };
+}
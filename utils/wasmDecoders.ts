@@ -0,0 +1,95 @@
+import { AudioFormatInfo } from '../types';
+import { conformBuffer } from './reelUtils';
+
+/** Output shared by all wasm-audio-decoders packages */
+export interface DecodedAudio {
+  channelData: Float32Array[];
+  samplesDecoded: number;
+  sampleRate: number;
+}
+
+interface WasmDecoder {
+  ready: Promise<void>;
+  /** Takes any slice of the stream and returns what it completes */
+  decode(bytes: Uint8Array): Promise<DecodedAudio> | DecodedAudio;
+  decodeFile?(bytes: Uint8Array): Promise<DecodedAudio>;
+  /** Returns output held back for lack of following data (not all decoders have it) */
+  flush?(): Promise<DecodedAudio> | DecodedAudio;
+  free(): void;
+}
+
+type WasmDecoderClass = new () => WasmDecoder;
+
+// Decoders compiled to WebAssembly, split into their own chunks and loaded only when
+// the browser's own decodeAudioData can't handle a file (e.g. Ogg in Safari, FLAC in
+// older browsers) or when a long recording is decoded piece by piece
+const WASM_DECODERS: Record<string, () => Promise<WasmDecoderClass>> = {
+  'mp3/mp3': () => import('mpg123-decoder').then(m => m.MPEGDecoder),
+  'flac/flac': () => import('@wasm-audio-decoders/flac').then(m => m.FLACDecoder),
+  'ogg/opus': () => import('ogg-opus-decoder').then(m => m.OggOpusDecoder),
+  'ogg/vorbis': () => import('@wasm-audio-decoders/ogg-vorbis').then(m => m.OggVorbisDecoder),
+};
+
+const loaderFor = (format: AudioFormatInfo) => WASM_DECODERS[`${format.container}/${format.codec}`];
+
+/** Whether there is a fallback decoder for this format */
+export const hasWasmDecoder = (format: AudioFormatInfo): boolean => !!loaderFor(format);
+
+async function createDecoder(format: AudioFormatInfo): Promise<WasmDecoder> {
+  const load = loaderFor(format);
+  if (!load) throw new Error('没有适用于此格式的备用解码器');
+
+  let Decoder: WasmDecoderClass;
+  try {
+    Decoder = await load();
+  } catch (err) {
+    console.error("Loading the fallback decoder failed", err);
+    throw new Error('无法加载备用解码器，请检查网络连接');
+  }
+
+  const decoder = new Decoder();
+  try {
+    await decoder.ready;
+  } catch (err) {
+    decoder.free();
+    throw err;
+  }
+  return decoder;
+}
+
+/**
+ * Decodes a file with the bundled WebAssembly decoder for its format, optionally
+ * resampled to `sampleRate` like decodeAudioData would
+ */
+export async function decodeWithWasm(file: Blob, format: AudioFormatInfo, sampleRate?: number): Promise<AudioBuffer> {
+  const decoder = await createDecoder(format);
+  try {
+    const bytes = new Uint8Array(await file.arrayBuffer());
+    const { channelData, samplesDecoded, sampleRate: decodedRate } =
+      await (decoder.decodeFile ? decoder.decodeFile(bytes) : decoder.decode(bytes));
+    if (!samplesDecoded || channelData.length === 0) throw new Error('文件已损坏或不包含音频数据');
+
+    const buffer = new AudioBuffer({ numberOfChannels: channelData.length, length: samplesDecoded, sampleRate: decodedRate });
+    channelData.forEach((data, c) => buffer.copyToChannel(data.subarray(0, samplesDecoded), c));
+    return sampleRate ? conformBuffer(buffer, sampleRate, buffer.numberOfChannels) : buffer;
+  } finally {
+    decoder.free();
+  }
+}
+
+/** A decoder fed the file slice by slice, for reading long recordings in pieces */
+export interface StreamDecoder {
+  decode(bytes: Uint8Array): Promise<DecodedAudio>;
+  /** Output still held back at the end of the stream, if any */
+  flush(): Promise<DecodedAudio | null>;
+  free(): void;
+}
+
+export async function createStreamDecoder(format: AudioFormatInfo): Promise<StreamDecoder> {
+  const decoder = await createDecoder(format);
+  return {
+    decode: async (bytes) => decoder.decode(bytes),
+    flush: async () => (decoder.flush ? decoder.flush() : null),
+    free: () => decoder.free(),
+  };
+}
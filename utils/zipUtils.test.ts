@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import { crc32, createZip } from './zipUtils';
+
+const bytesOf = async (blob: Blob) => {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  return { bytes, view: new DataView(bytes.buffer) };
+};
+
+const text = (bytes: Uint8Array, offset: number, length: number) =>
+  new TextDecoder().decode(bytes.subarray(offset, offset + length));
+
+describe('crc32', () => {
+  it('matches the standard check values', () => {
+    expect(crc32(new Uint8Array(0))).toBe(0);
+    expect(crc32(new TextEncoder().encode('123456789'))).toBe(0xCBF43926);
+    expect(crc32(new TextEncoder().encode('The quick brown fox jumps over the lazy dog'))).toBe(0x414FA339);
+  });
+});
+
+describe('createZip', () => {
+  const modified = new Date(2024, 5, 15, 13, 45, 30);
+
+  it('stores entries with local headers, a central directory and an end record', async () => {
+    const { bytes, view } = await bytesOf(await createZip([
+      { name: 'a.txt', data: 'hello' },
+      { name: '片段 01.wav', data: new Uint8Array([1, 2, 3]) },
+    ], modified));
+
+    // First local header
+    expect(view.getUint32(0, true)).toBe(0x04034B50);
+    expect(view.getUint16(4, true)).toBe(20);
+    expect(view.getUint16(6, true)).toBe(0x0800);
+    expect(view.getUint16(8, true)).toBe(0);
+    expect(view.getUint16(10, true)).toBe((13 << 11) | (45 << 5) | 15);
+    expect(view.getUint16(12, true)).toBe(((2024 - 1980) << 9) | (6 << 5) | 15);
+    expect(view.getUint32(14, true)).toBe(crc32(new TextEncoder().encode('hello')));
+    expect(view.getUint32(18, true)).toBe(5);
+    expect(view.getUint32(22, true)).toBe(5);
+    expect(text(bytes, 30, 5)).toBe('a.txt');
+    expect(text(bytes, 35, 5)).toBe('hello');
+
+    // End record points at the central directory
+    const end = bytes.length - 22;
+    expect(view.getUint32(end, true)).toBe(0x06054B50);
+    expect(view.getUint16(end + 10, true)).toBe(2);
+    const centralSize = view.getUint32(end + 12, true);
+    const centralOffset = view.getUint32(end + 16, true);
+    expect(centralOffset + centralSize).toBe(end);
+
+    // Second central header: UTF-8 name and the offset of its local header
+    const firstCentral = 46 + 5;
+    const second = centralOffset + firstCentral;
+    expect(view.getUint32(second, true)).toBe(0x02014B50);
+    const nameLength = view.getUint16(second + 28, true);
+    expect(text(bytes, second + 46, nameLength)).toBe('片段 01.wav');
+    const localOffset = view.getUint32(second + 42, true);
+    expect(localOffset).toBe(30 + 5 + 5);
+    expect(view.getUint32(localOffset, true)).toBe(0x04034B50);
+    expect([...bytes.subarray(localOffset + 30 + nameLength, localOffset + 30 + nameLength + 3)]).toEqual([1, 2, 3]);
+  });
+
+  it('reads Blob entries', async () => {
+    const { bytes } = await bytesOf(await createZip([{ name: 'b', data: new Blob(['blob data']) }], modified));
+    expect(text(bytes, 31, 9)).toBe('blob data');
+  });
+
+  it('writes no ZIP64 records below 65535 entries', async () => {
+    const entries = Array.from({ length: 65534 }, () => ({ name: '', data: '' }));
+    const { bytes, view } = await bytesOf(await createZip(entries, modified));
+    const end = bytes.length - 22;
+    expect(view.getUint16(end + 10, true)).toBe(65534);
+    expect(view.getUint32(end - 20, true)).not.toBe(0x07064B50);
+  });
+
+  it('switches to ZIP64 end records at 65535 entries', async () => {
+    const entries = Array.from({ length: 65535 }, () => ({ name: '', data: '' }));
+    const { bytes, view } = await bytesOf(await createZip(entries, modified));
+    const end = bytes.length - 22;
+    expect(view.getUint16(end + 10, true)).toBe(0xFFFF);
+
+    const locator = end - 20;
+    expect(view.getUint32(locator, true)).toBe(0x07064B50);
+    const record = Number(view.getBigUint64(locator + 8, true));
+    expect(record).toBe(locator - 56);
+    expect(view.getUint32(record, true)).toBe(0x06064B50);
+    expect(Number(view.getBigUint64(record + 32, true))).toBe(65535);
+    const centralSize = Number(view.getBigUint64(record + 40, true));
+    const centralOffset = Number(view.getBigUint64(record + 48, true));
+    expect(centralOffset).toBe(65535 * 30);
+    expect(centralOffset + centralSize).toBe(record);
+  });
+});
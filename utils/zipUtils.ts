@@ -0,0 +1,161 @@
+export interface ZipEntry {
+  name: string;
+  data: Blob | Uint8Array | string;
+}
+
+let crcTable: Uint32Array | null = null;
+
+/**
+ * Builds (once) the lookup table for the standard CRC-32 polynomial
+ */
+function getCrcTable(): Uint32Array {
+  if (crcTable) return crcTable;
+  crcTable = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xEDB88320 ^ (c >>> 1) : c >>> 1;
+    }
+    crcTable[n] = c >>> 0;
+  }
+  return crcTable;
+}
+
+/**
+ * Computes the CRC-32 checksum of a byte array
+ */
+export function crc32(data: Uint8Array): number {
+  const table = getCrcTable();
+  let crc = 0xFFFFFFFF;
+  for (let i = 0; i < data.length; i++) {
+    crc = table[(crc ^ data[i]) & 0xFF] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xFFFFFFFF) >>> 0;
+}
+
+/**
+ * Converts a Date to the MS-DOS time/date pair used in ZIP headers
+ */
+function toDosDateTime(date: Date): { time: number; date: number } {
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+}
+
+async function toBytes(data: ZipEntry['data']): Promise<Uint8Array> {
+  if (typeof data === 'string') return new TextEncoder().encode(data);
+  if (data instanceof Uint8Array) return data;
+  return new Uint8Array(await data.arrayBuffer());
+}
+
+// Sizes and offsets at or above these no longer fit the classic headers and
+// move into ZIP64 records
+const MAX_UINT32 = 0xFFFFFFFF;
+const MAX_UINT16 = 0xFFFF;
+
+const setUint64 = (view: DataView, pos: number, value: number) => view.setBigUint64(pos, BigInt(value), true);
+
+/** ZIP64 extended information extra field holding the given 64-bit values */
+function zip64Extra(values: number[]): Uint8Array {
+  const extra = new DataView(new ArrayBuffer(4 + values.length * 8));
+  extra.setUint16(0, 0x0001, true); // ZIP64 extra field tag
+  extra.setUint16(2, values.length * 8, true);
+  values.forEach((value, i) => setUint64(extra, 4 + i * 8, value));
+  return new Uint8Array(extra.buffer);
+}
+
+/**
+ * Packs entries into an uncompressed (stored) ZIP archive.
+ * Audio data barely deflates, so storing keeps this fast and dependency free.
+ * Archives past 4 GiB or 65535 entries get ZIP64 records.
+ */
+export async function createZip(entries: ZipEntry[], modified: Date = new Date()): Promise<Blob> {
+  const encoder = new TextEncoder();
+  const { time, date } = toDosDateTime(modified);
+  const parts: BlobPart[] = [];
+  const central: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const nameBytes = encoder.encode(entry.name);
+    const data = await toBytes(entry.data);
+    const crc = crc32(data);
+    const bigData = data.length >= MAX_UINT32;
+    const bigOffset = offset >= MAX_UINT32;
+    const version = bigData || bigOffset ? 45 : 20;
+
+    // The local header only carries the sizes; the offset lives in the central directory
+    const localExtra = bigData ? zip64Extra([data.length, data.length]) : new Uint8Array(0);
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, 0x04034B50, true); // local file header signature
+    local.setUint16(4, version, true); // version needed to extract
+    local.setUint16(6, 0x0800, true); // flags: UTF-8 file names
+    local.setUint16(8, 0, true); // compression: stored
+    local.setUint16(10, time, true);
+    local.setUint16(12, date, true);
+    local.setUint32(14, crc, true);
+    local.setUint32(18, bigData ? MAX_UINT32 : data.length, true); // compressed size
+    local.setUint32(22, bigData ? MAX_UINT32 : data.length, true); // uncompressed size
+    local.setUint16(26, nameBytes.length, true);
+    local.setUint16(28, localExtra.length, true); // extra field length
+    parts.push(local, nameBytes, localExtra, data);
+
+    const centralExtra = bigData || bigOffset
+      ? zip64Extra([...(bigData ? [data.length, data.length] : []), ...(bigOffset ? [offset] : [])])
+      : new Uint8Array(0);
+    const header = new DataView(new ArrayBuffer(46 + nameBytes.length + centralExtra.length));
+    header.setUint32(0, 0x02014B50, true); // central directory signature
+    header.setUint16(4, version, true); // version made by
+    header.setUint16(6, version, true); // version needed to extract
+    header.setUint16(8, 0x0800, true);
+    header.setUint16(10, 0, true);
+    header.setUint16(12, time, true);
+    header.setUint16(14, date, true);
+    header.setUint32(16, crc, true);
+    header.setUint32(20, bigData ? MAX_UINT32 : data.length, true);
+    header.setUint32(24, bigData ? MAX_UINT32 : data.length, true);
+    header.setUint16(28, nameBytes.length, true);
+    header.setUint16(30, centralExtra.length, true);
+    // comment length, disk number, internal attributes stay 0
+    header.setUint32(38, 0, true); // external attributes
+    header.setUint32(42, bigOffset ? MAX_UINT32 : offset, true); // offset of local header
+    const headerBytes = new Uint8Array(header.buffer);
+    headerBytes.set(nameBytes, 46);
+    headerBytes.set(centralExtra, 46 + nameBytes.length);
+    central.push(headerBytes);
+
+    offset += 30 + nameBytes.length + localExtra.length + data.length;
+  }
+
+  const centralSize = central.reduce((sum, c) => sum + c.length, 0);
+  const tail: DataView[] = [];
+  const needsZip64 = entries.length >= MAX_UINT16 || centralSize >= MAX_UINT32 || offset >= MAX_UINT32;
+  if (needsZip64) {
+    const record = new DataView(new ArrayBuffer(56));
+    record.setUint32(0, 0x06064B50, true); // ZIP64 end of central directory signature
+    setUint64(record, 4, 44); // size of the rest of this record
+    record.setUint16(12, 45, true); // version made by
+    record.setUint16(14, 45, true); // version needed to extract
+    // disk numbers stay 0
+    setUint64(record, 24, entries.length); // entries on this disk
+    setUint64(record, 32, entries.length); // total entries
+    setUint64(record, 40, centralSize);
+    setUint64(record, 48, offset); // central directory offset
+
+    const locator = new DataView(new ArrayBuffer(20));
+    locator.setUint32(0, 0x07064B50, true); // ZIP64 end of central directory locator signature
+    setUint64(locator, 8, offset + centralSize); // offset of the ZIP64 record
+    locator.setUint32(16, 1, true); // total number of disks
+    tail.push(record, locator);
+  }
+
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054B50, true); // end of central directory signature
+  end.setUint16(8, Math.min(entries.length, MAX_UINT16), true); // entries on this disk
+  end.setUint16(10, Math.min(entries.length, MAX_UINT16), true); // total entries
+  end.setUint32(12, Math.min(centralSize, MAX_UINT32), true);
+  end.setUint32(16, Math.min(offset, MAX_UINT32), true); // central directory offset
+
+  return new Blob([...parts, ...central, ...tail, end], { type: 'application/zip' });
+}
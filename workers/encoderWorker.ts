@@ -0,0 +1,40 @@
+import { AudioTags } from '../types';
+import { FlacOptions, Mp3Options, OpusOptions } from '../utils/exportFormats';
+import { encodeFlac } from '../utils/flacEncoder';
+import { encodeMp3 } from '../utils/mp3Encoder';
+import { encodeOggOpus } from '../utils/oggOpusEncoder';
+
+export type EncoderWorkerRequest = { channels: Float32Array[]; sampleRate: number; tags: AudioTags } & (
+  | { format: 'mp3'; options: Mp3Options }
+  | { format: 'opus'; options: OpusOptions }
+  | { format: 'flac'; options: FlacOptions }
+);
+
+export type EncoderWorkerResponse =
+  | { type: 'progress'; value: number }
+  | { type: 'result'; parts: Uint8Array[] }
+  | { type: 'error'; message: string };
+
+const post = (message: EncoderWorkerResponse, transfer: Transferable[] = []) => self.postMessage(message, { transfer });
+
+self.onmessage = async (e: MessageEvent<EncoderWorkerRequest>) => {
+  const request = e.data;
+  const onProgress = (value: number) => post({ type: 'progress', value });
+  try {
+    let parts: Uint8Array[];
+    switch (request.format) {
+      case 'mp3':
+        parts = await encodeMp3(request.channels, request.sampleRate, request.options, request.tags, onProgress);
+        break;
+      case 'opus':
+        parts = await encodeOggOpus(request.channels, request.sampleRate, request.options, request.tags, onProgress);
+        break;
+      case 'flac':
+        parts = await encodeFlac(request.channels, request.sampleRate, request.options, request.tags, onProgress);
+        break;
+    }
+    post({ type: 'result', parts }, parts.map(p => p.buffer));
+  } catch (err: any) {
+    post({ type: 'error', message: err?.message || String(err) });
+  }
+};
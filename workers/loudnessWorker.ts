@@ -0,0 +1,30 @@
+import { TimeRange } from '../types';
+import { measureLoudness, LoudnessStats } from '../utils/loudnessUtils';
+
+export interface LoudnessWorkerRequest {
+  channels: Float32Array[];
+  sampleRate: number;
+  /** Sub-ranges measured on their own, in seconds */
+  ranges: TimeRange[];
+}
+
+export type LoudnessWorkerResponse =
+  | { type: 'result'; file: LoudnessStats; ranges: LoudnessStats[] }
+  | { type: 'error'; message: string };
+
+const post = (message: LoudnessWorkerResponse) => self.postMessage(message);
+
+self.onmessage = (e: MessageEvent<LoudnessWorkerRequest>) => {
+  const { channels, sampleRate, ranges } = e.data;
+  try {
+    const file = measureLoudness(channels, sampleRate);
+    const rangeStats = ranges.map(({ start, end }) => {
+      const from = Math.max(0, Math.floor(start * sampleRate));
+      const to = Math.min(channels[0].length, Math.ceil(end * sampleRate));
+      return measureLoudness(channels.map(c => c.subarray(from, Math.max(from, to))), sampleRate);
+    });
+    post({ type: 'result', file, ranges: rangeStats });
+  } catch (err: any) {
+    post({ type: 'error', message: err?.message || String(err) });
+  }
+};
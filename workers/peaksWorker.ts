@@ -0,0 +1,24 @@
+import { AudioFormatInfo } from '../types';
+import { computeWaveformPeaks, WaveformPeaks } from '../utils/peaksUtils';
+
+export interface PeaksWorkerRequest {
+  file: Blob;
+  format: AudioFormatInfo;
+}
+
+export type PeaksWorkerResponse =
+  | { type: 'progress'; value: number }
+  | { type: 'result'; peaks: WaveformPeaks }
+  | { type: 'error'; message: string };
+
+const post = (message: PeaksWorkerResponse, transfer: Transferable[] = []) => self.postMessage(message, { transfer });
+
+self.onmessage = async (e: MessageEvent<PeaksWorkerRequest>) => {
+  const { file, format } = e.data;
+  try {
+    const peaks = await computeWaveformPeaks(file, format, value => post({ type: 'progress', value }));
+    post({ type: 'result', peaks }, peaks.levels.flatMap(level => level.data.map(d => d.buffer)));
+  } catch (err: any) {
+    post({ type: 'error', message: err?.message || String(err) });
+  }
+};
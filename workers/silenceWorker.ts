@@ -0,0 +1,25 @@
+import { TimeRange } from '../types';
+import { detectNonSilentRanges, SilenceDetectionOptions } from '../utils/silenceUtils';
+
+export interface SilenceWorkerRequest {
+  channels: Float32Array[];
+  sampleRate: number;
+  options: SilenceDetectionOptions;
+}
+
+export type SilenceWorkerResponse =
+  | { type: 'progress'; value: number }
+  | { type: 'result'; ranges: TimeRange[] }
+  | { type: 'error'; message: string };
+
+const post = (message: SilenceWorkerResponse) => self.postMessage(message);
+
+self.onmessage = (e: MessageEvent<SilenceWorkerRequest>) => {
+  const { channels, sampleRate, options } = e.data;
+  try {
+    const ranges = detectNonSilentRanges(channels, sampleRate, options, value => post({ type: 'progress', value }));
+    post({ type: 'result', ranges });
+  } catch (err: any) {
+    post({ type: 'error', message: err?.message || String(err) });
+  }
+};
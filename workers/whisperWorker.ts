@@ -0,0 +1,58 @@
+import { AutomaticSpeechRecognitionOutput, Chunk, env, pipeline } from '@huggingface/transformers';
+import { TranscriptSegment } from '../types';
+
+// transformers.js points the ONNX runtime at its CDN copy of the WebAssembly binary;
+// without a path the runtime loads the one bundled next to it
+if (env.backends.onnx.wasm) env.backends.onnx.wasm.wasmPaths = undefined;
+
+export interface WhisperWorkerRequest {
+  /** Mono PCM at 16 kHz */
+  audio: Float32Array;
+  model: string;
+  /** ISO 639-1 code, or null to let the model detect it */
+  language: string | null;
+}
+
+export type WhisperWorkerResponse =
+  | { type: 'status'; message: string }
+  | { type: 'result'; segments: TranscriptSegment[] }
+  | { type: 'error'; message: string };
+
+const post = (message: WhisperWorkerResponse) => self.postMessage(message);
+
+self.onmessage = async (e: MessageEvent<WhisperWorkerRequest>) => {
+  const { audio, model, language } = e.data;
+  try {
+    post({ type: 'status', message: '正在加载语音识别引擎...' });
+
+    // Model files are cached by the browser after the first download
+    const transcriber = await pipeline('automatic-speech-recognition', model, {
+      progress_callback: (p) => {
+        if (p.status === 'progress' && Number.isFinite(p.progress)) {
+          post({ type: 'status', message: `正在下载模型 ${Math.round(p.progress)}%` });
+        }
+      },
+    });
+
+    post({ type: 'status', message: '正在本地识别...' });
+    // One input gives one output; the array form is for batched inputs
+    const output = await transcriber(audio, {
+      return_timestamps: true,
+      chunk_length_s: 30,
+      stride_length_s: 5,
+      task: 'transcribe',
+      ...(language ? { language } : {}),
+    }) as AutomaticSpeechRecognitionOutput;
+
+    const duration = audio.length / 16000;
+    const segments = (output.chunks || []).map((chunk: Chunk): TranscriptSegment => ({
+      start: chunk.timestamp[0] ?? 0,
+      // The last chunk may be open-ended
+      end: chunk.timestamp[1] ?? duration,
+      text: chunk.text,
+    }));
+    post({ type: 'result', segments });
+  } catch (err: any) {
+    post({ type: 'error', message: err?.message || String(err) });
+  }
+};